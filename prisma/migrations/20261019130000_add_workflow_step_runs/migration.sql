@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "StepRunStatus" AS ENUM ('COMPLETED', 'SKIPPED', 'FAILED', 'SUSPENDED');
+
+-- CreateTable
+CREATE TABLE "workflow_step_runs" (
+    "id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "stepId" TEXT NOT NULL,
+    "stepName" TEXT NOT NULL,
+    "stepType" TEXT NOT NULL,
+    "status" "StepRunStatus" NOT NULL,
+    "input" JSONB NOT NULL DEFAULT '{}',
+    "output" JSONB,
+    "error" TEXT,
+    "skippedReason" TEXT,
+    "nextStepId" TEXT,
+    "durationMs" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "endedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "executionId" TEXT NOT NULL,
+
+    CONSTRAINT "workflow_step_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "workflow_step_runs_executionId_position_idx" ON "workflow_step_runs"("executionId", "position");
+
+-- AddForeignKey
+ALTER TABLE "workflow_step_runs" ADD CONSTRAINT "workflow_step_runs_executionId_fkey" FOREIGN KEY ("executionId") REFERENCES "workflow_executions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "flows" ADD COLUMN     "publishedVersionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "workflow_executions" ADD COLUMN     "flowVersionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "flow_versions" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "steps" JSONB NOT NULL DEFAULT '[]',
+    "notes" TEXT,
+    "publishedBy" TEXT,
+    "publishedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "flowId" TEXT NOT NULL,
+
+    CONSTRAINT "flow_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "flow_versions_flowId_version_key" ON "flow_versions"("flowId", "version");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "flows_publishedVersionId_key" ON "flows"("publishedVersionId");
+
+-- AddForeignKey
+ALTER TABLE "flows" ADD CONSTRAINT "flows_publishedVersionId_fkey" FOREIGN KEY ("publishedVersionId") REFERENCES "flow_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "flow_versions" ADD CONSTRAINT "flow_versions_flowId_fkey" FOREIGN KEY ("flowId") REFERENCES "flows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workflow_executions" ADD CONSTRAINT "workflow_executions_flowVersionId_fkey" FOREIGN KEY ("flowVersionId") REFERENCES "flow_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Publica os steps atuais de cada fluxo como versão 1 e fixa nela as execuções em andamento
+INSERT INTO "flow_versions" ("id", "version", "steps", "notes", "flowId")
+SELECT gen_random_uuid()::text, 1, "steps", 'Versão inicial', "id" FROM "flows";
+
+UPDATE "flows" AS f SET "publishedVersionId" = v."id"
+FROM "flow_versions" AS v WHERE v."flowId" = f."id";
+
+UPDATE "workflow_executions" AS e SET "flowVersionId" = f."publishedVersionId"
+FROM "flows" AS f WHERE e."flowId" = f."id" AND e."status" IN ('RUNNING', 'PAUSED');
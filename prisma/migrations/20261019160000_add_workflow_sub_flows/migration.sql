@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "workflow_executions" ADD COLUMN     "parentExecutionId" TEXT,
+ADD COLUMN     "parentStepId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "workflow_executions_parentExecutionId_idx" ON "workflow_executions"("parentExecutionId");
+
+-- AddForeignKey
+ALTER TABLE "workflow_executions" ADD CONSTRAINT "workflow_executions_parentExecutionId_fkey" FOREIGN KEY ("parentExecutionId") REFERENCES "workflow_executions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
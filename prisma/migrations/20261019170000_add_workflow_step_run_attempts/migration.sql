@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "workflow_step_runs" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "flows" ADD COLUMN     "eventTriggers" JSONB NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "campaign_contacts" ADD COLUMN     "repliedAt" TIMESTAMP(3);
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "skills" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "lastAssignedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "conversations" ADD COLUMN     "botPaused" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,5 @@
+-- AlterEnum
+-- Em migração separada: valores novos de enum só podem ser usados depois do commit
+ALTER TYPE "StepType" ADD VALUE 'WAIT_FOR_REPLY';
+ALTER TYPE "StepType" ADD VALUE 'SUB_FLOW';
+ALTER TYPE "StepType" ADD VALUE 'HANDOFF';
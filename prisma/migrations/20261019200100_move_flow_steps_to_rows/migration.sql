@@ -0,0 +1,77 @@
+-- Steps sem tipo ou com tipo desconhecido impediriam a conversão abaixo depois de
+-- parte das alterações; a migração falha antes delas, indicando os fluxos a corrigir
+DO $$
+DECLARE
+  invalid TEXT;
+BEGIN
+  SELECT string_agg(format('fluxo "%s" (%s)%s, step %s: tipo %s',
+                           f."name", f."id",
+                           CASE WHEN src."version" IS NULL THEN '' ELSE ' versão ' || src."version" END,
+                           s.position,
+                           COALESCE('"' || (s.step->>'type') || '"', 'ausente')), '; ')
+    INTO invalid
+  FROM (
+    SELECT "id" AS "flowId", NULL::int AS "version", "steps" FROM "flows"
+    UNION ALL
+    SELECT "flowId", "version", "steps" FROM "flow_versions"
+  ) AS src
+  JOIN "flows" f ON f."id" = src."flowId"
+  CROSS JOIN LATERAL jsonb_array_elements(src."steps") WITH ORDINALITY AS s(step, position)
+  WHERE UPPER(s.step->>'type') IS NULL
+     OR UPPER(s.step->>'type') NOT IN (SELECT unnest(enum_range(NULL::"StepType"))::text);
+
+  IF invalid IS NOT NULL THEN
+    RAISE EXCEPTION 'Steps com tipo inválido; corrija ou remova esses steps e rode a migração novamente: %', invalid;
+  END IF;
+END $$;
+
+-- AlterTable
+ALTER TABLE "workflow_steps" ADD COLUMN     "key" TEXT,
+ADD COLUMN     "edges" JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN     "retry" JSONB,
+ADD COLUMN     "continueOnError" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "fallback" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "flowVersionId" TEXT;
+
+-- Linhas antigas nunca foram lidas pelo engine: ficam inativas para não alterar os fluxos
+UPDATE "workflow_steps" SET "key" = 'legacy_' || "id", "isActive" = false;
+
+-- Rascunhos (flows.steps) e versões publicadas (flow_versions.steps) viram linhas,
+-- com os mesmos ids derivados da posição que o engine usava para steps sem id
+INSERT INTO "workflow_steps" ("id", "key", "name", "type", "config", "conditions", "actions", "edges", "retry", "continueOnError", "fallback", "order", "updatedAt", "flowId", "flowVersionId")
+SELECT gen_random_uuid()::text,
+       COALESCE(s.step->>'id', 'step_' || s.position),
+       COALESCE(NULLIF(s.step->>'name', ''), 'Step ' || s.position),
+       UPPER(s.step->>'type')::"StepType",
+       COALESCE(s.step->'config', '{}'),
+       CASE WHEN jsonb_typeof(s.step->'conditions') = 'array' THEN s.step->'conditions' ELSE '[]' END,
+       CASE WHEN jsonb_typeof(s.step->'actions') = 'array' THEN s.step->'actions' ELSE '[]' END,
+       (SELECT COALESCE(jsonb_object_agg(e.key, e.value), '{}') FROM jsonb_each(s.step) AS e
+         WHERE e.key IN ('next', 'onTrue', 'onFalse', 'onError', 'onTimeout')),
+       s.step->'retry',
+       COALESCE((s.step->>'continueOnError')::boolean, false),
+       COALESCE((s.step->>'fallback')::boolean, false),
+       s.position - 1,
+       CURRENT_TIMESTAMP,
+       src."flowId",
+       src."flowVersionId"
+FROM (
+  SELECT "id" AS "flowId", NULL::text AS "flowVersionId", "steps" FROM "flows"
+  UNION ALL
+  SELECT "flowId", "id", "steps" FROM "flow_versions"
+) AS src
+CROSS JOIN LATERAL jsonb_array_elements(src."steps") WITH ORDINALITY AS s(step, position);
+
+ALTER TABLE "workflow_steps" ALTER COLUMN "key" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "flows" DROP COLUMN "steps";
+
+-- AlterTable
+ALTER TABLE "flow_versions" DROP COLUMN "steps";
+
+-- CreateIndex
+CREATE INDEX "workflow_steps_flowId_flowVersionId_order_idx" ON "workflow_steps"("flowId", "flowVersionId", "order");
+
+-- AddForeignKey
+ALTER TABLE "workflow_steps" ADD CONSTRAINT "workflow_steps_flowVersionId_fkey" FOREIGN KEY ("flowVersionId") REFERENCES "flow_versions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterEnum
+ALTER TYPE "StepType" ADD VALUE 'SPLIT';
+
+-- CreateTable
+CREATE TABLE "workflow_split_assignments" (
+    "id" TEXT NOT NULL,
+    "stepId" TEXT NOT NULL,
+    "branch" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "flowId" TEXT NOT NULL,
+    "customerId" TEXT NOT NULL,
+
+    CONSTRAINT "workflow_split_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_split_assignments_flowId_stepId_customerId_key" ON "workflow_split_assignments"("flowId", "stepId", "customerId");
+
+-- AddForeignKey
+ALTER TABLE "workflow_split_assignments" ADD CONSTRAINT "workflow_split_assignments_flowId_fkey" FOREIGN KEY ("flowId") REFERENCES "flows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workflow_split_assignments" ADD CONSTRAINT "workflow_split_assignments_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
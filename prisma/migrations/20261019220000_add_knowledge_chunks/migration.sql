@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "knowledge_base" ADD COLUMN "indexedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "knowledge_chunks" (
+    "id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+    "model" TEXT,
+    "contentHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "knowledgeBaseId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+
+    CONSTRAINT "knowledge_chunks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "knowledge_chunks_companyId_idx" ON "knowledge_chunks"("companyId");
+
+-- CreateIndex
+CREATE INDEX "knowledge_chunks_knowledgeBaseId_idx" ON "knowledge_chunks"("knowledgeBaseId");
+
+-- AddForeignKey
+ALTER TABLE "knowledge_chunks" ADD CONSTRAINT "knowledge_chunks_knowledgeBaseId_fkey" FOREIGN KEY ("knowledgeBaseId") REFERENCES "knowledge_base"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "knowledge_chunks" ADD CONSTRAINT "knowledge_chunks_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
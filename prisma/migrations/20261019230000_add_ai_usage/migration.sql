@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "ai_usage" (
+    "id" TEXT NOT NULL,
+    "provider" "AIProvider" NOT NULL,
+    "model" TEXT NOT NULL,
+    "operation" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL DEFAULT 0,
+    "completionTokens" INTEGER NOT NULL DEFAULT 0,
+    "totalTokens" INTEGER NOT NULL DEFAULT 0,
+    "estimated" BOOLEAN NOT NULL DEFAULT false,
+    "latencyMs" INTEGER NOT NULL,
+    "cost" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "success" BOOLEAN NOT NULL DEFAULT true,
+    "error" TEXT,
+    "date" DATE NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "companyId" TEXT,
+    "assistantId" TEXT,
+
+    CONSTRAINT "ai_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_usage_companyId_date_idx" ON "ai_usage"("companyId", "date");
+
+-- CreateIndex
+CREATE INDEX "ai_usage_assistantId_date_idx" ON "ai_usage"("assistantId", "date");
+
+-- AddForeignKey
+ALTER TABLE "ai_usage" ADD CONSTRAINT "ai_usage_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ai_usage" ADD CONSTRAINT "ai_usage_assistantId_fkey" FOREIGN KEY ("assistantId") REFERENCES "ai_assistants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { hashPassword } from '../src/utils/auth';
+import knowledgeIndexService from '../src/services/knowledgeIndex';
 
 const prisma = new PrismaClient();
 
@@ -172,7 +173,47 @@ async function main() {
   ]);
 
   // Create demo flows
-  await prisma.flow.create({
+  // Steps são linhas de WorkflowStep: "key" é o id usado pelas arestas
+  const salesFlowSteps = [
+    {
+      key: 'pergunta_tamanho',
+      name: 'Perguntar tamanho da empresa',
+      type: 'MESSAGE' as const,
+      config: {
+        message: 'Ótimo! Vou te ajudar a encontrar o plano ideal. Qual o tamanho da sua empresa?'
+      },
+      edges: { next: 'verifica_tamanho' },
+      order: 0
+    },
+    {
+      key: 'verifica_tamanho',
+      name: 'Empresa grande?',
+      type: 'CONDITION' as const,
+      config: {
+        conditions: [{ field: 'companySize', operator: 'equals', value: 'grande' }]
+      },
+      edges: { onTrue: 'plano_enterprise', onFalse: 'plano_pro' },
+      order: 1
+    },
+    {
+      key: 'plano_enterprise',
+      name: 'Oferecer Enterprise',
+      type: 'MESSAGE' as const,
+      config: { message: 'Para empresas do seu porte recomendamos o plano Enterprise.' },
+      edges: { next: null },
+      order: 2
+    },
+    {
+      key: 'plano_pro',
+      name: 'Oferecer Pro',
+      type: 'MESSAGE' as const,
+      config: { message: 'O plano Pro atende perfeitamente empresas do seu tamanho.' },
+      edges: { next: null },
+      order: 3
+    }
+  ];
+
+  const salesFlow = await prisma.flow.create({
     data: {
       name: 'Fluxo de Vendas',
       description: 'Fluxo para qualificação e conversão de leads',
@@ -181,26 +222,28 @@ async function main() {
       category: 'Vendas',
       companyId: company.id,
       botId: bot.id,
-      steps: [
-        {
-          id: '1',
-          type: 'message',
-          content: 'Ótimo! Vou te ajudar a encontrar o plano ideal. Qual o tamanho da sua empresa?',
-          nextStepId: '2'
-        },
-        {
-          id: '2',
-          type: 'condition',
-          conditions: {
-            'pequena': '3',
-            'média': '4',
-            'grande': '5'
-          }
-        }
-      ]
+      workflowSteps: {
+        create: salesFlowSteps
+      }
     }
   });
 
+  const salesFlowVersion = await prisma.flowVersion.create({
+    data: {
+      version: 1,
+      notes: 'Versão inicial',
+      flowId: salesFlow.id,
+      workflowSteps: {
+        create: salesFlowSteps.map(step => ({ ...step, flowId: salesFlow.id }))
+      }
+    }
+  });
+
+  await prisma.flow.update({
+    where: { id: salesFlow.id },
+    data: { publishedVersionId: salesFlowVersion.id }
+  });
+
   // Create demo knowledge base
   await Promise.all([
     prisma.knowledgeBase.create({
@@ -227,6 +270,9 @@ async function main() {
     })
   ]);
 
+  // Trechos usados nas respostas da IA (sem OPENAI_API_KEY a busca é por palavras)
+  await knowledgeIndexService.reindexCompany(company.id);
+
   console.log('✅ Seed concluído com sucesso!');
   console.log(`👤 Admin criado: admin@demo.com / admin123`);
   console.log(`🏢 Empresa: ${company.name} (${company.slug})`);
@@ -3,6 +3,32 @@ import { AuthRequest } from '../types';
 import prisma from '../utils/database';
 import logger from '../utils/logger';
 import aiService from '../services/aiService';
+import llmGateway, { parseProvider, validateAzureEndpoint } from '../services/llmGateway';
+import flowTriggerService from '../services/flowTriggers';
+import aiStreamService from '../services/aiStream';
+import aiUsageService, { isQuotaExceededError } from '../services/aiUsage';
+
+// Período dos relatórios de uso: from/to (AAAA-MM-DD); padrão = do início do mês até hoje
+function parseUsagePeriod(query: any): { from: Date; to: Date } | { errors: string[] } {
+  const now = new Date();
+  const from = query.from ? new Date(String(query.from)) : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const to = query.to ? new Date(String(query.to)) : now;
+  const errors: string[] = [];
+
+  if (isNaN(from.getTime())) {
+    errors.push('from deve ser uma data válida (AAAA-MM-DD)');
+  }
+
+  if (isNaN(to.getTime())) {
+    errors.push('to deve ser uma data válida (AAAA-MM-DD)');
+  }
+
+  if (errors.length === 0 && from > to) {
+    errors.push('from deve ser anterior a to');
+  }
+
+  return errors.length > 0 ? { errors } : { from, to };
+}
 
 export class AIAssistantController {
   async getAssistants(req: AuthRequest, res: Response) {
@@ -86,13 +112,28 @@ export class AIAssistantController {
         });
       }
 
+      const aiProvider = parseProvider(provider || 'OPENAI');
+      if (!aiProvider) {
+        return res.status(400).json({ error: `Provedor de IA não suportado: ${provider}` });
+      }
+
+      const aiModel = model || llmGateway.getDefaultModel(aiProvider);
+      if (!aiModel) {
+        return res.status(400).json({ error: `Modelo é obrigatório para o provedor ${aiProvider}` });
+      }
+
+      const endpointError = aiProvider === 'AZURE' ? validateAzureEndpoint(settings, !!apiKey) : null;
+      if (endpointError) {
+        return res.status(400).json({ error: 'Configuração do Azure inválida', details: [endpointError] });
+      }
+
       const assistant = await prisma.aIAssistant.create({
         data: {
           name,
           description,
           personality,
-          provider: provider || 'OPENAI',
-          model: model || 'gpt-3.5-turbo',
+          provider: aiProvider,
+          model: aiModel,
           apiKey: apiKey || null,
           settings: settings || {},
           trainingData: trainingData || [],
@@ -123,13 +164,27 @@ export class AIAssistantController {
         return res.status(404).json({ error: 'Assistente IA não encontrado' });
       }
 
+      if (provider !== undefined && !parseProvider(provider)) {
+        return res.status(400).json({ error: `Provedor de IA não suportado: ${provider}` });
+      }
+
+      // Valida a configuração resultante (campos enviados sobre os atuais)
+      const effectiveProvider = provider !== undefined ? parseProvider(provider) : assistant.provider;
+      const effectiveApiKey = apiKey !== undefined ? apiKey : assistant.apiKey;
+      const endpointError = effectiveProvider === 'AZURE'
+        ? validateAzureEndpoint(settings !== undefined ? settings : assistant.settings, !!effectiveApiKey)
+        : null;
+      if (endpointError) {
+        return res.status(400).json({ error: 'Configuração do Azure inválida', details: [endpointError] });
+      }
+
       const updatedAssistant = await prisma.aIAssistant.update({
         where: { id },
         data: {
           name,
           description,
           personality,
-          provider,
+          provider: provider !== undefined ? parseProvider(provider)! : undefined,
           model,
           apiKey,
           isActive,
@@ -173,10 +228,16 @@ export class AIAssistantController {
     }
   }
 
+  /**
+   * Com stream: true, responde 202 logo após salvar a mensagem do usuário e
+   * transmite a resposta pela sala "conversation-<id>" do Socket.IO (ver
+   * AIStreamService). O cliente deve entrar na sala (join-conversation) antes
+   * de enviar a mensagem; em conversas novas, a resposta salva fica no histórico.
+   */
   async chatWithAssistant(req: AuthRequest, res: Response) {
     try {
       const { assistantId } = req.params;
-      const { message, conversationId } = req.body;
+      const { message, conversationId, stream } = req.body;
       const companyId = req.user!.companyId;
 
       if (!message) {
@@ -192,6 +253,15 @@ export class AIAssistantController {
         return res.status(404).json({ error: 'Assistente IA não encontrado' });
       }
 
+      if (!assistant.isActive) {
+        return res.status(400).json({ error: 'Assistente IA inativo' });
+      }
+
+      const quota = await aiUsageService.getQuota(companyId);
+      if (quota.exceeded) {
+        return res.status(429).json({ error: 'Limite mensal de uso de IA do plano atingido', quota });
+      }
+
       // Buscar ou criar conversa
       let conversation;
       if (conversationId) {
@@ -239,10 +309,63 @@ export class AIAssistantController {
         }
       });
 
-      // Gerar resposta da IA usando o serviço unificado
+      // Workflows têm prioridade sobre a resposta do assistente
+      const handledByWorkflow = await flowTriggerService.handleInboundMessage({
+        companyId,
+        conversationId: conversation.id,
+        message: userMessage
+      });
+
+      // Conversas com atendente humano (handoff) não recebem resposta do assistente
+      if (handledByWorkflow || conversation.botPaused) {
+        return res.json({
+          conversation: {
+            id: conversation.id,
+            status: conversation.status
+          },
+          messages: [
+            {
+              id: userMessage.id,
+              content: userMessage.content,
+              sender: userMessage.sender,
+              timestamp: userMessage.createdAt
+            }
+          ],
+          handledByWorkflow,
+          botPaused: conversation.botPaused
+        });
+      }
+
+      if (stream === true) {
+        const streamId = aiStreamService.start({
+          conversation,
+          assistant,
+          messages: [{ role: 'user', content: message }]
+        });
+
+        return res.status(202).json({
+          conversation: {
+            id: conversation.id,
+            status: conversation.status
+          },
+          messages: [
+            {
+              id: userMessage.id,
+              content: userMessage.content,
+              sender: userMessage.sender,
+              timestamp: userMessage.createdAt
+            }
+          ],
+          streamId
+        });
+      }
+
+      // Gerar resposta com o provedor, o modelo e a chave do assistente
       const aiResponse = await aiService.generateResponse(
         [{ role: 'user', content: message }],
-        assistantId
+        aiService.buildAssistantPrompt(assistant),
+        undefined,
+        assistant
       );
 
       // Salvar resposta da IA
@@ -283,14 +406,39 @@ export class AIAssistantController {
           }
         ],
         intent: aiResponse.intent,
-        confidence: aiResponse.confidence
+        confidence: aiResponse.confidence,
+        sources: aiResponse.sources || []
       });
     } catch (error: any) {
+      // O limite pode ser atingido entre a verificação inicial e a chamada à IA
+      if (isQuotaExceededError(error)) {
+        return res.status(429).json({ error: 'Limite mensal de uso de IA do plano atingido', quota: error.quota });
+      }
+
       logger.error('Erro no chat com assistente IA', { error: error.message });
       res.status(500).json({ error: 'Erro interno do servidor' });
     }
   }
 
+  // Interrompe uma resposta em stream; nada é salvo e a sala recebe ai-stream-error com cancelled: true
+  async cancelStream(req: AuthRequest, res: Response) {
+    try {
+      const { streamId } = req.params;
+      const companyId = req.user!.companyId;
+
+      if (!aiStreamService.cancel(streamId, companyId)) {
+        return res.status(404).json({ error: 'Stream não encontrado ou já finalizado' });
+      }
+
+      logger.info('Stream do assistente IA cancelado', { streamId, companyId });
+
+      res.json({ cancelled: true });
+    } catch (error: any) {
+      logger.error('Erro ao cancelar stream do assistente IA', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
   async validateProvider(req: AuthRequest, res: Response) {
     try {
       const { provider, apiKey } = req.body;
@@ -299,9 +447,8 @@ export class AIAssistantController {
         return res.status(400).json({ error: 'Provedor é obrigatório' });
       }
 
-      // Validação simplificada - verificar se as chaves estão configuradas
-      const isValid = provider === 'openai' ? !!process.env.OPENAI_API_KEY : 
-                     provider === 'openrouter' ? !!process.env.OPENROUTER_API_KEY : false;
+      // Verifica se há chave informada ou global para o provedor
+      const isValid = llmGateway.isConfigured(provider, apiKey);
 
       res.json({ 
         provider, 
@@ -322,16 +469,8 @@ export class AIAssistantController {
         return res.status(400).json({ error: 'Provedor é obrigatório' });
       }
 
-      // Modelos disponíveis por provedor
-      const models = provider === 'openai' ? [
-        { id: 'gpt-4', name: 'GPT-4' },
-        { id: 'gpt-4-turbo', name: 'GPT-4 Turbo' },
-        { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo' }
-      ] : provider === 'openrouter' ? [
-        { id: 'anthropic/claude-3-sonnet', name: 'Claude 3 Sonnet' },
-        { id: 'anthropic/claude-3-haiku', name: 'Claude 3 Haiku' },
-        { id: 'openai/gpt-4', name: 'GPT-4' }
-      ] : [];
+      // Modelos sugeridos por provedor (no Azure o modelo é o nome do deployment)
+      const models = llmGateway.getModels(String(provider));
 
       res.json({ 
         provider, 
@@ -343,20 +482,43 @@ export class AIAssistantController {
     }
   }
 
+  // Uso do provedor no mês corrente e limite do plano da empresa
   async getUsageInfo(req: AuthRequest, res: Response) {
     try {
       const { provider } = req.query;
+      const companyId = req.user!.companyId;
 
       if (!provider) {
         return res.status(400).json({ error: 'Provedor é obrigatório' });
       }
 
-      // Informações de uso simplificadas
+      const parsedProvider = parseProvider(String(provider));
+      if (!parsedProvider) {
+        return res.status(400).json({ error: `Provedor de IA não suportado: ${provider}` });
+      }
+
+      const now = new Date();
+      const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+      const [summary, quota] = await Promise.all([
+        aiUsageService.getSummary(companyId, { from: monthStart, to: now }),
+        aiUsageService.getQuota(companyId)
+      ]);
+
+      const models = summary.byModel.filter(row => row.provider === parsedProvider);
+
       const usageInfo = {
         provider,
-        status: 'active',
-        limit: provider === 'openai' ? 'unlimited' : 'unlimited',
-        usage: 'tracking_not_available'
+        status: llmGateway.isConfigured(parsedProvider) ? 'active' : 'not_configured',
+        limit: quota.limits,
+        usage: {
+          month: quota.month,
+          calls: models.reduce((total, row) => total + row.calls, 0),
+          totalTokens: models.reduce((total, row) => total + row.totalTokens, 0),
+          cost: Math.round(models.reduce((total, row) => total + row.cost, 0) * 1e6) / 1e6,
+          models
+        },
+        quota
       };
 
       res.json({ 
@@ -369,6 +531,63 @@ export class AIAssistantController {
     }
   }
 
+  /**
+   * Uso de IA da empresa no período (from/to), por dia, assistente e modelo,
+   * com o limite mensal do plano. assistantId filtra um assistente.
+   */
+  async getUsage(req: AuthRequest, res: Response) {
+    try {
+      const companyId = req.user!.companyId;
+      const { assistantId } = req.query;
+
+      const period = parseUsagePeriod(req.query);
+      if ('errors' in period) {
+        return res.status(400).json({ error: 'Período inválido', details: period.errors });
+      }
+
+      const [usage, quota] = await Promise.all([
+        aiUsageService.getSummary(companyId, {
+          ...period,
+          assistantId: assistantId ? String(assistantId) : undefined
+        }),
+        aiUsageService.getQuota(companyId)
+      ]);
+
+      res.json({ usage, quota });
+    } catch (error: any) {
+      logger.error('Erro ao buscar uso de IA', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async getAssistantUsage(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const companyId = req.user!.companyId;
+
+      const assistant = await prisma.aIAssistant.findFirst({
+        where: { id, companyId },
+        select: { id: true, name: true }
+      });
+
+      if (!assistant) {
+        return res.status(404).json({ error: 'Assistente IA não encontrado' });
+      }
+
+      const period = parseUsagePeriod(req.query);
+      if ('errors' in period) {
+        return res.status(400).json({ error: 'Período inválido', details: period.errors });
+      }
+
+      const usage = await aiUsageService.getSummary(companyId, { ...period, assistantId: assistant.id });
+
+      res.json({ assistant, usage });
+    } catch (error: any) {
+      logger.error('Erro ao buscar uso do assistente IA', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
   async trainAssistant(req: AuthRequest, res: Response) {
     try {
       const { id } = req.params;
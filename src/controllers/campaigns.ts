@@ -3,6 +3,15 @@ import { AuthRequest } from '../types';
 import prisma from '../utils/database';
 import logger from '../utils/logger';
 import whatsappService from '../services/whatsapp';
+import { validateTemplate } from '../utils/template';
+
+// Erros de sintaxe nos textos personalizáveis da mensagem
+function validateCampaignMessage(message: any): string[] {
+  return [message?.content, message?.caption]
+    .filter(text => typeof text === 'string')
+    .map(text => validateTemplate(text))
+    .filter((error): error is string => error !== null);
+}
 
 export class CampaignsController {
   async getCampaigns(req: AuthRequest, res: Response) {
@@ -114,6 +123,11 @@ export class CampaignsController {
         });
       }
 
+      const templateErrors = validateCampaignMessage(message);
+      if (templateErrors.length > 0) {
+        return res.status(400).json({ error: 'Mensagem inválida', details: templateErrors });
+      }
+
       // Verificar se o número de WhatsApp pertence à empresa
       const whatsappNumber = await prisma.whatsAppNumber.findFirst({
         where: { id: whatsappNumberId, companyId }
@@ -183,6 +197,13 @@ export class CampaignsController {
         return res.status(404).json({ error: 'Campanha não encontrada' });
       }
 
+      if (message !== undefined) {
+        const templateErrors = validateCampaignMessage(message);
+        if (templateErrors.length > 0) {
+          return res.status(400).json({ error: 'Mensagem inválida', details: templateErrors });
+        }
+      }
+
       const updatedCampaign = await prisma.campaign.update({
         where: { id },
         data: {
@@ -282,10 +303,16 @@ export class CampaignsController {
   private async executeCampaignInBackground(campaign: any) {
     try {
       const contacts = campaign.contacts.map((cc: any) => cc.contact.phone);
+      // Variáveis disponíveis na mensagem: {{ contact.name }}, {{ contact.metadata.* }}, {{ campaign.name }}
+      const contexts = campaign.contacts.map((cc: any) => ({
+        contact: cc.contact,
+        campaign: { id: campaign.id, name: campaign.name }
+      }));
       const results = await whatsappService.sendBulkMessage(
         campaign.whatsappNumberId,
         contacts,
-        campaign.message
+        campaign.message,
+        contexts
       );
 
       // Atualizar status dos contatos
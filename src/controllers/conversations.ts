@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import prisma from '../utils/database';
 import logger from '../utils/logger';
+import flowEventService from '../services/flowEvents';
 
 export class ConversationsController {
   async getConversations(req: Request, res: Response) {
@@ -152,6 +153,15 @@ export class ConversationsController {
       });
 
       logger.info('Conversa atualizada', { conversationId: id });
+
+      if (status === 'CLOSED' && conversation.status !== 'CLOSED') {
+        await flowEventService.emit({
+          type: 'conversation.closed',
+          companyId,
+          conversationId: id,
+          payload: { conversationId: id }
+        });
+      }
       res.json(updatedConversation);
     } catch (error: any) {
       logger.error('Erro ao atualizar conversa', { error: error.message });
@@ -0,0 +1,101 @@
+jest.mock('../index', () => ({ io: { to: () => ({ emit: jest.fn() }) } }));
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('../utils/database', () => ({ __esModule: true, default: { flow: { findFirst: jest.fn() } } }));
+jest.mock('../services/flowSteps', () => ({
+  __esModule: true,
+  default: {
+    getDraftSteps: jest.fn(),
+    insertDraftStep: jest.fn(),
+    updateDraftStep: jest.fn(),
+    deleteDraftStep: jest.fn(),
+    reorderDraftSteps: jest.fn()
+  }
+}));
+jest.mock('../services/subFlows', () => ({ validateSubFlowReferences: jest.fn(async () => []) }));
+
+import prisma from '../utils/database';
+import flowStepService from '../services/flowSteps';
+import flowStepsController from './flowSteps';
+
+const message = (id: string, extra: any = {}) => ({ id, name: id, type: 'MESSAGE', config: { message: `Mensagem ${id}` }, ...extra });
+
+const draft = [message('a'), message('b'), message('c')];
+
+function request(params: any = {}, body: any = {}): any {
+  return { params: { id: 'flow-1', ...params }, body, user: { id: 'user-1', companyId: 'company-1' } };
+}
+
+function response(): any {
+  const res: any = {};
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  return res;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (prisma.flow.findFirst as jest.Mock).mockResolvedValue({ id: 'flow-1' });
+  (flowStepService.getDraftSteps as jest.Mock).mockResolvedValue(draft);
+});
+
+describe('FlowStepsController.createStep', () => {
+  it('insere o step na posição pedida com o próximo id livre', async () => {
+    const res = response();
+
+    await flowStepsController.createStep(request({}, { type: 'MESSAGE', config: { message: 'Oi' }, position: 1 }), res);
+
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(flowStepService.insertDraftStep).toHaveBeenCalledWith('flow-1', expect.objectContaining({ id: 'step_4', type: 'MESSAGE' }), 1);
+  });
+
+  it('recusa configs inválidos para o tipo do step', async () => {
+    const res = response();
+
+    await flowStepsController.createStep(request({}, { type: 'DELAY', config: { duration: 5, unit: 'weeks' } }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({
+      error: 'Step inválido',
+      details: [expect.stringContaining('config.unit inválida "weeks"')]
+    });
+    expect(flowStepService.insertDraftStep).not.toHaveBeenCalled();
+  });
+});
+
+describe('FlowStepsController.updateStep', () => {
+  it('recusa alterações que deixam o config inválido', async () => {
+    const res = response();
+
+    await flowStepsController.updateStep(request({ stepId: 'b' }, { config: {} }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({ error: 'Step inválido', details: ['Step "b": MESSAGE requer config.message'] });
+    expect(flowStepService.updateDraftStep).not.toHaveBeenCalled();
+  });
+});
+
+describe('FlowStepsController.reorderSteps', () => {
+  it('grava a nova ordem do rascunho', async () => {
+    const res = response();
+
+    await flowStepsController.reorderSteps(request({}, { order: ['c', 'a', 'b'] }), res);
+
+    expect(flowStepService.reorderDraftSteps).toHaveBeenCalledWith('flow-1', ['c', 'a', 'b']);
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['ids desconhecidos', ['a', 'b', 'x']],
+    ['ids repetidos', ['a', 'a', 'b']],
+    ['steps faltando', ['a', 'b']],
+    ['um valor que não é array', 'a,b,c']
+  ])('recusa uma ordem com %s', async (_, order) => {
+    const res = response();
+
+    await flowStepsController.reorderSteps(request({}, { order }), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({ error: 'order deve conter os ids de todos os steps do rascunho' });
+    expect(flowStepService.reorderDraftSteps).not.toHaveBeenCalled();
+  });
+});
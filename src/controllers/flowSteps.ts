@@ -0,0 +1,230 @@
+import { Response } from 'express';
+import { AuthRequest, WorkflowStepDefinition } from '../types';
+import prisma from '../utils/database';
+import logger from '../utils/logger';
+import flowStepService from '../services/flowSteps';
+import { normalizeSteps, validateFlowGraph } from '../services/workflowGraph';
+import { validateSubFlowReferences } from '../services/subFlows';
+
+// Campos de um step que podem ser enviados na criação e na atualização (o id não muda)
+const STEP_FIELDS: (keyof WorkflowStepDefinition)[] = [
+  'name',
+  'type',
+  'config',
+  'conditions',
+  'actions',
+  'next',
+  'onTrue',
+  'onFalse',
+  'onError',
+  'onTimeout',
+  'retry',
+  'continueOnError',
+  'fallback'
+];
+
+function pickStepFields(body: any): Partial<WorkflowStepDefinition> {
+  const fields: Partial<WorkflowStepDefinition> = {};
+
+  for (const field of STEP_FIELDS) {
+    if (body?.[field] !== undefined) {
+      (fields as any)[field] = body[field];
+    }
+  }
+
+  // retry: null remove a política de novas tentativas
+  if (body?.retry === null) {
+    fields.retry = undefined;
+  }
+
+  return fields;
+}
+
+/**
+ * O rascunho editado step a step pode ter steps ainda não ligados ao grafo;
+ * a publicação valida o fluxo completo.
+ */
+async function validateDraft(companyId: string, flowId: string, steps: WorkflowStepDefinition[]): Promise<string[]> {
+  const errors = validateFlowGraph(steps, { allowUnreachable: true });
+
+  if (errors.length === 0) {
+    errors.push(...await validateSubFlowReferences(companyId, flowId, steps));
+  }
+
+  return errors;
+}
+
+function findFlow(id: string, companyId: string) {
+  return prisma.flow.findFirst({
+    where: { id, companyId },
+    select: { id: true }
+  });
+}
+
+export class FlowStepsController {
+  async getSteps(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const companyId = req.user!.companyId;
+
+      if (!(await findFlow(id, companyId))) {
+        return res.status(404).json({ error: 'Flow não encontrado' });
+      }
+
+      res.json({ steps: await flowStepService.getDraftSteps(id) });
+    } catch (error: any) {
+      logger.error('Erro ao listar steps do flow', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async createStep(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const { id: stepId, position } = req.body;
+      const companyId = req.user!.companyId;
+
+      if (!(await findFlow(id, companyId))) {
+        return res.status(404).json({ error: 'Flow não encontrado' });
+      }
+
+      const steps = await flowStepService.getDraftSteps(id);
+      const index = position === undefined ? steps.length : Number(position);
+
+      if (!Number.isInteger(index) || index < 0 || index > steps.length) {
+        return res.status(400).json({ error: `position deve ser um inteiro entre 0 e ${steps.length}` });
+      }
+
+      if (!req.body.type) {
+        return res.status(400).json({ error: 'Tipo do step é obrigatório' });
+      }
+
+      // Sem id informado, usa o próximo "step_N" livre
+      let key = stepId ? String(stepId) : '';
+      for (let n = steps.length + 1; !key || steps.some(step => step.id === key); n++) {
+        key = `step_${n}`;
+      }
+
+      const [step] = normalizeSteps([{ ...pickStepFields(req.body), id: key }]);
+      const candidate = [...steps.slice(0, index), step, ...steps.slice(index)];
+
+      const errors = await validateDraft(companyId, id, candidate);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Step inválido', details: errors });
+      }
+
+      await flowStepService.insertDraftStep(id, step, index);
+
+      logger.info('Step criado', { flowId: id, stepId: key, companyId });
+
+      res.status(201).json({ step, steps: await flowStepService.getDraftSteps(id) });
+    } catch (error: any) {
+      logger.error('Erro ao criar step', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async updateStep(req: AuthRequest, res: Response) {
+    try {
+      const { id, stepId } = req.params;
+      const companyId = req.user!.companyId;
+
+      if (!(await findFlow(id, companyId))) {
+        return res.status(404).json({ error: 'Flow não encontrado' });
+      }
+
+      const steps = await flowStepService.getDraftSteps(id);
+      const current = steps.find(step => step.id === stepId);
+
+      if (!current) {
+        return res.status(404).json({ error: 'Step não encontrado' });
+      }
+
+      const [step] = normalizeSteps([{ ...current, ...pickStepFields(req.body), id: current.id }]);
+      const candidate = steps.map(s => s.id === stepId ? step : s);
+
+      const errors = await validateDraft(companyId, id, candidate);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Step inválido', details: errors });
+      }
+
+      await flowStepService.updateDraftStep(id, step);
+
+      logger.info('Step atualizado', { flowId: id, stepId, companyId });
+
+      res.json({ step });
+    } catch (error: any) {
+      logger.error('Erro ao atualizar step', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async deleteStep(req: AuthRequest, res: Response) {
+    try {
+      const { id, stepId } = req.params;
+      const companyId = req.user!.companyId;
+
+      if (!(await findFlow(id, companyId))) {
+        return res.status(404).json({ error: 'Flow não encontrado' });
+      }
+
+      const steps = await flowStepService.getDraftSteps(id);
+
+      if (!steps.some(step => step.id === stepId)) {
+        return res.status(404).json({ error: 'Step não encontrado' });
+      }
+
+      // Arestas que apontam para o step removido tornam o rascunho inválido
+      const errors = await validateDraft(companyId, id, steps.filter(step => step.id !== stepId));
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Step não pode ser removido', details: errors });
+      }
+
+      await flowStepService.deleteDraftStep(id, stepId);
+
+      logger.info('Step removido', { flowId: id, stepId, companyId });
+
+      res.json({ message: 'Step removido com sucesso' });
+    } catch (error: any) {
+      logger.error('Erro ao remover step', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async reorderSteps(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const { order } = req.body;
+      const companyId = req.user!.companyId;
+
+      if (!(await findFlow(id, companyId))) {
+        return res.status(404).json({ error: 'Flow não encontrado' });
+      }
+
+      const steps = await flowStepService.getDraftSteps(id);
+      const byId = new Map(steps.map(step => [step.id, step]));
+
+      if (!Array.isArray(order) || order.length !== steps.length || new Set(order).size !== steps.length
+        || !order.every(stepId => byId.has(stepId))) {
+        return res.status(400).json({ error: 'order deve conter os ids de todos os steps do rascunho' });
+      }
+
+      // A ordem define o step inicial e o "next" implícito dos steps
+      const errors = await validateDraft(companyId, id, order.map(stepId => byId.get(stepId)!));
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Ordem inválida', details: errors });
+      }
+
+      await flowStepService.reorderDraftSteps(id, order);
+
+      logger.info('Steps reordenados', { flowId: id, companyId });
+
+      res.json({ steps: await flowStepService.getDraftSteps(id) });
+    } catch (error: any) {
+      logger.error('Erro ao reordenar steps', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+}
+
+export default new FlowStepsController();
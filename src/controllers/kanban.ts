@@ -2,6 +2,7 @@ import { Response } from 'express';
 import { AuthRequest } from '../types';
 import prisma from '../utils/database';
 import logger from '../utils/logger';
+import flowEventService from '../services/flowEvents';
 
 export class KanbanController {
   async getBoards(req: AuthRequest, res: Response) {
@@ -439,6 +440,21 @@ export class KanbanController {
 
       logger.info('Card Kanban movido', { cardId: id, newColumnId: columnId, newOrder: order });
 
+      if (card.columnId !== columnId) {
+        await flowEventService.emit({
+          type: 'kanban.card_moved',
+          companyId,
+          customerId: updatedCard.lead?.customerId,
+          payload: {
+            cardId: id,
+            leadId: card.leadId,
+            boardId: newColumn.boardId,
+            fromColumnId: card.columnId,
+            toColumnId: columnId
+          }
+        });
+      }
+
       res.json({ card: updatedCard });
     } catch (error: any) {
       logger.error('Erro ao mover card Kanban', { error: error.message });
@@ -590,6 +606,15 @@ export class KanbanController {
 
       logger.info('Lead atualizado', { leadId: id, companyId });
 
+      if (status && status !== lead.status) {
+        await flowEventService.emit({
+          type: 'lead.status_changed',
+          companyId,
+          customerId: lead.customerId,
+          payload: { leadId: id, from: lead.status, to: updatedLead.status }
+        });
+      }
+
       res.json({ lead: updatedLead });
     } catch (error: any) {
       logger.error('Erro ao atualizar lead', { error: error.message });
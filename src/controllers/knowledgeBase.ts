@@ -0,0 +1,429 @@
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import prisma from '../utils/database';
+import logger from '../utils/logger';
+import knowledgeIndexService from '../services/knowledgeIndex';
+import { parseDocument } from '../services/knowledgeImport';
+
+const DEFAULT_CATEGORY = 'Geral';
+
+const MAX_TITLE_LENGTH = 200;
+
+// Tags chegam como array (JSON) ou como texto separado por vírgulas (formulário de upload)
+function parseTags(value: any): string[] | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const tags = Array.isArray(value) ? value : String(value).split(',');
+
+  return Array.from(new Set(tags.map(tag => String(tag).trim()).filter(Boolean)));
+}
+
+function parseBoolean(value: any): boolean | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  return value === true || value === 'true';
+}
+
+// Erros de validação de um artigo; em atualizações (partial) só os campos enviados são verificados
+function validateArticle(data: any, partial: boolean): string[] {
+  const errors: string[] = [];
+
+  if (!partial || data.title !== undefined) {
+    if (typeof data.title !== 'string' || !data.title.trim()) {
+      errors.push('title é obrigatório');
+    } else if (data.title.trim().length > MAX_TITLE_LENGTH) {
+      errors.push(`title deve ter no máximo ${MAX_TITLE_LENGTH} caracteres`);
+    }
+  }
+
+  if (!partial || data.content !== undefined) {
+    if (typeof data.content !== 'string' || !data.content.trim()) {
+      errors.push('content é obrigatório');
+    }
+  }
+
+  if (data.category !== undefined && (typeof data.category !== 'string' || !data.category.trim())) {
+    errors.push('category deve ser um texto não vazio');
+  }
+
+  if (data.tags !== undefined && (!Array.isArray(data.tags) || data.tags.some((tag: any) => typeof tag !== 'string'))) {
+    errors.push('tags deve ser uma lista de textos');
+  }
+
+  if (data.isActive !== undefined && typeof data.isActive !== 'boolean') {
+    errors.push('isActive deve ser booleano');
+  }
+
+  return errors;
+}
+
+// Indexa os artigos um por vez, sem atrasar a resposta; falhas ficam no log e são refeitas pelo /reindex
+function indexInBackground(articleIds: string[]): void {
+  (async () => {
+    for (const articleId of articleIds) {
+      try {
+        await knowledgeIndexService.indexArticle(articleId);
+      } catch (error: any) {
+        logger.error('Erro ao indexar artigo', { articleId, error: error.message });
+      }
+    }
+  })();
+}
+
+export class KnowledgeBaseController {
+  async getArticles(req: AuthRequest, res: Response) {
+    try {
+      const { page = 1, limit = 20, category, tag, search, isActive } = req.query;
+      const companyId = req.user!.companyId;
+
+      const skip = (Number(page) - 1) * Number(limit);
+
+      const where: any = { companyId };
+
+      if (category) {
+        where.category = category;
+      }
+
+      if (tag) {
+        where.tags = { has: tag };
+      }
+
+      if (isActive !== undefined) {
+        where.isActive = isActive === 'true';
+      }
+
+      if (search) {
+        where.OR = [
+          { title: { contains: search, mode: 'insensitive' } },
+          { content: { contains: search, mode: 'insensitive' } },
+          { tags: { has: search } }
+        ];
+      }
+
+      const [articles, total] = await Promise.all([
+        prisma.knowledgeBase.findMany({
+          where,
+          include: {
+            _count: {
+              select: { chunks: true }
+            }
+          },
+          orderBy: { updatedAt: 'desc' },
+          skip,
+          take: Number(limit)
+        }),
+        prisma.knowledgeBase.count({ where })
+      ]);
+
+      res.json({
+        articles,
+        pagination: {
+          page: Number(page),
+          limit: Number(limit),
+          total,
+          pages: Math.ceil(total / Number(limit))
+        }
+      });
+    } catch (error: any) {
+      logger.error('Erro ao listar artigos da base de conhecimento', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  // Categorias e tags em uso, com a quantidade de artigos de cada uma (para os filtros)
+  async getCategories(req: AuthRequest, res: Response) {
+    try {
+      const companyId = req.user!.companyId;
+
+      const [categories, articles] = await Promise.all([
+        prisma.knowledgeBase.groupBy({
+          by: ['category'],
+          where: { companyId },
+          _count: { _all: true },
+          orderBy: { category: 'asc' }
+        }),
+        prisma.knowledgeBase.findMany({
+          where: { companyId },
+          select: { tags: true }
+        })
+      ]);
+
+      const tagCounts = new Map<string, number>();
+      for (const article of articles) {
+        for (const tag of article.tags) {
+          tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1);
+        }
+      }
+
+      res.json({
+        categories: categories.map(category => ({ name: category.category, count: category._count._all })),
+        tags: Array.from(tagCounts.entries())
+          .map(([name, count]) => ({ name, count }))
+          .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+      });
+    } catch (error: any) {
+      logger.error('Erro ao listar categorias da base de conhecimento', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  /**
+   * Busca pelo significado, com o mesmo índice usado nas respostas da IA.
+   * Útil para conferir quais trechos um assistente encontraria para uma pergunta.
+   */
+  async searchArticles(req: AuthRequest, res: Response) {
+    try {
+      const { q, limit = 5 } = req.query;
+      const companyId = req.user!.companyId;
+
+      if (typeof q !== 'string' || !q.trim()) {
+        return res.status(400).json({ error: 'Parâmetro q é obrigatório' });
+      }
+
+      const results = await knowledgeIndexService.search(companyId, q, Math.min(Math.max(Number(limit) || 5, 1), 20));
+
+      res.json({ results });
+    } catch (error: any) {
+      logger.error('Erro ao buscar na base de conhecimento', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async getArticle(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const companyId = req.user!.companyId;
+
+      const article = await prisma.knowledgeBase.findFirst({
+        where: { id, companyId },
+        include: {
+          _count: {
+            select: { chunks: true }
+          }
+        }
+      });
+
+      if (!article) {
+        return res.status(404).json({ error: 'Artigo não encontrado' });
+      }
+
+      res.json({ article });
+    } catch (error: any) {
+      logger.error('Erro ao obter artigo da base de conhecimento', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async createArticle(req: AuthRequest, res: Response) {
+    try {
+      const { title, content, category, tags, isActive } = req.body;
+      const companyId = req.user!.companyId;
+
+      const errors = validateArticle(req.body, false);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Artigo inválido', details: errors });
+      }
+
+      const article = await prisma.knowledgeBase.create({
+        data: {
+          title: title.trim(),
+          content: content.trim(),
+          category: category?.trim() || DEFAULT_CATEGORY,
+          tags: parseTags(tags) || [],
+          isActive: isActive ?? true,
+          companyId
+        }
+      });
+
+      indexInBackground([article.id]);
+
+      logger.info('Artigo da base de conhecimento criado', { articleId: article.id, companyId });
+
+      res.status(201).json({ article });
+    } catch (error: any) {
+      logger.error('Erro ao criar artigo da base de conhecimento', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async updateArticle(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const { title, content, category, tags, isActive } = req.body;
+      const companyId = req.user!.companyId;
+
+      const article = await prisma.knowledgeBase.findFirst({
+        where: { id, companyId }
+      });
+
+      if (!article) {
+        return res.status(404).json({ error: 'Artigo não encontrado' });
+      }
+
+      const errors = validateArticle(req.body, true);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Artigo inválido', details: errors });
+      }
+
+      const updatedArticle = await prisma.knowledgeBase.update({
+        where: { id },
+        data: {
+          title: title?.trim(),
+          content: content?.trim(),
+          category: category?.trim(),
+          tags: parseTags(tags),
+          isActive
+        }
+      });
+
+      // Ativar/desativar não muda os trechos, mas muda o que a busca enxerga
+      knowledgeIndexService.invalidate(companyId);
+      indexInBackground([updatedArticle.id]);
+
+      logger.info('Artigo da base de conhecimento atualizado', { articleId: id, companyId });
+
+      res.json({ article: updatedArticle });
+    } catch (error: any) {
+      logger.error('Erro ao atualizar artigo da base de conhecimento', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async deleteArticle(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const companyId = req.user!.companyId;
+
+      const article = await prisma.knowledgeBase.findFirst({
+        where: { id, companyId }
+      });
+
+      if (!article) {
+        return res.status(404).json({ error: 'Artigo não encontrado' });
+      }
+
+      // Os trechos indexados são removidos em cascata
+      await prisma.knowledgeBase.delete({
+        where: { id }
+      });
+
+      knowledgeIndexService.invalidate(companyId);
+
+      logger.info('Artigo da base de conhecimento deletado', { articleId: id, companyId });
+
+      res.json({ message: 'Artigo deletado com sucesso' });
+    } catch (error: any) {
+      logger.error('Erro ao deletar artigo da base de conhecimento', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  /**
+   * Importa artigos de um arquivo (campo "file"): Markdown (uma seção por
+   * artigo), texto, CSV de FAQ (pergunta;resposta[;categoria;tags]) ou PDF.
+   * Documentos longos viram vários artigos. category e tags do formulário
+   * valem para os artigos que não trazem os seus; com dryRun=true os artigos
+   * são só devolvidos, sem salvar.
+   */
+  async importArticles(req: AuthRequest, res: Response) {
+    try {
+      const companyId = req.user!.companyId;
+
+      if (!req.file) {
+        return res.status(400).json({ error: 'Arquivo é obrigatório (campo "file")' });
+      }
+
+      const category = typeof req.body.category === 'string' ? req.body.category.trim() : '';
+      const tags = parseTags(req.body.tags) || [];
+      const dryRun = parseBoolean(req.body.dryRun) === true;
+      const isActive = parseBoolean(req.body.isActive) ?? true;
+
+      const parsed = await parseDocument(req.file);
+
+      if (parsed.articles.length === 0) {
+        return res.status(400).json({ error: 'Nenhum artigo encontrado no arquivo', details: parsed.errors });
+      }
+
+      const articles = parsed.articles.map(article => ({
+        title: article.title.slice(0, MAX_TITLE_LENGTH),
+        content: article.content,
+        category: article.category || category || DEFAULT_CATEGORY,
+        tags: Array.from(new Set([...tags, ...(article.tags || [])])),
+        isActive
+      }));
+
+      if (dryRun) {
+        return res.json({ format: parsed.format, articles, errors: parsed.errors });
+      }
+
+      const created = await prisma.$transaction(
+        articles.map(article => prisma.knowledgeBase.create({
+          data: { ...article, companyId },
+          select: { id: true, title: true, category: true }
+        }))
+      );
+
+      indexInBackground(created.map(article => article.id));
+
+      logger.info('Artigos importados para a base de conhecimento', {
+        companyId,
+        file: req.file.originalname,
+        format: parsed.format,
+        imported: created.length,
+        errors: parsed.errors.length
+      });
+
+      res.status(201).json({
+        format: parsed.format,
+        imported: created.length,
+        articles: created,
+        errors: parsed.errors
+      });
+    } catch (error: any) {
+      logger.error('Erro ao importar artigos para a base de conhecimento', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  /**
+   * Reindexa os trechos usados nas respostas da IA: um artigo (articleId) ou
+   * todos os artigos ativos da empresa. Artigos sem alteração são pulados,
+   * a menos que force seja true (ex.: troca do modelo de embeddings).
+   */
+  async reindex(req: AuthRequest, res: Response) {
+    try {
+      const { articleId, force } = req.body;
+      const companyId = req.user!.companyId;
+
+      if (articleId) {
+        const article = await prisma.knowledgeBase.findFirst({
+          where: { id: articleId, companyId },
+          select: { id: true }
+        });
+
+        if (!article) {
+          return res.status(404).json({ error: 'Artigo não encontrado' });
+        }
+
+        const result = await knowledgeIndexService.indexArticle(article.id, { force: force === true });
+
+        return res.json({ result });
+      }
+
+      const result = await knowledgeIndexService.reindexCompany(companyId, { force: force === true });
+
+      logger.info('Base de conhecimento reindexada', { companyId, ...result, failed: result.failed.length });
+
+      res.json({ result });
+    } catch (error: any) {
+      logger.error('Erro ao reindexar base de conhecimento', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+}
+
+export default new KnowledgeBaseController();
@@ -3,6 +3,7 @@ import prisma from '../utils/database';
 import logger from '../utils/logger';
 import openaiService from '../services/openai';
 import ttsService from '../services/tts';
+import flowTriggerService from '../services/flowTriggers';
 
 export class MessagesController {
   async getMessages(req: Request, res: Response) {
@@ -66,8 +67,16 @@ export class MessagesController {
         data: { status: 'ACTIVE' }
       });
 
+      // Mensagens do cliente (webchat/API) passam pelos gatilhos de workflow, que têm prioridade sobre o bot
+      const handledByWorkflow = sender === 'USER' && await flowTriggerService.handleInboundMessage({
+        companyId,
+        conversationId,
+        message
+      });
+
       // If message is from user and bot exists, generate AI response
-      if (sender === 'USER' && conversation.bot) {
+      // (conversas transferidas para um atendente humano não recebem resposta do bot)
+      if (sender === 'USER' && conversation.bot && !handledByWorkflow && !conversation.botPaused) {
         try {
           const botSettings = conversation.bot.settings as any;
           const voiceEnabled = botSettings?.voiceEnabled || false;
@@ -0,0 +1,161 @@
+jest.mock('../index', () => ({ io: { to: () => ({ emit: jest.fn() }) } }));
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: {
+    flow: { findFirst: jest.fn() },
+    flowVersion: { findUnique: jest.fn(), findFirst: jest.fn() }
+  }
+}));
+jest.mock('../services/flowSteps', () => ({
+  __esModule: true,
+  default: { getDraftSteps: jest.fn(), getVersionSteps: jest.fn(), replaceDraft: jest.fn() }
+}));
+jest.mock('../services/flowVersions', () => ({
+  ...jest.requireActual('../services/flowVersions'),
+  __esModule: true,
+  default: { publish: jest.fn() }
+}));
+jest.mock('../services/subFlows', () => ({ validateSubFlowReferences: jest.fn(async () => []) }));
+jest.mock('../services/flowSchedules', () => ({ __esModule: true, default: { sync: jest.fn() } }));
+jest.mock('../services/flowEvents', () => ({ normalizeEventTriggers: jest.fn(), validateEventTriggers: jest.fn() }));
+jest.mock('../services/flowBundles', () => ({ __esModule: true, default: {}, validateFlowBundle: jest.fn() }));
+jest.mock('../services/flowTriggers', () => ({ validateTriggers: jest.fn() }));
+jest.mock('../services/splitTests', () => ({ __esModule: true, default: {} }));
+jest.mock('../services/workflowEngine', () => ({ __esModule: true, default: {} }));
+jest.mock('../services/workflowScheduler', () => ({ __esModule: true, default: {} }));
+
+import prisma from '../utils/database';
+import flowStepService from '../services/flowSteps';
+import flowVersionService from '../services/flowVersions';
+import workflowsController from './workflows';
+
+const message = (id: string, extra: any = {}) => ({ id, name: id, type: 'MESSAGE', config: { message: `Mensagem ${id}` }, ...extra });
+
+const publishedSteps = [message('a'), message('b')];
+const flow = { id: 'flow-1', companyId: 'company-1', publishedVersionId: 'version-2' };
+
+function request(params: any = {}, body: any = {}, query: any = {}): any {
+  return {
+    params: { id: 'flow-1', ...params },
+    body,
+    query,
+    user: { id: 'user-1', companyId: 'company-1' }
+  };
+}
+
+function response(): any {
+  const res: any = {};
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  return res;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (prisma.flow.findFirst as jest.Mock).mockResolvedValue(flow);
+  (prisma.flowVersion.findUnique as jest.Mock).mockResolvedValue({ id: 'version-2', version: 2 });
+  (flowStepService.getVersionSteps as jest.Mock).mockResolvedValue(publishedSteps);
+  (flowVersionService.publish as jest.Mock).mockResolvedValue({ id: 'version-3', version: 3 });
+});
+
+describe('WorkflowsController.publishFlow', () => {
+  it('recusa publicar um rascunho igual à versão publicada', async () => {
+    (flowStepService.getDraftSteps as jest.Mock).mockResolvedValue(publishedSteps);
+    const res = response();
+
+    await workflowsController.publishFlow(request(), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({ error: 'Não há alterações no rascunho para publicar' });
+    expect(flowVersionService.publish).not.toHaveBeenCalled();
+  });
+
+  it('publica uma nova versão com os steps do rascunho alterado', async () => {
+    const draft = [message('a', { config: { message: 'Olá' } }), message('b')];
+    (flowStepService.getDraftSteps as jest.Mock).mockResolvedValue(draft);
+    const res = response();
+
+    await workflowsController.publishFlow(request({}, { notes: 'Nova saudação' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(flowVersionService.publish).toHaveBeenCalledWith('flow-1', draft, { notes: 'Nova saudação', userId: 'user-1' });
+  });
+
+  it('publica um rascunho em que os steps só mudaram de ordem', async () => {
+    const draft = [message('b'), message('a')];
+    (flowStepService.getDraftSteps as jest.Mock).mockResolvedValue(draft);
+    const res = response();
+
+    await workflowsController.publishFlow(request(), res);
+
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(flowVersionService.publish).toHaveBeenCalledWith('flow-1', draft, { notes: undefined, userId: 'user-1' });
+  });
+
+  it('recusa rascunhos com o grafo inválido', async () => {
+    (flowStepService.getDraftSteps as jest.Mock).mockResolvedValue([message('a', { next: 'fim' })]);
+    const res = response();
+
+    await workflowsController.publishFlow(request(), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({
+      error: 'Fluxo inválido',
+      details: ['Step "a": aresta "next" aponta para step inexistente "fim"']
+    });
+  });
+});
+
+describe('WorkflowsController.diffFlowVersions', () => {
+  it('compara a versão publicada com o rascunho por padrão', async () => {
+    (flowStepService.getDraftSteps as jest.Mock).mockResolvedValue([message('a'), message('c')]);
+    const res = response();
+
+    await workflowsController.diffFlowVersions(request(), res);
+
+    expect(res.json).toHaveBeenCalledWith({
+      from: 'published',
+      to: 'draft',
+      diff: expect.objectContaining({ added: ['c'], removed: ['b'], changed: [] })
+    });
+  });
+
+  it('retorna 404 para versões inexistentes', async () => {
+    (prisma.flowVersion.findUnique as jest.Mock).mockResolvedValue(null);
+    const res = response();
+
+    await workflowsController.diffFlowVersions(request({}, {}, { from: '7' }), res);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+  });
+});
+
+describe('WorkflowsController.rollbackFlow', () => {
+  it('publica os steps da versão antiga como nova versão e restaura o rascunho', async () => {
+    (prisma.flowVersion.findFirst as jest.Mock).mockResolvedValue({ id: 'version-1', version: 1 });
+    const res = response();
+
+    await workflowsController.rollbackFlow(request({}, { version: 1 }), res);
+
+    expect(flowStepService.getVersionSteps).toHaveBeenCalledWith('version-1');
+    expect(flowVersionService.publish).toHaveBeenCalledWith('flow-1', publishedSteps, {
+      notes: 'Rollback para a versão 1',
+      userId: 'user-1'
+    });
+    expect(flowStepService.replaceDraft).toHaveBeenCalledWith('flow-1', publishedSteps);
+    expect(res.status).toHaveBeenCalledWith(201);
+  });
+
+  it('exige a versão e retorna 404 quando ela não existe', async () => {
+    const missing = response();
+    await workflowsController.rollbackFlow(request(), missing);
+    expect(missing.status).toHaveBeenCalledWith(400);
+
+    (prisma.flowVersion.findFirst as jest.Mock).mockResolvedValue(null);
+    const notFound = response();
+    await workflowsController.rollbackFlow(request({}, { version: 9 }), notFound);
+    expect(notFound.status).toHaveBeenCalledWith(404);
+    expect(flowVersionService.publish).not.toHaveBeenCalled();
+  });
+});
@@ -2,7 +2,34 @@ import { Response } from 'express';
 import { AuthRequest } from '../types';
 import prisma from '../utils/database';
 import logger from '../utils/logger';
-import { WorkflowEngine } from '../services/workflowEngine';
+import workflowScheduler from '../services/workflowScheduler';
+import workflowEngine from '../services/workflowEngine';
+import { validateFlowGraph } from '../services/workflowGraph';
+import { validateTriggers } from '../services/flowTriggers';
+import flowVersionService, { diffFlowSteps, hasStepChanges } from '../services/flowVersions';
+import { validateSubFlowReferences } from '../services/subFlows';
+import { normalizeEventTriggers, validateEventTriggers } from '../services/flowEvents';
+import flowScheduleService from '../services/flowSchedules';
+import flowBundleService, { validateFlowBundle } from '../services/flowBundles';
+import flowStepService from '../services/flowSteps';
+import splitTestService from '../services/splitTests';
+
+const PUBLISHED_VERSION_SELECT = { id: true, version: true, publishedAt: true };
+
+/**
+ * Steps referenciados em um diff: "draft", "published" ou o número de uma versão.
+ */
+async function findStepsByRef(flow: { id: string; publishedVersionId: string | null }, ref: string) {
+  if (ref === 'draft') {
+    return flowStepService.getDraftSteps(flow.id);
+  }
+
+  const version = ref === 'published'
+    ? flow.publishedVersionId && await prisma.flowVersion.findUnique({ where: { id: flow.publishedVersionId } })
+    : await prisma.flowVersion.findUnique({ where: { flowId_version: { flowId: flow.id, version: Number(ref) || 0 } } });
+
+  return version ? flowStepService.getVersionSteps(version.id) : null;
+}
 
 export class WorkflowsController {
   async getFlows(req: AuthRequest, res: Response) {
@@ -29,6 +56,9 @@ export class WorkflowsController {
             bot: {
               select: { id: true, name: true }
             },
+            publishedVersion: {
+              select: PUBLISHED_VERSION_SELECT
+            },
             _count: {
               select: { executions: true }
             }
@@ -74,6 +104,9 @@ export class WorkflowsController {
           bot: {
             select: { id: true, name: true }
           },
+          publishedVersion: {
+            select: PUBLISHED_VERSION_SELECT
+          },
           executions: {
             orderBy: { createdAt: 'desc' },
             take: 10
@@ -87,7 +120,7 @@ export class WorkflowsController {
 
       logger.info('Flow obtido', { flowId: id, companyId });
 
-      res.json({ flow });
+      res.json({ flow: { ...flow, steps: await flowStepService.getDraftSteps(id) } });
     } catch (error: any) {
       logger.error('Erro ao obter flow', { error: error.message });
       res.status(500).json({ error: 'Erro interno do servidor' });
@@ -96,34 +129,64 @@ export class WorkflowsController {
 
   async createFlow(req: AuthRequest, res: Response) {
     try {
-      const { name, description, triggers, steps, category, botId, priority = 0 } = req.body;
+      const { name, description, triggers, eventTriggers = [], steps, category, botId, priority = 0, publish = true } = req.body;
       const companyId = req.user!.companyId;
 
       if (!name || !triggers || !steps) {
         return res.status(400).json({ error: 'Nome, triggers e steps são obrigatórios' });
       }
 
-      const flow = await prisma.flow.create({
-        data: {
-          name,
-          description,
-          triggers,
-          steps,
-          category,
-          priority,
-          companyId,
-          botId
-        },
+      const graphErrors = [...validateTriggers(triggers), ...validateEventTriggers(eventTriggers), ...validateFlowGraph(steps)];
+      if (graphErrors.length === 0) {
+        graphErrors.push(...await validateSubFlowReferences(companyId, null, steps));
+      }
+      if (graphErrors.length > 0) {
+        return res.status(400).json({ error: 'Fluxo inválido', details: graphErrors });
+      }
+
+      const flow = await prisma.$transaction(async (tx) => {
+        const created = await tx.flow.create({
+          data: {
+            name,
+            description,
+            triggers,
+            eventTriggers: normalizeEventTriggers(eventTriggers) as any,
+            category,
+            priority,
+            companyId,
+            botId
+          }
+        });
+
+        await flowStepService.replaceDraft(created.id, steps, tx);
+
+        return created;
+      });
+
+      // Por padrão a primeira versão já é publicada; publish: false cria apenas o rascunho
+      if (publish) {
+        await flowVersionService.publish(flow.id, steps, { notes: 'Versão inicial', userId: req.user!.id });
+      }
+
+      await flowScheduleService.sync(flow.id);
+
+      logger.info('Flow criado', { flowId: flow.id, companyId, published: !!publish });
+
+      const createdFlow = await prisma.flow.findUnique({
+        where: { id: flow.id },
         include: {
           bot: {
             select: { id: true, name: true }
+          },
+          publishedVersion: {
+            select: PUBLISHED_VERSION_SELECT
           }
         }
       });
 
-      logger.info('Flow criado', { flowId: flow.id, companyId });
-
-      res.status(201).json({ flow });
+      res.status(201).json({
+        flow: { ...createdFlow, steps: await flowStepService.getDraftSteps(flow.id) }
+      });
     } catch (error: any) {
       logger.error('Erro ao criar flow', { error: error.message });
       res.status(500).json({ error: 'Erro interno do servidor' });
@@ -133,7 +196,7 @@ export class WorkflowsController {
   async updateFlow(req: AuthRequest, res: Response) {
     try {
       const { id } = req.params;
-      const { name, description, triggers, steps, category, isActive, botId, priority } = req.body;
+      const { name, description, triggers, eventTriggers, steps, category, isActive, botId, priority } = req.body;
       const companyId = req.user!.companyId;
 
       const flow = await prisma.flow.findFirst({
@@ -144,13 +207,27 @@ export class WorkflowsController {
         return res.status(404).json({ error: 'Flow não encontrado' });
       }
 
+      if (triggers !== undefined || eventTriggers !== undefined || steps !== undefined) {
+        const graphErrors = [
+          ...(triggers !== undefined ? validateTriggers(triggers) : []),
+          ...(eventTriggers !== undefined ? validateEventTriggers(eventTriggers) : []),
+          ...(steps !== undefined ? validateFlowGraph(steps) : [])
+        ];
+        if (graphErrors.length === 0 && steps !== undefined) {
+          graphErrors.push(...await validateSubFlowReferences(companyId, id, steps));
+        }
+        if (graphErrors.length > 0) {
+          return res.status(400).json({ error: 'Fluxo inválido', details: graphErrors });
+        }
+      }
+
       const updatedFlow = await prisma.flow.update({
         where: { id },
         data: {
           name,
           description,
           triggers,
-          steps,
+          eventTriggers: eventTriggers !== undefined ? normalizeEventTriggers(eventTriggers) as any : undefined,
           category,
           isActive,
           botId,
@@ -159,13 +236,23 @@ export class WorkflowsController {
         include: {
           bot: {
             select: { id: true, name: true }
+          },
+          publishedVersion: {
+            select: PUBLISHED_VERSION_SELECT
           }
         }
       });
 
+      // Enviar "steps" substitui o rascunho inteiro; para editar um step use as rotas /:id/steps
+      if (steps !== undefined) {
+        await flowStepService.replaceDraft(id, steps);
+      }
+
+      await flowScheduleService.sync(id);
+
       logger.info('Flow atualizado', { flowId: id, companyId });
 
-      res.json({ flow: updatedFlow });
+      res.json({ flow: { ...updatedFlow, steps: await flowStepService.getDraftSteps(id) } });
     } catch (error: any) {
       logger.error('Erro ao atualizar flow', { error: error.message });
       res.status(500).json({ error: 'Erro interno do servidor' });
@@ -189,6 +276,8 @@ export class WorkflowsController {
         where: { id }
       });
 
+      await flowScheduleService.sync(id);
+
       logger.info('Flow deletado', { flowId: id, companyId });
 
       res.json({ message: 'Flow deletado com sucesso' });
@@ -198,6 +287,294 @@ export class WorkflowsController {
     }
   }
 
+  async publishFlow(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const { notes } = req.body;
+      const companyId = req.user!.companyId;
+
+      const flow = await prisma.flow.findFirst({
+        where: { id, companyId }
+      });
+
+      if (!flow) {
+        return res.status(404).json({ error: 'Flow não encontrado' });
+      }
+
+      const draftSteps = await flowStepService.getDraftSteps(id);
+
+      const graphErrors = validateFlowGraph(draftSteps);
+      if (graphErrors.length === 0) {
+        graphErrors.push(...await validateSubFlowReferences(companyId, id, draftSteps));
+      }
+      if (graphErrors.length > 0) {
+        return res.status(400).json({ error: 'Fluxo inválido', details: graphErrors });
+      }
+
+      const publishedSteps = await findStepsByRef(flow, 'published');
+      if (publishedSteps && !hasStepChanges(diffFlowSteps(publishedSteps, draftSteps))) {
+        return res.status(400).json({ error: 'Não há alterações no rascunho para publicar' });
+      }
+
+      const version = await flowVersionService.publish(id, draftSteps, { notes, userId: req.user!.id });
+
+      // Fluxos publicados pela primeira vez passam a ter seus agendamentos ativos
+      await flowScheduleService.sync(id);
+
+      res.status(201).json({ version, message: `Versão ${version.version} publicada com sucesso` });
+    } catch (error: any) {
+      logger.error('Erro ao publicar flow', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async getFlowVersions(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const companyId = req.user!.companyId;
+
+      const flow = await prisma.flow.findFirst({
+        where: { id, companyId }
+      });
+
+      if (!flow) {
+        return res.status(404).json({ error: 'Flow não encontrado' });
+      }
+
+      const versions = await prisma.flowVersion.findMany({
+        where: { flowId: id },
+        select: {
+          id: true,
+          version: true,
+          notes: true,
+          publishedBy: true,
+          publishedAt: true,
+          _count: {
+            select: { executions: true }
+          }
+        },
+        orderBy: { version: 'desc' }
+      });
+
+      res.json({
+        versions: versions.map(version => ({
+          ...version,
+          isPublished: version.id === flow.publishedVersionId
+        }))
+      });
+    } catch (error: any) {
+      logger.error('Erro ao listar versões do flow', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async getFlowVersion(req: AuthRequest, res: Response) {
+    try {
+      const { id, version } = req.params;
+      const companyId = req.user!.companyId;
+
+      const flowVersion = await prisma.flowVersion.findFirst({
+        where: {
+          flowId: id,
+          version: Number(version) || 0,
+          flow: { companyId }
+        }
+      });
+
+      if (!flowVersion) {
+        return res.status(404).json({ error: 'Versão não encontrada' });
+      }
+
+      res.json({ version: { ...flowVersion, steps: await flowStepService.getVersionSteps(flowVersion.id) } });
+    } catch (error: any) {
+      logger.error('Erro ao obter versão do flow', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async diffFlowVersions(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const { from = 'published', to = 'draft' } = req.query;
+      const companyId = req.user!.companyId;
+
+      const flow = await prisma.flow.findFirst({
+        where: { id, companyId }
+      });
+
+      if (!flow) {
+        return res.status(404).json({ error: 'Flow não encontrado' });
+      }
+
+      const [fromSteps, toSteps] = await Promise.all([
+        findStepsByRef(flow, String(from)),
+        findStepsByRef(flow, String(to))
+      ]);
+
+      if (!fromSteps || !toSteps) {
+        return res.status(404).json({ error: 'Versão não encontrada' });
+      }
+
+      res.json({ from, to, diff: diffFlowSteps(fromSteps, toSteps) });
+    } catch (error: any) {
+      logger.error('Erro ao comparar versões do flow', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async rollbackFlow(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const { version } = req.body;
+      const companyId = req.user!.companyId;
+
+      if (!version) {
+        return res.status(400).json({ error: 'Versão é obrigatória' });
+      }
+
+      const target = await prisma.flowVersion.findFirst({
+        where: {
+          flowId: id,
+          version: Number(version) || 0,
+          flow: { companyId }
+        }
+      });
+
+      if (!target) {
+        return res.status(404).json({ error: 'Versão não encontrada' });
+      }
+
+      const targetSteps = await flowStepService.getVersionSteps(target.id);
+
+      // Os sub-fluxos chamados pela versão antiga podem ter mudado desde então
+      const subFlowErrors = await validateSubFlowReferences(companyId, id, targetSteps);
+      if (subFlowErrors.length > 0) {
+        return res.status(400).json({ error: 'Fluxo inválido', details: subFlowErrors });
+      }
+
+      // Versões são imutáveis: o rollback publica uma nova versão com os steps antigos
+      const published = await flowVersionService.publish(id, targetSteps, {
+        notes: `Rollback para a versão ${target.version}`,
+        userId: req.user!.id
+      });
+
+      await flowStepService.replaceDraft(id, targetSteps);
+
+      logger.info('Rollback de flow realizado', { flowId: id, companyId, fromVersion: target.version, newVersion: published.version });
+
+      res.status(201).json({ version: published, message: `Versão ${target.version} restaurada como versão ${published.version}` });
+    } catch (error: any) {
+      logger.error('Erro ao fazer rollback do flow', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async exportFlow(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const companyId = req.user!.companyId;
+
+      const bundle = await flowBundleService.export(companyId, id);
+
+      if (!bundle) {
+        return res.status(404).json({ error: 'Flow não encontrado' });
+      }
+
+      res.json({ bundle });
+    } catch (error: any) {
+      logger.error('Erro ao exportar flow', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async importFlow(req: AuthRequest, res: Response) {
+    try {
+      const { bundle, mappings = {}, publish = false, dryRun = false } = req.body;
+      const companyId = req.user!.companyId;
+
+      const bundleErrors = validateFlowBundle(bundle);
+      if (bundleErrors.length > 0) {
+        return res.status(400).json({ error: 'Pacote inválido', details: bundleErrors });
+      }
+
+      if (!mappings || typeof mappings !== 'object' || Array.isArray(mappings)) {
+        return res.status(400).json({ error: 'mappings deve ser um objeto' });
+      }
+
+      // Fluxos com dependências ausentes são importados apenas como rascunho
+      const result = await flowBundleService.import(companyId, bundle, {
+        mappings,
+        publish: !!publish,
+        dryRun: !!dryRun,
+        userId: req.user!.id
+      });
+
+      res.status(dryRun ? 200 : 201).json(result);
+    } catch (error: any) {
+      logger.error('Erro ao importar flow', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async simulateFlow(req: AuthRequest, res: Response) {
+    try {
+      const { flowId, version = 'draft', steps, data = {}, replies = [], mocks = {} } = req.body;
+      const companyId = req.user!.companyId;
+
+      if (!flowId && !steps) {
+        return res.status(400).json({ error: 'Informe flowId ou steps' });
+      }
+
+      if (!Array.isArray(replies)) {
+        return res.status(400).json({ error: 'replies deve ser um array' });
+      }
+
+      let flowSteps = steps;
+
+      if (!flowSteps) {
+        const flow = await prisma.flow.findFirst({
+          where: { id: flowId, companyId }
+        });
+
+        if (!flow) {
+          return res.status(404).json({ error: 'Flow não encontrado' });
+        }
+
+        flowSteps = await findStepsByRef(flow, String(version));
+
+        if (!flowSteps) {
+          return res.status(404).json({ error: 'Versão não encontrada' });
+        }
+      }
+
+      const graphErrors = validateFlowGraph(flowSteps);
+      if (graphErrors.length > 0) {
+        return res.status(400).json({ error: 'Fluxo inválido', details: graphErrors });
+      }
+
+      const simulation = await workflowEngine.simulate({
+        steps: flowSteps,
+        flowId,
+        companyId,
+        data,
+        replies,
+        mocks
+      });
+
+      logger.info('Simulação de flow executada', {
+        flowId,
+        companyId,
+        status: simulation.status,
+        steps: simulation.trace.length
+      });
+
+      res.json({ simulation });
+    } catch (error: any) {
+      logger.error('Erro ao simular flow', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
   async executeFlow(req: AuthRequest, res: Response) {
     try {
       const { flowId, conversationId, data = {} } = req.body;
@@ -216,6 +593,10 @@ export class WorkflowsController {
         return res.status(404).json({ error: 'Flow não encontrado' });
       }
 
+      if (!flow.publishedVersionId) {
+        return res.status(400).json({ error: 'Flow não possui versão publicada' });
+      }
+
       // Verificar se a conversa existe
       const conversation = await prisma.conversation.findFirst({
         where: { id: conversationId, companyId }
@@ -229,6 +610,7 @@ export class WorkflowsController {
       const execution = await prisma.workflowExecution.create({
         data: {
           flowId,
+          flowVersionId: flow.publishedVersionId,
           conversationId,
           companyId,
           data,
@@ -236,19 +618,20 @@ export class WorkflowsController {
         }
       });
 
-      // Executar o workflow
-      const workflowEngine = new WorkflowEngine();
-      const result = await workflowEngine.execute(execution.id);
+      // Enfileirar o workflow; a execução acontece no agendador
+      await workflowScheduler.schedule(execution.id);
 
-      logger.info('Workflow executado', { 
+      logger.info('Workflow enfileirado', { 
         executionId: execution.id, 
         flowId, 
-        conversationId,
-        status: result.status 
+        conversationId
       });
 
-      res.json({ 
-        execution: result,
+      res.status(202).json({ 
+        execution: {
+          id: execution.id,
+          status: execution.status
+        },
         message: 'Workflow iniciado com sucesso'
       });
     } catch (error: any) {
@@ -325,10 +708,20 @@ export class WorkflowsController {
         },
         include: {
           flow: {
-            select: { id: true, name: true, steps: true }
+            select: { id: true, name: true }
+          },
+          flowVersion: {
+            select: { id: true, version: true }
           },
           conversation: {
                             select: { id: true, customer: { select: { name: true } }, status: true }
+          },
+          stepRuns: {
+            orderBy: [{ position: 'asc' }, { startedAt: 'asc' }]
+          },
+          childExecutions: {
+            select: { id: true, flowId: true, parentStepId: true, status: true, startedAt: true, endedAt: true },
+            orderBy: { startedAt: 'asc' }
           }
         }
       });
@@ -339,15 +732,142 @@ export class WorkflowsController {
 
       logger.info('Execução obtida', { executionId: id, companyId });
 
-      res.json({ execution });
+      // Steps que a execução percorre: os da versão fixada ou, sem versão, o rascunho
+      const steps = execution.flowVersion
+        ? await flowStepService.getVersionSteps(execution.flowVersion.id)
+        : await flowStepService.getDraftSteps(execution.flowId);
+
+      res.json({ execution: { ...execution, steps } });
     } catch (error: any) {
       logger.error('Erro ao obter execução', { error: error.message });
       res.status(500).json({ error: 'Erro interno do servidor' });
     }
   }
 
+  async pauseExecution(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const companyId = req.user!.companyId;
+
+      const execution = await prisma.workflowExecution.findFirst({
+        where: { id, companyId }
+      });
+
+      if (!execution) {
+        return res.status(404).json({ error: 'Execução não encontrada' });
+      }
+
+      if (!(await workflowEngine.pauseExecution(id))) {
+        return res.status(400).json({ error: 'Execução não pode ser pausada no status atual' });
+      }
+
+      logger.info('Execução pausada', { executionId: id, companyId, userId: req.user!.id });
+
+      res.json({
+        execution: await prisma.workflowExecution.findUnique({ where: { id } }),
+        message: 'Execução pausada com sucesso'
+      });
+    } catch (error: any) {
+      logger.error('Erro ao pausar execução', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async resumeExecution(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const companyId = req.user!.companyId;
+
+      const execution = await prisma.workflowExecution.findFirst({
+        where: { id, companyId }
+      });
+
+      if (!execution) {
+        return res.status(404).json({ error: 'Execução não encontrada' });
+      }
+
+      if (!(await workflowEngine.resumeExecution(id))) {
+        return res.status(400).json({ error: 'Apenas execuções pausadas manualmente podem ser retomadas' });
+      }
+
+      logger.info('Execução retomada', { executionId: id, companyId, userId: req.user!.id });
+
+      res.json({
+        execution: await prisma.workflowExecution.findUnique({ where: { id } }),
+        message: 'Execução retomada com sucesso'
+      });
+    } catch (error: any) {
+      logger.error('Erro ao retomar execução', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async cancelExecution(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const companyId = req.user!.companyId;
+
+      const execution = await prisma.workflowExecution.findFirst({
+        where: { id, companyId }
+      });
+
+      if (!execution) {
+        return res.status(404).json({ error: 'Execução não encontrada' });
+      }
+
+      if (!(await workflowEngine.cancelExecution(id))) {
+        return res.status(400).json({ error: 'Execução não pode ser cancelada no status atual' });
+      }
+
+      logger.info('Execução cancelada', { executionId: id, companyId, userId: req.user!.id });
+
+      res.json({
+        execution: await prisma.workflowExecution.findUnique({ where: { id } }),
+        message: 'Execução cancelada com sucesso'
+      });
+    } catch (error: any) {
+      logger.error('Erro ao cancelar execução', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
+  async retryExecution(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const { data } = req.body;
+      const companyId = req.user!.companyId;
+
+      if (data !== undefined && (typeof data !== 'object' || data === null || Array.isArray(data))) {
+        return res.status(400).json({ error: 'data deve ser um objeto' });
+      }
+
+      const execution = await prisma.workflowExecution.findFirst({
+        where: { id, companyId }
+      });
+
+      if (!execution) {
+        return res.status(404).json({ error: 'Execução não encontrada' });
+      }
+
+      if (!(await workflowEngine.retryExecution(id, data))) {
+        return res.status(400).json({ error: 'Apenas execuções com falha podem ser reexecutadas' });
+      }
+
+      logger.info('Execução reexecutada', { executionId: id, companyId, userId: req.user!.id });
+
+      res.status(202).json({
+        execution: await prisma.workflowExecution.findUnique({ where: { id } }),
+        message: 'Execução reenviada com sucesso'
+      });
+    } catch (error: any) {
+      logger.error('Erro ao reexecutar execução', { error: error.message });
+      res.status(500).json({ error: 'Erro interno do servidor' });
+    }
+  }
+
   async getFlowStats(req: AuthRequest, res: Response) {
     try {
+      const { flowId } = req.query;
       const companyId = req.user!.companyId;
 
       const [
@@ -370,7 +890,9 @@ export class WorkflowsController {
         totalExecutions,
         completedExecutions,
         failedExecutions,
-        successRate: totalExecutions > 0 ? (completedExecutions / totalExecutions) * 100 : 0
+        successRate: totalExecutions > 0 ? (completedExecutions / totalExecutions) * 100 : 0,
+        // Testes A/B: conclusão e conversão por ramo dos steps SPLIT publicados
+        splits: await splitTestService.getStats(companyId, flowId ? String(flowId) : undefined)
       };
 
       logger.info('Estatísticas de workflows obtidas', { companyId });
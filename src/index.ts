@@ -22,10 +22,16 @@ import campaignsRoutes from './routes/campaigns';
 import aiAssistantRoutes from './routes/aiAssistant';
 import kanbanRoutes from './routes/kanban';
 import adTrackingRoutes from './routes/adTracking';
+import agentsRoutes from './routes/agents';
+import knowledgeBaseRoutes from './routes/knowledgeBase';
 
 // Import middleware
 import { generalLimiter } from './middleware/rateLimiter';
+import { authenticateSocket } from './middleware/auth';
 import logger from './utils/logger';
+import workflowEngine from './services/workflowEngine';
+import workflowScheduler from './services/workflowScheduler';
+import flowScheduleService from './services/flowSchedules';
 
 const app = express();
 const server = createServer(app);
@@ -85,8 +91,12 @@ app.use('/api/campaigns', campaignsRoutes);
 app.use('/api/ai-assistants', aiAssistantRoutes);
 app.use('/api/kanban', kanbanRoutes);
 app.use('/api/ad-tracking', adTrackingRoutes);
+app.use('/api/agents', agentsRoutes);
+app.use('/api/knowledge-base', knowledgeBaseRoutes);
 
 // WebSocket handling
+io.use(authenticateSocket);
+
 io.on('connection', (socket) => {
   logger.info('Cliente conectado via WebSocket', { socketId: socket.id });
 
@@ -95,6 +105,18 @@ io.on('connection', (socket) => {
     logger.info('Cliente entrou na sala da empresa', { socketId: socket.id, companyId });
   });
 
+  // Sala pessoal do atendente: recebe as conversas transferidas e indica presença online
+  socket.on('join-user', (userId: string) => {
+    if (!socket.data.userId || socket.data.userId !== userId) {
+      logger.warn('Socket tentou entrar na sala de outro usuário', { socketId: socket.id, userId });
+      socket.emit('join-user-error', { error: 'Acesso negado' });
+      return;
+    }
+
+    socket.join(`user-${userId}`);
+    logger.info('Cliente entrou na sala do usuário', { socketId: socket.id, userId });
+  });
+
   socket.on('join-conversation', (conversationId: string) => {
     socket.join(`conversation-${conversationId}`);
     logger.info('Cliente entrou na conversa', { socketId: socket.id, conversationId });
@@ -129,11 +151,21 @@ app.use('*', (req, res) => {
 server.listen(PORT, () => {
   logger.info(`Servidor rodando na porta ${PORT}`);
   logger.info(`Ambiente: ${process.env.NODE_ENV || 'development'}`);
+
+  // Agendador de workflows (DELAY e execuções enfileiradas)
+  workflowScheduler.start(executionId => workflowEngine.resume(executionId).then(() => undefined))
+    .catch(error => logger.error('Erro ao iniciar agendador de workflows', { error: error.message }));
+
+  // Gatilhos agendados (cron) dos fluxos
+  flowScheduleService.start()
+    .catch(error => logger.error('Erro ao iniciar gatilhos agendados de workflow', { error: error.message }));
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('Recebido SIGTERM, encerrando servidor...');
+  workflowScheduler.close().catch(() => undefined);
+  flowScheduleService.stop();
   server.close(() => {
     logger.info('Servidor encerrado');
     process.exit(0);
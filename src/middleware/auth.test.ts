@@ -0,0 +1,76 @@
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('../utils/database', () => ({ __esModule: true, default: { user: { findUnique: jest.fn() } } }));
+jest.mock('../utils/auth', () => ({ verifyToken: jest.fn() }));
+
+import prisma from '../utils/database';
+import { verifyToken } from '../utils/auth';
+import { authenticateSocket } from './auth';
+
+const findUnique = prisma.user.findUnique as jest.Mock;
+const verify = verifyToken as jest.Mock;
+
+function socket(handshake: { auth?: any; headers?: any }) {
+  return { handshake: { auth: {}, headers: {}, ...handshake }, data: {} as any } as any;
+}
+
+describe('authenticateSocket', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('associa o usuário do token do handshake ao socket', async () => {
+    verify.mockReturnValue({ userId: 'user-1' });
+    findUnique.mockResolvedValue({ id: 'user-1', companyId: 'company-1', isActive: true });
+    const s = socket({ auth: { token: 'abc' } });
+    const next = jest.fn();
+
+    await authenticateSocket(s, next);
+
+    expect(verify).toHaveBeenCalledWith('abc');
+    expect(next).toHaveBeenCalledWith();
+    expect(s.data).toEqual({ userId: 'user-1', companyId: 'company-1' });
+  });
+
+  it('aceita o token no header Authorization', async () => {
+    verify.mockReturnValue({ userId: 'user-1' });
+    findUnique.mockResolvedValue({ id: 'user-1', companyId: 'company-1', isActive: true });
+    const s = socket({ headers: { authorization: 'Bearer xyz' } });
+
+    await authenticateSocket(s, jest.fn());
+
+    expect(verify).toHaveBeenCalledWith('xyz');
+    expect(s.data.userId).toBe('user-1');
+  });
+
+  it('mantém a conexão anônima quando não há token', async () => {
+    const s = socket({});
+    const next = jest.fn();
+
+    await authenticateSocket(s, next);
+
+    expect(verify).not.toHaveBeenCalled();
+    expect(next).toHaveBeenCalledWith();
+    expect(s.data.userId).toBeUndefined();
+  });
+
+  it('recusa token inválido', async () => {
+    verify.mockImplementation(() => { throw new Error('jwt malformed'); });
+    const s = socket({ auth: { token: 'ruim' } });
+    const next = jest.fn();
+
+    await authenticateSocket(s, next);
+
+    expect(next.mock.calls[0][0]).toBeInstanceOf(Error);
+    expect(s.data.userId).toBeUndefined();
+  });
+
+  it('recusa usuário inativo', async () => {
+    verify.mockReturnValue({ userId: 'user-1' });
+    findUnique.mockResolvedValue({ id: 'user-1', companyId: 'company-1', isActive: false });
+    const s = socket({ auth: { token: 'abc' } });
+    const next = jest.fn();
+
+    await authenticateSocket(s, next);
+
+    expect(next.mock.calls[0][0].message).toBe('Usuário não encontrado ou inativo');
+    expect(s.data.userId).toBeUndefined();
+  });
+});
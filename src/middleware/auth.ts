@@ -1,4 +1,5 @@
 import { Response, NextFunction } from 'express';
+import { Socket } from 'socket.io';
 import { verifyToken } from '../utils/auth';
 import { AuthRequest } from '../types';
 import prisma from '../utils/database';
@@ -31,6 +32,34 @@ export const authenticate = async (req: AuthRequest, res: Response, next: NextFu
   }
 };
 
+// Autentica o socket pelo token enviado no handshake (auth.token ou header Authorization).
+// Sem token a conexão segue anônima e não pode entrar em salas pessoais de usuário.
+export const authenticateSocket = async (socket: Socket, next: (err?: Error) => void) => {
+  const header = socket.handshake.headers.authorization;
+  const token = socket.handshake.auth?.token || header?.replace('Bearer ', '');
+
+  if (!token) {
+    return next();
+  }
+
+  try {
+    const decoded = verifyToken(token);
+
+    const user = await prisma.user.findUnique({ where: { id: decoded.userId } });
+
+    if (!user || !user.isActive) {
+      return next(new Error('Usuário não encontrado ou inativo'));
+    }
+
+    socket.data.userId = user.id;
+    socket.data.companyId = user.companyId;
+    next();
+  } catch (error: any) {
+    logger.error('Erro na autenticação do socket', { error: error.message });
+    next(new Error('Token inválido'));
+  }
+};
+
 export const authorize = (roles: string[]) => {
   return (req: AuthRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
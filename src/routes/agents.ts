@@ -0,0 +1,78 @@
+import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import prisma from '../utils/database';
+import logger from '../utils/logger';
+import { AuthRequest } from '../types';
+import handoffService, { normalizeSkills } from '../services/handoff';
+
+const router = Router();
+
+// Aplicar middleware de autenticação em todas as rotas
+router.use(authenticate);
+
+// Listar atendentes com skills, presença e carga atual
+router.get('/', async (req: AuthRequest, res) => {
+  try {
+    const companyId = req.user!.companyId;
+
+    const users = await prisma.user.findMany({
+      where: { companyId, isActive: true },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        skills: true,
+        lastAssignedAt: true
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    const load = await handoffService.countOpenConversations(companyId, users.map(user => user.id));
+
+    const agents = await Promise.all(users.map(async user => ({
+      ...user,
+      online: await handoffService.isOnline(user.id),
+      openConversations: load.get(user.id) ?? 0
+    })));
+
+    res.json({ agents });
+  } catch (error: any) {
+    logger.error('Erro ao listar atendentes', { error: error.message });
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+// Atualizar skills usadas nas regras de handoff
+router.put('/:id/skills', authorize(['ADMIN', 'MANAGER']), async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const { skills } = req.body;
+    const companyId = req.user!.companyId;
+
+    if (!Array.isArray(skills)) {
+      return res.status(400).json({ error: 'skills deve ser um array' });
+    }
+
+    const user = await prisma.user.findFirst({
+      where: { id, companyId }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'Atendente não encontrado' });
+    }
+
+    const updatedUser = await prisma.user.update({
+      where: { id },
+      data: { skills: normalizeSkills(skills) },
+      select: { id: true, name: true, email: true, role: true, skills: true }
+    });
+
+    res.json({ agent: updatedUser });
+  } catch (error: any) {
+    logger.error('Erro ao atualizar skills do atendente', { error: error.message });
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
+export default router;
@@ -7,21 +7,24 @@ const router = Router();
 // Aplicar middleware de autenticação em todas as rotas
 router.use(authenticate);
 
+// Rotas fixas antes de /:id, que as capturaria
+router.post('/validate-provider', aiAssistantController.validateProvider);
+router.get('/available-models', aiAssistantController.getAvailableModels);
+router.get('/usage-info', aiAssistantController.getUsageInfo);
+router.get('/usage', aiAssistantController.getUsage);
+
 // Rotas para assistentes IA
 router.get('/', aiAssistantController.getAssistants);
 router.get('/:id', aiAssistantController.getAssistant);
+router.get('/:id/usage', aiAssistantController.getAssistantUsage);
 router.post('/', aiAssistantController.createAssistant);
 router.put('/:id', aiAssistantController.updateAssistant);
 router.delete('/:id', aiAssistantController.deleteAssistant);
 
 // Rotas para chat e treinamento
 router.post('/:assistantId/chat', aiAssistantController.chatWithAssistant);
+router.post('/streams/:streamId/cancel', aiAssistantController.cancelStream);
 router.post('/:assistantId/train', aiAssistantController.trainAssistant);
 router.get('/:assistantId/conversations', aiAssistantController.getConversationHistory);
 
-// Novas rotas para múltiplos provedores
-router.post('/validate-provider', aiAssistantController.validateProvider);
-router.get('/available-models', aiAssistantController.getAvailableModels);
-router.get('/usage-info', aiAssistantController.getUsageInfo);
-
 export default router; 
\ No newline at end of file
@@ -3,6 +3,7 @@ import { authenticate } from '../middleware/auth';
 import prisma from '../utils/database';
 import logger from '../utils/logger';
 import { AuthRequest } from '../types';
+import flowEventService from '../services/flowEvents';
 
 const router = Router();
 
@@ -158,6 +159,15 @@ router.patch('/:id/status', async (req: AuthRequest, res) => {
       data: { status }
     });
 
+    if (status === 'CLOSED' && conversation.status !== 'CLOSED') {
+      await flowEventService.emit({
+        type: 'conversation.closed',
+        companyId,
+        conversationId: id,
+        payload: { conversationId: id }
+      });
+    }
+
     res.json({ conversation: updatedConversation });
   } catch (error: any) {
     logger.error('Erro ao atualizar status da conversa', { error: error.message });
@@ -165,4 +175,40 @@ router.patch('/:id/status', async (req: AuthRequest, res) => {
   }
 });
 
+// Pausar ou retomar as respostas automáticas (bot e workflows) da conversa
+router.patch('/:id/bot', async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+    const { paused } = req.body;
+    const companyId = req.user!.companyId;
+
+    if (typeof paused !== 'boolean') {
+      return res.status(400).json({ error: 'paused deve ser booleano' });
+    }
+
+    const conversation = await prisma.conversation.findFirst({
+      where: { 
+        id,
+        companyId 
+      }
+    });
+
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversa não encontrada' });
+    }
+
+    const updatedConversation = await prisma.conversation.update({
+      where: { id },
+      data: { botPaused: paused }
+    });
+
+    logger.info('Bot da conversa atualizado', { conversationId: id, botPaused: paused });
+
+    res.json({ conversation: updatedConversation });
+  } catch (error: any) {
+    logger.error('Erro ao atualizar bot da conversa', { error: error.message });
+    res.status(500).json({ error: 'Erro interno do servidor' });
+  }
+});
+
 export default router;
\ No newline at end of file
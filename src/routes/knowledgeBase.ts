@@ -0,0 +1,43 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import knowledgeBaseController from '../controllers/knowledgeBase';
+import { authenticate, authorize } from '../middleware/auth';
+import { MAX_IMPORT_FILE_BYTES } from '../services/knowledgeImport';
+
+const router = Router();
+
+// Os arquivos importados ficam só em memória: o conteúdo vira artigos
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMPORT_FILE_BYTES, files: 1 }
+});
+
+// Erros do upload (arquivo grande demais, campo inesperado) são do cliente, não do servidor
+function uploadFile(req: Request, res: Response, next: NextFunction) {
+  upload.single('file')(req, res, (error: any) => {
+    if (error instanceof multer.MulterError) {
+      return res.status(400).json({ error: 'Upload inválido', details: [error.message] });
+    }
+    next(error);
+  });
+}
+
+// Aplicar middleware de autenticação em todas as rotas
+router.use(authenticate);
+
+// Consulta
+router.get('/', knowledgeBaseController.getArticles);
+router.get('/categories', knowledgeBaseController.getCategories);
+router.get('/search', knowledgeBaseController.searchArticles);
+router.get('/:id', knowledgeBaseController.getArticle);
+
+// Gestão dos artigos
+router.post('/', authorize(['ADMIN', 'MANAGER']), knowledgeBaseController.createArticle);
+router.post('/import', authorize(['ADMIN', 'MANAGER']), uploadFile, knowledgeBaseController.importArticles);
+router.put('/:id', authorize(['ADMIN', 'MANAGER']), knowledgeBaseController.updateArticle);
+router.delete('/:id', authorize(['ADMIN', 'MANAGER']), knowledgeBaseController.deleteArticle);
+
+// Indexação dos artigos para a busca das respostas da IA
+router.post('/reindex', authorize(['ADMIN', 'MANAGER']), knowledgeBaseController.reindex);
+
+export default router;
@@ -43,7 +43,7 @@ router.post('/whatsapp/:whatsappNumberId', async (req: Request, res: Response) =
     }
 
     // Processar mensagem recebida
-    await whatsappService.processIncomingMessage(message);
+    const handledByWorkflow = await whatsappService.processIncomingMessage(message);
 
     // Emitir evento em tempo real para o chat
     io.to(`company-${whatsappNumber.companyId}`).emit('whatsapp-message-received', {
@@ -151,7 +151,9 @@ router.post('/whatsapp/:whatsappNumberId', async (req: Request, res: Response) =
       }
     });
 
-    if (bot) {
+    // Workflows que assumiram a mensagem respondem por conta própria, e
+    // conversas transferidas para um atendente humano não recebem resposta do bot
+    if (bot && !handledByWorkflow && !conversation.botPaused) {
       try {
         // Buscar histórico da conversa
         const conversationHistory = await prisma.message.findMany({
@@ -170,7 +172,8 @@ router.post('/whatsapp/:whatsappNumberId', async (req: Request, res: Response) =
         const aiResponse = await openaiService.generateResponse(
           messages,
           'Você é um assistente de atendimento via WhatsApp. Seja amigável e prestativo.',
-          'friendly'
+          'friendly',
+          whatsappNumber.companyId
         );
 
         // Salvar resposta do bot
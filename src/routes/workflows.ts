@@ -1,11 +1,26 @@
 import { Router } from 'express';
 import workflowsController from '../controllers/workflows';
+import flowStepsController from '../controllers/flowSteps';
 import { authenticate } from '../middleware/auth';
 
 const router = Router();
 
 router.use(authenticate);
 
+// Rotas de execução (antes de /:id para não serem capturadas por ela)
+router.post('/execute', workflowsController.executeFlow);
+router.post('/simulate', workflowsController.simulateFlow);
+router.post('/import', workflowsController.importFlow);
+router.get('/executions', workflowsController.getExecutions);
+router.get('/executions/:id', workflowsController.getExecution);
+router.post('/executions/:id/pause', workflowsController.pauseExecution);
+router.post('/executions/:id/resume', workflowsController.resumeExecution);
+router.post('/executions/:id/cancel', workflowsController.cancelExecution);
+router.post('/executions/:id/retry', workflowsController.retryExecution);
+
+// Rotas de estatísticas
+router.get('/stats/overview', workflowsController.getFlowStats);
+
 // Rotas de flows
 router.get('/', workflowsController.getFlows);
 router.get('/:id', workflowsController.getFlow);
@@ -13,12 +28,21 @@ router.post('/', workflowsController.createFlow);
 router.put('/:id', workflowsController.updateFlow);
 router.delete('/:id', workflowsController.deleteFlow);
 
-// Rotas de execução
-router.post('/execute', workflowsController.executeFlow);
-router.get('/executions', workflowsController.getExecutions);
-router.get('/executions/:id', workflowsController.getExecution);
+// Rotas de versões
+router.post('/:id/publish', workflowsController.publishFlow);
+router.get('/:id/versions', workflowsController.getFlowVersions);
+router.get('/:id/versions/diff', workflowsController.diffFlowVersions);
+router.get('/:id/versions/:version', workflowsController.getFlowVersion);
+router.post('/:id/rollback', workflowsController.rollbackFlow);
 
-// Rotas de estatísticas
-router.get('/stats/overview', workflowsController.getFlowStats);
+// Rotas de steps do rascunho (/order antes de /:stepId)
+router.get('/:id/steps', flowStepsController.getSteps);
+router.post('/:id/steps', flowStepsController.createStep);
+router.put('/:id/steps/order', flowStepsController.reorderSteps);
+router.put('/:id/steps/:stepId', flowStepsController.updateStep);
+router.delete('/:id/steps/:stepId', flowStepsController.deleteStep);
+
+// Exportação como pacote JSON
+router.get('/:id/export', workflowsController.exportFlow);
 
 export default router; 
\ No newline at end of file
@@ -0,0 +1,36 @@
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('../utils/database', () => ({ __esModule: true, default: {} }));
+jest.mock('./knowledgeIndex', () => ({ __esModule: true, default: { search: jest.fn(async () => []) } }));
+jest.mock('./llmGateway', () => ({
+  __esModule: true,
+  default: { complete: jest.fn(), getDefaultTarget: jest.fn(() => ({ provider: 'OPENAI', model: 'gpt-4o-mini' })) }
+}));
+
+import llmGateway from './llmGateway';
+import aiService from './aiService';
+import { QUOTA_EXCEEDED_CODE } from './aiUsage';
+
+describe('AIService.generateResponse', () => {
+  const complete = llmGateway.complete as jest.Mock;
+  const assistant = { provider: 'OPENAI', model: 'gpt-4o-mini', companyId: 'company-1' } as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('troca falhas do provedor pela resposta padrão com escalonamento', async () => {
+    complete.mockRejectedValue(new Error('timeout'));
+
+    await expect(aiService.generateResponse([{ role: 'user', content: 'Oi' }], 'Prompt', undefined, assistant))
+      .resolves.toMatchObject({ intent: 'fallback', escalationNeeded: true });
+  });
+
+  it('lança o erro do limite mensal do plano para quem chama responder 429', async () => {
+    const quotaError: any = new Error('Limite mensal de uso de IA do plano STARTER atingido');
+    quotaError.code = QUOTA_EXCEEDED_CODE;
+    complete.mockRejectedValue(quotaError);
+
+    await expect(aiService.generateResponse([{ role: 'user', content: 'Oi' }], 'Prompt', undefined, assistant))
+      .rejects.toMatchObject({ code: QUOTA_EXCEEDED_CODE });
+  });
+});
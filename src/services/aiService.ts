@@ -1,6 +1,9 @@
-import axios from 'axios';
+import { AIAssistant } from '@prisma/client';
 import logger from '../utils/logger';
 import prisma from '../utils/database';
+import llmGateway, { LLMRequest, LLMResult, LLMStreamOptions, LLMTarget, LLMUsage } from './llmGateway';
+import knowledgeIndexService, { KnowledgeMatch } from './knowledgeIndex';
+import { isQuotaExceededError } from './aiUsage';
 
 export interface AIMessage {
   role: 'user' | 'assistant' | 'system';
@@ -15,6 +18,38 @@ export interface AIResponse {
   suggestedActions?: string[];
   sentiment?: 'positive' | 'negative' | 'neutral';
   escalationNeeded?: boolean;
+  provider?: string;
+  model?: string;
+  usage?: LLMUsage | null;
+  // Trechos da base de conhecimento incluídos no prompt
+  sources?: KnowledgeSource[];
+}
+
+export interface KnowledgeSource {
+  // Número usado na citação ([n]) dentro da resposta
+  index: number;
+  articleId: string;
+  title: string;
+  score: number;
+  cited: boolean;
+}
+
+// Assistente usado na geração; a empresa dele delimita a base de conhecimento consultada
+export type AssistantTarget = LLMTarget & { companyId?: string };
+
+export interface CompletionOptions {
+  // Assistente (ou provedor/modelo/chave) usado na chamada (padrão: AI_PROVIDER e AI_MODEL)
+  target?: LLMTarget;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+// Prompt e parâmetros de uma geração, compartilhados pelas versões com e sem stream
+interface PreparedGeneration {
+  target: LLMTarget;
+  request: LLMRequest;
+  knowledge: KnowledgeMatch[];
+  context?: ConversationContext;
 }
 
 export interface ConversationContext {
@@ -29,58 +64,31 @@ export interface ConversationContext {
 }
 
 class AIService {
-  private openaiApiKey: string;
-  private openrouterApiKey: string;
-  private defaultProvider: string;
-
-  constructor() {
-    this.openaiApiKey = process.env.OPENAI_API_KEY || '';
-    this.openrouterApiKey = process.env.OPENROUTER_API_KEY || '';
-    this.defaultProvider = process.env.AI_PROVIDER || 'openai';
-  }
-
+  /**
+   * Gera a resposta com o provedor, o modelo e a chave do assistente informado
+   * (settings.temperature e settings.maxTokens ajustam a geração).
+   * Sem assistente, usa o provedor padrão (AI_PROVIDER).
+   * Os trechos da base de conhecimento relevantes para a última mensagem do
+   * cliente entram no prompt numerados, para a resposta citar as fontes.
+   * Falhas viram a resposta padrão, exceto o limite mensal do plano, que é
+   * lançado (isQuotaExceededError) para quem chama responder de acordo.
+   */
   async generateResponse(
     messages: AIMessage[],
     systemPrompt: string,
-    context?: ConversationContext
+    context?: ConversationContext,
+    assistant?: AssistantTarget
   ): Promise<AIResponse> {
     try {
-      // Enriquecer contexto com dados reais
-      const enrichedContext = await this.enrichContext(context);
-      const enrichedPrompt = await this.enrichSystemPrompt(systemPrompt, enrichedContext);
-      
-      // Adicionar mensagem do sistema
-      const fullMessages = [
-        { role: 'system' as const, content: enrichedPrompt },
-        ...messages
-      ];
-
-      let response: AIResponse;
-
-      if (this.defaultProvider === 'openrouter') {
-        response = await this.callOpenRouter(fullMessages);
-      } else {
-        response = await this.callOpenAI(fullMessages);
-      }
+      const prepared = await this.prepareGeneration(messages, systemPrompt, context, assistant);
+      const result = await llmGateway.complete(prepared.target, prepared.request);
 
-      // Analisar resposta para extrair intenção e entidades
-      const analysis = await this.analyzeResponse(response.message, enrichedContext);
-      
-      // Determinar sentimento
-      const sentiment = await this.analyzeSentiment(messages[messages.length - 1]?.content || '');
-      
-      // Verificar se precisa escalar
-      const escalationNeeded = await this.shouldEscalateToHuman(messages, sentiment);
-      
-      return {
-        ...response,
-        intent: analysis.intent,
-        entities: analysis.entities,
-        suggestedActions: analysis.suggestedActions,
-        sentiment,
-        escalationNeeded
-      };
+      return await this.buildResponse(result, messages, prepared);
     } catch (error: any) {
+      if (isQuotaExceededError(error)) {
+        throw error;
+      }
+
       logger.error('Erro ao gerar resposta da IA', { error: error.message });
       return {
         message: 'Desculpe, não consegui processar sua mensagem no momento. Como posso ajudá-lo?',
@@ -93,6 +101,133 @@ class AIService {
     }
   }
 
+  /**
+   * Como generateResponse, mas repassa o texto a handlers.onDelta conforme o
+   * provedor gera. Erros e cancelamento (handlers.signal) são lançados em vez
+   * de virar a resposta padrão, pois parte do texto já pode ter sido enviada.
+   */
+  async streamResponse(
+    messages: AIMessage[],
+    systemPrompt: string,
+    context: ConversationContext | undefined,
+    assistant: AssistantTarget | undefined,
+    handlers: LLMStreamOptions
+  ): Promise<AIResponse> {
+    const prepared = await this.prepareGeneration(messages, systemPrompt, context, assistant);
+    const result = await llmGateway.stream(prepared.target, prepared.request, handlers);
+
+    return this.buildResponse(result, messages, prepared);
+  }
+
+  /**
+   * Completa as mensagens sem enriquecer o prompt nem analisar a resposta
+   * (classificações e outras chamadas internas).
+   */
+  async complete(messages: AIMessage[], options: CompletionOptions = {}): Promise<string> {
+    const result = await llmGateway.complete(options.target || llmGateway.getDefaultTarget(), {
+      messages,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens
+    });
+
+    return result.content;
+  }
+
+  // Prompt de sistema de um assistente IA: identidade e personalidade configuradas
+  buildAssistantPrompt(assistant: Pick<AIAssistant, 'name' | 'description' | 'personality'>): string {
+    return [
+      `Você é ${assistant.name}${assistant.description ? `, ${assistant.description}` : ''}.`,
+      assistant.personality
+    ].filter(Boolean).join('\n\n');
+  }
+
+  private async prepareGeneration(
+    messages: AIMessage[],
+    systemPrompt: string,
+    context?: ConversationContext,
+    assistant?: AssistantTarget
+  ): Promise<PreparedGeneration> {
+    // Enriquecer contexto com dados reais
+    const enrichedContext = await this.enrichContext(context);
+    const companyId = enrichedContext?.companyData?.id ?? assistant?.companyId;
+    const question = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+    const knowledge = companyId ? await this.retrieveKnowledge(companyId, question) : [];
+
+    const enrichedPrompt = await this.enrichSystemPrompt(systemPrompt, enrichedContext) + this.buildKnowledgePrompt(knowledge);
+
+    const settings = assistant?.settings && typeof assistant.settings === 'object' ? assistant.settings : {};
+
+    return {
+      // Sem assistente, o uso do provedor padrão fica com a empresa do contexto
+      target: assistant || { ...llmGateway.getDefaultTarget(), companyId },
+      request: {
+        // Adicionar mensagem do sistema
+        messages: [{ role: 'system', content: enrichedPrompt }, ...messages],
+        temperature: settings.temperature,
+        maxTokens: settings.maxTokens
+      },
+      knowledge,
+      context: enrichedContext
+    };
+  }
+
+  private async buildResponse(result: LLMResult, messages: AIMessage[], prepared: PreparedGeneration): Promise<AIResponse> {
+    const response: AIResponse = {
+      message: result.content,
+      confidence: 0.8,
+      intent: 'general',
+      provider: result.provider,
+      model: result.model,
+      usage: result.usage,
+      sources: prepared.knowledge.map((match, i) => ({
+        index: i + 1,
+        articleId: match.articleId,
+        title: match.title,
+        score: match.score,
+        cited: result.content.includes(`[${i + 1}]`)
+      }))
+    };
+
+    // Só os artigos citados na resposta contam como visualizados
+    await knowledgeIndexService.markUsed(response.sources!.filter(source => source.cited).map(source => source.articleId));
+
+    // Analisar resposta para extrair intenção e entidades
+    const analysis = await this.analyzeResponse(response.message, prepared.context);
+
+    // Determinar sentimento
+    const sentiment = await this.analyzeSentiment(messages[messages.length - 1]?.content || '');
+
+    // Verificar se precisa escalar
+    const escalationNeeded = await this.shouldEscalateToHuman(messages, sentiment);
+
+    return {
+      ...response,
+      intent: analysis.intent,
+      entities: analysis.entities,
+      suggestedActions: analysis.suggestedActions,
+      sentiment,
+      escalationNeeded
+    };
+  }
+
+  private async retrieveKnowledge(companyId: string, question: string): Promise<KnowledgeMatch[]> {
+    try {
+      return await knowledgeIndexService.search(companyId, question);
+    } catch (error: any) {
+      logger.error('Erro ao buscar na base de conhecimento', { companyId, error: error.message });
+      return [];
+    }
+  }
+
+  private buildKnowledgePrompt(knowledge: KnowledgeMatch[]): string {
+    if (knowledge.length === 0) {
+      return '';
+    }
+
+    return `\n\nBase de Conhecimento (trechos relevantes para a pergunta; ao usar um trecho, cite a fonte com o número entre colchetes, ex.: [1]):
+${knowledge.map((match, i) => `[${i + 1}] ${match.title} (${match.category})\n${match.content}`).join('\n\n')}`;
+  }
+
   private async enrichContext(context?: ConversationContext): Promise<ConversationContext | undefined> {
     if (!context) return context;
 
@@ -127,14 +262,7 @@ class AIService {
 
       // Buscar dados da empresa
       const company = await prisma.company.findFirst({
-        where: { name: context.companyName },
-        include: {
-          knowledgeBase: {
-            where: { isActive: true },
-            take: 10,
-            orderBy: { views: 'desc' }
-          }
-        }
+        where: { name: context.companyName }
       });
 
       if (company) {
@@ -142,7 +270,6 @@ class AIService {
           id: company.id,
           name: company.name,
           plan: company.plan,
-          knowledgeBase: company.knowledgeBase,
           products: [],
           services: [],
           settings: company.settings
@@ -186,12 +313,6 @@ class AIService {
 - Produtos: ${context.companyData.products?.length || 0} disponíveis
 - Serviços: ${context.companyData.services?.length || 0} disponíveis`;
 
-        // Adicionar base de conhecimento
-        if (context.companyData.knowledgeBase?.length > 0) {
-          enrichedPrompt += `\n\nBase de Conhecimento:
-${context.companyData.knowledgeBase.map((kb: any) => `- ${kb.title}: ${kb.content}`).join('\n')}`;
-        }
-
         // Adicionar produtos
         if (context.companyData.products?.length > 0) {
           enrichedPrompt += `\n\nProdutos Disponíveis:
@@ -221,58 +342,6 @@ ${context.companyData.services.map((s: any) => `- ${s.name}: ${s.description ||
     return enrichedPrompt;
   }
 
-  private async callOpenAI(messages: AIMessage[]): Promise<AIResponse> {
-    const response = await axios.post(
-      'https://api.openai.com/v1/chat/completions',
-      {
-        model: 'gpt-4',
-        messages,
-        max_tokens: 500,
-        temperature: 0.7,
-        presence_penalty: 0.1,
-        frequency_penalty: 0.1
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${this.openaiApiKey}`,
-          'Content-Type': 'application/json'
-        }
-      }
-    );
-
-    return {
-      message: response.data.choices[0].message.content,
-      confidence: 0.8,
-      intent: 'general'
-    };
-  }
-
-  private async callOpenRouter(messages: AIMessage[]): Promise<AIResponse> {
-    const response = await axios.post(
-      'https://openrouter.ai/api/v1/chat/completions',
-      {
-        model: 'anthropic/claude-3-sonnet',
-        messages,
-        max_tokens: 500,
-        temperature: 0.7
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${this.openrouterApiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': 'https://your-app.com',
-          'X-Title': 'WhatsApp AI Assistant'
-        }
-      }
-    );
-
-    return {
-      message: response.data.choices[0].message.content,
-      confidence: 0.8,
-      intent: 'general'
-    };
-  }
-
   private async analyzeResponse(
     message: string,
     context?: ConversationContext
@@ -370,26 +439,6 @@ ${context.companyData.services.map((s: any) => `- ${s.name}: ${s.description ||
     return 'neutral';
   }
 
-  private async getCompanyKnowledgeBase(companyName: string): Promise<any[]> {
-    try {
-      const knowledgeBase = await prisma.knowledgeBase.findMany({
-        where: {
-          company: {
-            name: companyName
-          },
-          isActive: true
-        },
-        take: 10,
-        orderBy: { views: 'desc' }
-      });
-
-      return knowledgeBase;
-    } catch (error: any) {
-      logger.error('Erro ao buscar base de conhecimento', { error: error.message });
-      return [];
-    }
-  }
-
   async shouldEscalateToHuman(
     conversationHistory: AIMessage[],
     customerSentiment: string
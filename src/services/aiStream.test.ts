@@ -0,0 +1,132 @@
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+
+// Eventos emitidos, com a sala de destino
+jest.mock('../index', () => {
+  const events: { room: string; event: string; payload: any }[] = [];
+  return {
+    events,
+    io: { to: (room: string) => ({ emit: (event: string, payload: any) => events.push({ room, event, payload }) }) }
+  };
+});
+
+jest.mock('./aiService', () => ({ __esModule: true, default: { streamResponse: jest.fn(), buildAssistantPrompt: jest.fn(() => 'prompt') } }));
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: {
+    message: {
+      create: jest.fn(async ({ data }: any) => ({ id: 'message-1', createdAt: new Date('2026-01-01T00:00:00Z'), ...data }))
+    }
+  }
+}));
+
+import prisma from '../utils/database';
+import aiService from './aiService';
+import { QUOTA_EXCEEDED_CODE } from './aiUsage';
+import { AIStreamService } from './aiStream';
+
+const { events } = jest.requireMock('../index');
+const streamResponse = aiService.streamResponse as jest.Mock;
+
+const request = (conversationId = 'conversation-1') => ({
+  conversation: { id: conversationId, channelId: 'channel-1', companyId: 'company-1' },
+  assistant: { id: 'assistant-1' } as any,
+  messages: [{ role: 'user' as const, content: 'Oi' }]
+});
+
+const eventNames = () => events.map((e: any) => e.event);
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+// Resposta que só termina quando o sinal de cancelamento dispara
+function pendingUntilAborted() {
+  streamResponse.mockImplementation((messages: any, prompt: any, context: any, assistant: any, options: any) => new Promise((resolve, reject) => {
+    options.signal.addEventListener('abort', () => reject(new Error('aborted')));
+  }));
+}
+
+let service: AIStreamService;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  events.length = 0;
+  service = new AIStreamService();
+});
+
+describe('AIStreamService', () => {
+  it('transmite início, trechos e fim na sala da conversa e salva a mensagem', async () => {
+    streamResponse.mockImplementation(async (messages: any, prompt: any, context: any, assistant: any, options: any) => {
+      options.onDelta('Olá');
+      options.onDelta(', tudo bem?');
+      return { message: 'Olá, tudo bem?', intent: 'greeting', confidence: 0.9 };
+    });
+
+    const streamId = service.start(request());
+    await flush();
+
+    expect(eventNames()).toEqual(['ai-stream-start', 'ai-stream-delta', 'ai-stream-delta', 'ai-stream-end']);
+    expect(events.every((e: any) => e.room === 'conversation-conversation-1' && e.payload.streamId === streamId)).toBe(true);
+    expect(events[1].payload.delta).toBe('Olá');
+    expect(events[3].payload).toMatchObject({
+      message: { id: 'message-1', content: 'Olá, tudo bem?', sender: 'BOT' },
+      intent: 'greeting',
+      sources: [],
+      usage: null
+    });
+    expect(prisma.message.create).toHaveBeenCalledWith({
+      data: { conversationId: 'conversation-1', channelId: 'channel-1', content: 'Olá, tudo bem?', type: 'TEXT', sender: 'BOT' }
+    });
+  });
+
+  it('cancela o stream da empresa sem salvar a mensagem', async () => {
+    pendingUntilAborted();
+
+    const streamId = service.start(request());
+
+    expect(service.cancel(streamId, 'company-2')).toBe(false);
+    expect(service.cancel(streamId, 'company-1')).toBe(true);
+    await flush();
+
+    expect(events[events.length - 1]).toMatchObject({ event: 'ai-stream-error', payload: { error: 'Geração cancelada', cancelled: true } });
+    expect(prisma.message.create).not.toHaveBeenCalled();
+    expect(service.cancel(streamId, 'company-1')).toBe(false);
+  });
+
+  it('uma nova resposta na conversa cancela a que ainda estava sendo gerada', async () => {
+    pendingUntilAborted();
+    const first = service.start(request());
+
+    streamResponse.mockResolvedValueOnce({ message: 'Nova resposta', intent: null, confidence: 1 });
+    const second = service.start(request());
+    await flush();
+
+    const errors = events.filter((e: any) => e.event === 'ai-stream-error');
+    expect(errors.map((e: any) => e.payload.streamId)).toEqual([first]);
+    expect(events.find((e: any) => e.event === 'ai-stream-end').payload.streamId).toBe(second);
+  });
+
+  it('envia só uma mensagem genérica quando o provedor falha', async () => {
+    streamResponse.mockRejectedValue(new Error('401 invalid api key sk-123'));
+
+    service.start(request());
+    await flush();
+
+    expect(events[events.length - 1].payload).toEqual({
+      streamId: expect.any(String),
+      conversationId: 'conversation-1',
+      error: 'Não foi possível gerar a resposta',
+      cancelled: false
+    });
+  });
+
+  it('avisa o limite do plano com o código do erro de cota', async () => {
+    streamResponse.mockRejectedValue(Object.assign(new Error('Limite mensal atingido'), { code: QUOTA_EXCEEDED_CODE }));
+
+    service.start(request());
+    await flush();
+
+    expect(events[events.length - 1].payload).toMatchObject({
+      error: 'Limite mensal de uso de IA do plano atingido',
+      code: QUOTA_EXCEEDED_CODE,
+      cancelled: false
+    });
+  });
+});
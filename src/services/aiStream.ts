@@ -0,0 +1,153 @@
+import { randomUUID } from 'crypto';
+import { AIAssistant, Conversation } from '@prisma/client';
+import prisma from '../utils/database';
+import logger from '../utils/logger';
+import { io } from '../index';
+import aiService, { AIMessage } from './aiService';
+import { isQuotaExceededError, QUOTA_EXCEEDED_CODE } from './aiUsage';
+
+export interface AIStreamRequest {
+  conversation: Pick<Conversation, 'id' | 'channelId' | 'companyId'>;
+  assistant: AIAssistant;
+  messages: AIMessage[];
+}
+
+interface ActiveStream {
+  id: string;
+  conversationId: string;
+  companyId: string;
+  controller: AbortController;
+}
+
+/**
+ * Respostas do assistente IA transmitidas enquanto são geradas. Os eventos
+ * vão para a sala "conversation-<id>" do Socket.IO:
+ *  - ai-stream-start { streamId, conversationId, assistantId }
+ *  - ai-stream-delta { streamId, conversationId, delta }
+ *  - ai-stream-end { streamId, conversationId, message, intent, confidence, sources, usage }
+ *  - ai-stream-error { streamId, conversationId, error, cancelled }
+ * A mensagem só é salva quando a geração termina; cancelada, nada é salvo.
+ */
+export class AIStreamService {
+  private streams = new Map<string, ActiveStream>();
+
+  // Começa a geração em segundo plano e devolve o id do stream
+  start(request: AIStreamRequest): string {
+    const { conversation } = request;
+
+    // Uma nova mensagem na conversa substitui a resposta que ainda estava sendo gerada
+    for (const active of Array.from(this.streams.values())) {
+      if (active.conversationId === conversation.id) {
+        active.controller.abort();
+      }
+    }
+
+    const stream: ActiveStream = {
+      id: randomUUID(),
+      conversationId: conversation.id,
+      companyId: conversation.companyId,
+      controller: new AbortController()
+    };
+
+    this.streams.set(stream.id, stream);
+
+    this.run(stream, request).finally(() => this.streams.delete(stream.id));
+
+    return stream.id;
+  }
+
+  // false quando o stream não existe (já terminou) ou é de outra empresa
+  cancel(streamId: string, companyId: string): boolean {
+    const stream = this.streams.get(streamId);
+
+    if (!stream || stream.companyId !== companyId) {
+      return false;
+    }
+
+    stream.controller.abort();
+
+    return true;
+  }
+
+  private async run(stream: ActiveStream, request: AIStreamRequest): Promise<void> {
+    const { conversation, assistant, messages } = request;
+    const room = `conversation-${conversation.id}`;
+    const event = { streamId: stream.id, conversationId: conversation.id };
+
+    io.to(room).emit('ai-stream-start', { ...event, assistantId: assistant.id });
+
+    try {
+      const aiResponse = await aiService.streamResponse(
+        messages,
+        aiService.buildAssistantPrompt(assistant),
+        undefined,
+        assistant,
+        {
+          signal: stream.controller.signal,
+          onDelta: delta => io.to(room).emit('ai-stream-delta', { ...event, delta })
+        }
+      );
+
+      // Cancelado depois do último trecho: a resposta é descartada como nas demais interrupções
+      if (stream.controller.signal.aborted) {
+        throw new Error('Geração cancelada');
+      }
+
+      const assistantMessage = await prisma.message.create({
+        data: {
+          conversationId: conversation.id,
+          channelId: conversation.channelId,
+          content: aiResponse.message,
+          type: 'TEXT',
+          sender: 'BOT'
+        }
+      });
+
+      io.to(room).emit('ai-stream-end', {
+        ...event,
+        message: {
+          id: assistantMessage.id,
+          content: assistantMessage.content,
+          sender: assistantMessage.sender,
+          timestamp: assistantMessage.createdAt
+        },
+        intent: aiResponse.intent,
+        confidence: aiResponse.confidence,
+        sources: aiResponse.sources || [],
+        usage: aiResponse.usage || null
+      });
+
+      logger.info('Resposta do assistente IA transmitida', {
+        streamId: stream.id,
+        assistantId: assistant.id,
+        conversationId: conversation.id,
+        responseLength: aiResponse.message.length
+      });
+    } catch (error: any) {
+      const cancelled = stream.controller.signal.aborted;
+
+      if (!cancelled) {
+        logger.error('Erro no stream do assistente IA', {
+          streamId: stream.id,
+          assistantId: assistant.id,
+          conversationId: conversation.id,
+          error: error.message
+        });
+      }
+
+      // O erro do provedor fica no log; o cliente recebe só uma mensagem genérica (ou o aviso de limite do plano)
+      const quotaExceeded = !cancelled && isQuotaExceededError(error);
+
+      io.to(room).emit('ai-stream-error', {
+        ...event,
+        error: cancelled
+          ? 'Geração cancelada'
+          : quotaExceeded ? 'Limite mensal de uso de IA do plano atingido' : 'Não foi possível gerar a resposta',
+        ...(quotaExceeded && { code: QUOTA_EXCEEDED_CODE }),
+        cancelled
+      });
+    }
+  }
+}
+
+export default new AIStreamService();
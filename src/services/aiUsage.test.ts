@@ -0,0 +1,98 @@
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: {
+    company: { findUnique: jest.fn() },
+    aIUsage: { aggregate: jest.fn(), create: jest.fn() }
+  }
+}));
+
+import prisma from '../utils/database';
+import { AIUsageService, estimateTokens, isQuotaExceededError, QUOTA_EXCEEDED_CODE } from './aiUsage';
+
+describe('AIUsageService.estimateCost', () => {
+  const service = new AIUsageService();
+
+  it('usa o preço do nome mais longo que é prefixo do modelo', () => {
+    expect(service.estimateCost('gpt-4o-mini', 1e6, 1e6)).toBe(0.75);
+    expect(service.estimateCost('gpt-4o-2024-08-06', 1e6, 0)).toBe(2.5);
+    expect(service.estimateCost('gpt-4-0613', 1000, 500)).toBe(0.06);
+  });
+
+  it('reconhece nomes do OpenRouter e cobra só a entrada dos embeddings', () => {
+    expect(service.estimateCost('anthropic/claude-3.5-sonnet', 1e6, 1e6)).toBe(18);
+    expect(service.estimateCost('text-embedding-3-small', 1e6, 0)).toBe(0.02);
+  });
+
+  it('retorna 0 para modelos fora da tabela', () => {
+    expect(service.estimateCost('modelo-local', 1e6, 1e6)).toBe(0);
+  });
+});
+
+describe('estimateTokens', () => {
+  it('estima cerca de 4 caracteres por token', () => {
+    expect(estimateTokens('abcdefghi')).toBe(3);
+    expect(estimateTokens('')).toBe(0);
+  });
+});
+
+describe('Limites mensais por plano', () => {
+  const originalLimits = process.env.AI_PLAN_LIMITS;
+  const findCompany = prisma.company.findUnique as jest.Mock;
+  const aggregate = prisma.aIUsage.aggregate as jest.Mock;
+  let service: AIUsageService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.AI_PLAN_LIMITS = JSON.stringify({ STARTER: { tokens: 1000, cost: 5 }, PRO: { cost: 50 } });
+    service = new AIUsageService();
+  });
+
+  afterAll(() => {
+    process.env.AI_PLAN_LIMITS = originalLimits;
+  });
+
+  it('lê os limites de AI_PLAN_LIMITS, sem limite para o que não foi configurado', () => {
+    expect(service.getPlanLimit('STARTER')).toEqual({ tokens: 1000, cost: 5 });
+    expect(service.getPlanLimit('PRO')).toEqual({ tokens: null, cost: 50 });
+    expect(service.getPlanLimit('ENTERPRISE')).toEqual({ tokens: null, cost: null });
+  });
+
+  it('soma o uso do mês e bloqueia quando o limite é atingido', async () => {
+    findCompany.mockResolvedValue({ plan: 'STARTER' });
+    aggregate.mockResolvedValue({ _sum: { totalTokens: 400, cost: 1.5 } });
+
+    await expect(service.getQuota('company-1')).resolves.toMatchObject({
+      plan: 'STARTER',
+      used: { tokens: 400, cost: 1.5 },
+      exceeded: false
+    });
+    await expect(service.assertWithinQuota('company-1')).resolves.toBeUndefined();
+
+    // O uso registrado nesta instância entra no total sem nova consulta
+    await service.record({
+      provider: 'OPENAI',
+      model: 'gpt-4o-mini',
+      operation: 'completion',
+      promptTokens: 500,
+      completionTokens: 100,
+      latencyMs: 120,
+      success: true,
+      companyId: 'company-1'
+    });
+
+    const error = await service.assertWithinQuota('company-1').catch(caught => caught);
+
+    expect(error.message).toBe('Limite mensal de uso de IA do plano STARTER atingido');
+    expect(error.code).toBe(QUOTA_EXCEEDED_CODE);
+    expect(error.quota).toMatchObject({ plan: 'STARTER', exceeded: true, used: { tokens: 1000 } });
+    expect(isQuotaExceededError(error)).toBe(true);
+    expect(isQuotaExceededError(new Error('timeout'))).toBe(false);
+    expect(aggregate).toHaveBeenCalledTimes(1);
+  });
+
+  it('não limita chamadas sem empresa', async () => {
+    await expect(service.assertWithinQuota(null)).resolves.toBeUndefined();
+    expect(findCompany).not.toHaveBeenCalled();
+  });
+});
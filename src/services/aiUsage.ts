@@ -0,0 +1,345 @@
+import { AIProvider, Plan } from '@prisma/client';
+import prisma from '../utils/database';
+import logger from '../utils/logger';
+
+// Preço por 1 milhão de tokens, em USD
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Limites mensais de um plano (null = sem limite)
+export interface PlanLimit {
+  tokens: number | null;
+  cost: number | null;
+}
+
+export interface UsageEntry {
+  provider: AIProvider;
+  model: string;
+  operation: 'completion' | 'stream' | 'embedding';
+  promptTokens: number;
+  completionTokens: number;
+  estimated?: boolean;
+  latencyMs: number;
+  success: boolean;
+  error?: string;
+  companyId?: string | null;
+  assistantId?: string | null;
+}
+
+export interface UsageQuota {
+  plan: Plan;
+  // Mês corrente (UTC), ex.: 2026-10
+  month: string;
+  limits: PlanLimit;
+  used: { tokens: number; cost: number };
+  exceeded: boolean;
+}
+
+export interface UsageFilter {
+  from: Date;
+  to: Date;
+  assistantId?: string;
+}
+
+/**
+ * Preços de referência dos modelos mais usados. Nomes com versão
+ * (gpt-4o-2024-08-06) e do OpenRouter (anthropic/claude-3.5-sonnet) usam o
+ * preço do nome mais longo que for prefixo deles. AI_PRICE_TABLE (JSON com o
+ * mesmo formato) sobrescreve ou complementa a tabela.
+ */
+const DEFAULT_PRICES: { [model: string]: ModelPrice } = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-flash-1.5': { input: 0.075, output: 0.3 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  // Embeddings só cobram a entrada
+  'text-embedding-ada-002': { input: 0.1, output: 0 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 }
+};
+
+// Os totais do mês ficam em memória por este tempo; chamadas registradas nesta instância somam na hora
+const QUOTA_CACHE_TTL_MS = 60 * 1000;
+
+// Sem uso informado pelo provedor, estima ~4 caracteres por token
+const CHARS_PER_TOKEN = 4;
+
+// Código do erro lançado por assertWithinQuota (as rotas respondem 429)
+export const QUOTA_EXCEEDED_CODE = 'ERR_AI_QUOTA_EXCEEDED';
+
+// Resposta do bot ao cliente quando o limite do plano impede a chamada à IA
+export const QUOTA_EXCEEDED_REPLY = 'O limite mensal de uso do assistente virtual foi atingido. Um atendente vai continuar o seu atendimento.';
+
+function parseJsonEnv(name: string): any {
+  const value = process.env[name];
+
+  if (!value) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch (error: any) {
+    logger.error(`${name} inválido, usando valores padrão`, { error: error.message });
+    return {};
+  }
+}
+
+// "anthropic/claude-3.5-sonnet" → "claude-3-5-sonnet"
+function normalizeModel(model: string): string {
+  return model.toLowerCase().replace(/^.*\//, '').replace(/\./g, '-');
+}
+
+function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function startOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function roundCost(cost: number): number {
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil((text || '').length / CHARS_PER_TOKEN);
+}
+
+export function isQuotaExceededError(error: any): boolean {
+  return error?.code === QUOTA_EXCEEDED_CODE;
+}
+
+/**
+ * Registro do uso dos modelos de linguagem (toda chamada feita pelo
+ * LLMGateway e os embeddings da base de conhecimento), custo estimado pela tabela de preços e limites mensais por
+ * plano, configurados em AI_PLAN_LIMITS (ex.: {"STARTER": {"tokens": 1000000, "cost": 20}}).
+ */
+export class AIUsageService {
+  private prices: { key: string; price: ModelPrice }[];
+  private planLimits: { [plan: string]: Partial<PlanLimit> };
+  private monthly = new Map<string, { month: string; plan: Plan; tokens: number; cost: number; loadedAt: number }>();
+
+  constructor() {
+    const table = { ...DEFAULT_PRICES, ...parseJsonEnv('AI_PRICE_TABLE') };
+
+    // Nome mais longo primeiro: gpt-4o-mini antes de gpt-4o, que vem antes de gpt-4
+    this.prices = Object.entries(table)
+      .map(([model, price]) => ({ key: normalizeModel(model), price: price as ModelPrice }))
+      .sort((a, b) => b.key.length - a.key.length);
+
+    this.planLimits = parseJsonEnv('AI_PLAN_LIMITS');
+  }
+
+  getPrice(model: string): ModelPrice | null {
+    const normalized = normalizeModel(model);
+    return this.prices.find(entry => normalized.startsWith(entry.key))?.price ?? null;
+  }
+
+  // Custo em USD; modelos fora da tabela custam 0
+  estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+    const price = this.getPrice(model);
+
+    if (!price) {
+      return 0;
+    }
+
+    return roundCost((promptTokens * (Number(price.input) || 0) + completionTokens * (Number(price.output) || 0)) / 1e6);
+  }
+
+  getPlanLimit(plan: Plan): PlanLimit {
+    const limit = this.planLimits[plan] || {};
+
+    return {
+      tokens: typeof limit.tokens === 'number' ? limit.tokens : null,
+      cost: typeof limit.cost === 'number' ? limit.cost : null
+    };
+  }
+
+  /**
+   * Salva a chamada. Nunca lança: uma falha no registro não pode derrubar a
+   * resposta da IA.
+   */
+  async record(entry: UsageEntry): Promise<void> {
+    const now = new Date();
+    const totalTokens = entry.promptTokens + entry.completionTokens;
+    const cost = this.estimateCost(entry.model, entry.promptTokens, entry.completionTokens);
+
+    if (entry.companyId) {
+      const cached = this.monthly.get(entry.companyId);
+      if (cached && cached.month === monthKey(now)) {
+        cached.tokens += totalTokens;
+        cached.cost += cost;
+      }
+    }
+
+    try {
+      await prisma.aIUsage.create({
+        data: {
+          provider: entry.provider,
+          model: entry.model,
+          operation: entry.operation,
+          promptTokens: entry.promptTokens,
+          completionTokens: entry.completionTokens,
+          totalTokens,
+          estimated: entry.estimated === true,
+          latencyMs: Math.round(entry.latencyMs),
+          cost,
+          success: entry.success,
+          error: entry.error?.slice(0, 500),
+          date: startOfDay(now),
+          companyId: entry.companyId || null,
+          assistantId: entry.assistantId || null
+        }
+      });
+    } catch (error: any) {
+      logger.error('Erro ao registrar uso de IA', {
+        companyId: entry.companyId,
+        provider: entry.provider,
+        model: entry.model,
+        error: error.message
+      });
+    }
+  }
+
+  async getQuota(companyId: string): Promise<UsageQuota> {
+    const month = monthKey(new Date());
+    let cached = this.monthly.get(companyId);
+
+    if (!cached || cached.month !== month || Date.now() - cached.loadedAt > QUOTA_CACHE_TTL_MS) {
+      const [company, totals] = await Promise.all([
+        prisma.company.findUnique({ where: { id: companyId }, select: { plan: true } }),
+        prisma.aIUsage.aggregate({
+          where: { companyId, date: { gte: startOfMonth(new Date()) } },
+          _sum: { totalTokens: true, cost: true }
+        })
+      ]);
+
+      cached = {
+        month,
+        plan: company?.plan || Plan.STARTER,
+        tokens: totals._sum.totalTokens || 0,
+        cost: totals._sum.cost || 0,
+        loadedAt: Date.now()
+      };
+
+      this.monthly.set(companyId, cached);
+    }
+
+    const limits = this.getPlanLimit(cached.plan);
+
+    return {
+      plan: cached.plan,
+      month,
+      limits,
+      used: { tokens: cached.tokens, cost: roundCost(cached.cost) },
+      exceeded: (limits.tokens !== null && cached.tokens >= limits.tokens)
+        || (limits.cost !== null && cached.cost >= limits.cost)
+    };
+  }
+
+  /**
+   * Lança quando a empresa já atingiu o limite mensal do plano (chamadas sem
+   * empresa não têm limite). O erro tem code QUOTA_EXCEEDED_CODE e a quota.
+   */
+  async assertWithinQuota(companyId?: string | null): Promise<void> {
+    if (!companyId) {
+      return;
+    }
+
+    const quota = await this.getQuota(companyId);
+
+    if (quota.exceeded) {
+      logger.warn('Limite mensal de uso de IA atingido', { companyId, plan: quota.plan, used: quota.used });
+      const error: any = new Error(`Limite mensal de uso de IA do plano ${quota.plan} atingido`);
+      error.code = QUOTA_EXCEEDED_CODE;
+      error.quota = quota;
+      throw error;
+    }
+  }
+
+  /**
+   * Totais do período e agregações por dia, assistente e modelo.
+   */
+  async getSummary(companyId: string, filter: UsageFilter) {
+    const where: any = {
+      companyId,
+      date: { gte: startOfDay(filter.from), lte: startOfDay(filter.to) }
+    };
+
+    if (filter.assistantId) {
+      where.assistantId = filter.assistantId;
+    }
+
+    const sums = { promptTokens: true, completionTokens: true, totalTokens: true, cost: true } as const;
+
+    const [totals, failed, byDay, byAssistant, byModel] = await Promise.all([
+      prisma.aIUsage.aggregate({ where, _count: { _all: true }, _sum: sums, _avg: { latencyMs: true } }),
+      prisma.aIUsage.count({ where: { ...where, success: false } }),
+      prisma.aIUsage.groupBy({ by: ['date'], where, _count: { _all: true }, _sum: sums, orderBy: { date: 'asc' } }),
+      prisma.aIUsage.groupBy({ by: ['assistantId'], where, _count: { _all: true }, _sum: sums }),
+      prisma.aIUsage.groupBy({ by: ['provider', 'model'], where, _count: { _all: true }, _sum: sums, _avg: { latencyMs: true } })
+    ]);
+
+    const assistantIds = byAssistant.map(row => row.assistantId).filter((id): id is string => !!id);
+    const assistants = assistantIds.length > 0
+      ? await prisma.aIAssistant.findMany({ where: { id: { in: assistantIds } }, select: { id: true, name: true } })
+      : [];
+    const names = new Map(assistants.map(assistant => [assistant.id, assistant.name]));
+
+    const toTotals = (row: { _count: { _all: number }; _sum: any }) => ({
+      calls: row._count._all,
+      promptTokens: row._sum.promptTokens || 0,
+      completionTokens: row._sum.completionTokens || 0,
+      totalTokens: row._sum.totalTokens || 0,
+      cost: roundCost(row._sum.cost || 0)
+    });
+
+    return {
+      period: {
+        from: startOfDay(filter.from).toISOString().slice(0, 10),
+        to: startOfDay(filter.to).toISOString().slice(0, 10)
+      },
+      totals: {
+        ...toTotals(totals),
+        failed,
+        avgLatencyMs: Math.round(totals._avg.latencyMs || 0)
+      },
+      byDay: byDay.map(row => ({ date: row.date.toISOString().slice(0, 10), ...toTotals(row) })),
+      byAssistant: byAssistant
+        .map(row => ({
+          assistantId: row.assistantId,
+          // null = chamadas sem assistente (provedor padrão)
+          name: row.assistantId ? names.get(row.assistantId) || null : null,
+          ...toTotals(row)
+        }))
+        .sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens),
+      byModel: byModel
+        .map(row => ({
+          provider: row.provider,
+          model: row.model,
+          ...toTotals(row),
+          avgLatencyMs: Math.round(row._avg.latencyMs || 0)
+        }))
+        .sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens)
+    };
+  }
+}
+
+export default new AIUsageService();
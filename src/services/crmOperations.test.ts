@@ -0,0 +1,122 @@
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: {
+    customer: { findFirst: jest.fn(), update: jest.fn() },
+    contact: { findFirst: jest.fn(), create: jest.fn(async ({ data }: any) => ({ id: 'contact-new', ...data })), update: jest.fn(async ({ data }: any) => data) },
+    lead: { findFirst: jest.fn(), create: jest.fn(async ({ data }: any) => data), update: jest.fn(async ({ data }: any) => data) },
+    user: { findFirst: jest.fn() },
+    kanbanColumn: { findFirst: jest.fn() },
+    kanbanCard: { findFirst: jest.fn(), create: jest.fn(async ({ data }: any) => data) }
+  }
+}));
+
+import prisma from '../utils/database';
+import crmOperationService from './crmOperations';
+
+const db = prisma as any;
+const context = { companyId: 'company-1', customerId: 'customer-1' };
+const customer = { id: 'customer-1', name: 'Ana', email: 'ana@cliente.com', phone: '5511999990000' };
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('CrmOperationService', () => {
+  it('só encontra clientes ligados à empresa da execução', async () => {
+    db.customer.findFirst.mockResolvedValue(null);
+
+    const result = await crmOperationService.run('find_customer', { phone: '5511999990000' }, context);
+
+    expect(result).toEqual({ found: false, customer: null });
+    const { where } = db.customer.findFirst.mock.calls[0][0];
+    expect(where.phone).toBe('5511999990000');
+    expect(where.OR).toEqual([
+      { conversations: { some: { companyId: 'company-1' } } },
+      { contacts: { some: { companyId: 'company-1' } } },
+      { leads: { some: { companyId: 'company-1' } } }
+    ]);
+  });
+
+  it('update_customer altera o contato da empresa, nunca o cliente compartilhado', async () => {
+    db.customer.findFirst.mockResolvedValue(customer);
+    db.contact.findFirst.mockResolvedValue({ id: 'contact-1', metadata: { origem: 'site' } });
+
+    await crmOperationService.run('update_customer', { name: 'Ana Souza', role: 'ADMIN', metadata: { plano: 'pro' } }, context);
+
+    expect(db.customer.update).not.toHaveBeenCalled();
+    expect(db.contact.findFirst).toHaveBeenCalledWith({ where: { companyId: 'company-1', customerId: 'customer-1' } });
+    expect(db.contact.update).toHaveBeenCalledWith({
+      where: { id: 'contact-1' },
+      data: { name: 'Ana Souza', metadata: { origem: 'site', plano: 'pro' } }
+    });
+  });
+
+  it('update_customer cria o contato da empresa quando ele ainda não existe', async () => {
+    db.customer.findFirst.mockResolvedValue(customer);
+    db.contact.findFirst.mockResolvedValue(null);
+
+    const result = await crmOperationService.run('update_customer', { email: 'novo@cliente.com' }, context);
+
+    expect(db.contact.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        name: 'Ana',
+        email: 'novo@cliente.com',
+        phone: '5511999990000',
+        customerId: 'customer-1',
+        companyId: 'company-1'
+      })
+    });
+    expect(result.contact.id).toBe('contact-new');
+  });
+
+  it('recusa leads de outra empresa', async () => {
+    db.lead.findFirst.mockResolvedValue(null);
+
+    await expect(crmOperationService.run('update_lead', { id: 'lead-2', name: 'X' }, context)).rejects.toThrow('Lead não encontrado');
+    expect(db.lead.findFirst).toHaveBeenCalledWith({ where: { id: 'lead-2', companyId: 'company-1' } });
+    expect(db.lead.update).not.toHaveBeenCalled();
+  });
+
+  it('set_lead_score soma o incremento ao score atual', async () => {
+    db.lead.findFirst.mockResolvedValue({ id: 'lead-1', score: 10 });
+
+    await crmOperationService.run('set_lead_score', { id: 'lead-1', increment: 5 }, context);
+
+    expect(db.lead.update).toHaveBeenCalledWith({ where: { id: 'lead-1' }, data: { score: 15 } });
+  });
+
+  it('valida status e score do lead', async () => {
+    db.lead.findFirst.mockResolvedValue({ id: 'lead-1', score: 0 });
+
+    await expect(crmOperationService.run('set_lead_status', { id: 'lead-1', status: 'sumido' }, context))
+      .rejects.toThrow('Status de lead inválido: sumido');
+    await expect(crmOperationService.run('set_lead_score', { id: 'lead-1', score: 1.5 }, context))
+      .rejects.toThrow('Score inválido: 1.5');
+  });
+
+  it('add_contact_tags acrescenta só as tags novas', async () => {
+    db.contact.findFirst.mockResolvedValue({ id: 'contact-1', tags: ['vip'] });
+
+    const result = await crmOperationService.run('add_contact_tags', { tags: 'vip, recompra ,' }, context);
+
+    expect(db.contact.findFirst).toHaveBeenCalledWith({ where: { companyId: 'company-1', customerId: 'customer-1' } });
+    expect(db.contact.update).toHaveBeenCalledWith({ where: { id: 'contact-1' }, data: { tags: ['vip', 'recompra'] } });
+    expect(result.addedTags).toEqual(['recompra']);
+  });
+
+  it('create_kanban_card exige uma coluna de quadro da empresa', async () => {
+    db.kanbanColumn.findFirst.mockResolvedValue(null);
+
+    await expect(crmOperationService.run('create_kanban_card', { title: 'Retornar', columnId: 'column-9' }, context))
+      .rejects.toThrow('Coluna Kanban não encontrada');
+    expect(db.kanbanColumn.findFirst).toHaveBeenCalledWith({
+      where: { id: 'column-9', board: { companyId: 'company-1' } }
+    });
+  });
+
+  it('recusa operações desconhecidas e execuções sem empresa', async () => {
+    await expect(crmOperationService.run('drop_table', {}, context)).rejects.toThrow('Operação de banco de dados não suportada: drop_table');
+    await expect(crmOperationService.run('find_customer', {}, { companyId: '' })).rejects.toThrow('companyId é obrigatório');
+  });
+});
@@ -0,0 +1,432 @@
+import { LeadStatus, Prisma } from '@prisma/client';
+import prisma from '../utils/database';
+import logger from '../utils/logger';
+
+export type CrmOperation =
+  | 'find_customer'
+  | 'update_customer'
+  | 'create_lead'
+  | 'update_lead'
+  | 'set_lead_status'
+  | 'set_lead_score'
+  | 'add_contact_tags'
+  | 'create_kanban_card';
+
+export const CRM_OPERATIONS: CrmOperation[] = [
+  'find_customer',
+  'update_customer',
+  'create_lead',
+  'update_lead',
+  'set_lead_status',
+  'set_lead_score',
+  'add_contact_tags',
+  'create_kanban_card'
+];
+
+export interface CrmOperationContext {
+  companyId: string;
+  // Cliente da conversa, usado quando a operação não informa um
+  customerId?: string | null;
+}
+
+// Campos que cada entidade aceita receber de um fluxo
+const CONTACT_FIELDS = ['name', 'email', 'phone'] as const;
+const LEAD_FIELDS = ['name', 'email', 'phone', 'companyName', 'source'] as const;
+const MAX_TAGS = 50;
+
+/**
+ * Operações de CRM disponíveis para o step DATABASE. Cada operação tem
+ * um conjunto fixo de campos e sempre filtra pela empresa da execução.
+ */
+export class CrmOperationService {
+  async run(operation: string, params: { [key: string]: any }, context: CrmOperationContext): Promise<any> {
+    if (!context.companyId) {
+      throw new Error('companyId é obrigatório para operações de banco de dados');
+    }
+
+    const input = params && typeof params === 'object' ? params : {};
+
+    switch (operation) {
+      case 'find_customer':
+        return this.findCustomer(input, context);
+
+      case 'update_customer':
+        return this.updateCustomer(input, context);
+
+      case 'create_lead':
+        return this.createLead(input, context);
+
+      case 'update_lead':
+        return this.updateLead(input, context);
+
+      case 'set_lead_status':
+        return this.updateLead({ id: input.id, status: input.status }, context);
+
+      case 'set_lead_score':
+        return this.setLeadScore(input, context);
+
+      case 'add_contact_tags':
+        return this.addContactTags(input, context);
+
+      case 'create_kanban_card':
+        return this.createKanbanCard(input, context);
+
+      default:
+        throw new Error(`Operação de banco de dados não suportada: ${operation}`);
+    }
+  }
+
+  private async findCustomer(params: any, context: CrmOperationContext) {
+    const customer = await this.findScopedCustomer(params, context);
+
+    return { found: Boolean(customer), customer };
+  }
+
+  /**
+   * Customer é compartilhado entre empresas, então o fluxo nunca o altera:
+   * os dados vão para o contato da empresa ligado a esse cliente, criado
+   * quando ainda não existir.
+   */
+  private async updateCustomer(params: any, context: CrmOperationContext) {
+    const customer = await this.findScopedCustomer(params, context);
+
+    if (!customer) {
+      throw new Error('Cliente não encontrado');
+    }
+
+    const fields = this.pickFields(params, CONTACT_FIELDS);
+    const contact = await prisma.contact.findFirst({
+      where: { companyId: context.companyId, customerId: customer.id }
+    });
+
+    let updated;
+
+    if (contact) {
+      const data: Prisma.ContactUpdateInput = fields;
+
+      if (params.metadata !== undefined) {
+        data.metadata = this.mergeMetadata(contact.metadata, params.metadata);
+      }
+
+      updated = await prisma.contact.update({
+        where: { id: contact.id },
+        data
+      });
+    } else {
+      const phone = fields.phone || customer.phone;
+
+      if (!phone) {
+        throw new Error('Telefone é obrigatório para criar o contato do cliente');
+      }
+
+      updated = await prisma.contact.create({
+        data: {
+          name: fields.name || customer.name,
+          email: fields.email ?? customer.email,
+          phone,
+          metadata: params.metadata !== undefined ? this.mergeMetadata({}, params.metadata) : undefined,
+          customerId: customer.id,
+          companyId: context.companyId
+        }
+      });
+    }
+
+    logger.info('Contato do cliente atualizado por workflow', {
+      customerId: customer.id,
+      contactId: updated.id,
+      companyId: context.companyId
+    });
+
+    return { customer, contact: updated };
+  }
+
+  private async createLead(params: any, context: CrmOperationContext) {
+    if (!params.name) {
+      throw new Error('Nome é obrigatório para criar lead');
+    }
+
+    const customerId = params.customerId || context.customerId;
+    if (customerId) {
+      await this.requireCustomer(customerId, context);
+    }
+
+    if (params.assignedTo) {
+      await this.requireUser(params.assignedTo, context);
+    }
+
+    const lead = await prisma.lead.create({
+      data: {
+        ...this.pickFields(params, LEAD_FIELDS),
+        name: String(params.name),
+        status: params.status ? this.parseLeadStatus(params.status) : 'NEW',
+        score: params.score !== undefined ? this.parseScore(params.score) : undefined,
+        metadata: params.metadata !== undefined ? this.mergeMetadata({}, params.metadata) : undefined,
+        assignedTo: params.assignedTo || undefined,
+        customerId: customerId || undefined,
+        companyId: context.companyId
+      }
+    });
+
+    logger.info('Lead criado por workflow', { leadId: lead.id, companyId: context.companyId });
+
+    return { lead };
+  }
+
+  private async updateLead(params: any, context: CrmOperationContext) {
+    const lead = await this.requireLead(params.id, context);
+    const data: Prisma.LeadUncheckedUpdateInput = this.pickFields(params, LEAD_FIELDS);
+
+    if (params.status !== undefined) {
+      data.status = this.parseLeadStatus(params.status);
+    }
+
+    if (params.score !== undefined) {
+      data.score = this.parseScore(params.score);
+    }
+
+    if (params.assignedTo !== undefined) {
+      if (params.assignedTo) {
+        await this.requireUser(params.assignedTo, context);
+      }
+      data.assignedTo = params.assignedTo || null;
+    }
+
+    if (params.metadata !== undefined) {
+      data.metadata = this.mergeMetadata(lead.metadata, params.metadata);
+    }
+
+    const updated = await prisma.lead.update({
+      where: { id: lead.id },
+      data
+    });
+
+    logger.info('Lead atualizado por workflow', { leadId: lead.id, companyId: context.companyId });
+
+    return { lead: updated };
+  }
+
+  private async setLeadScore(params: any, context: CrmOperationContext) {
+    const lead = await this.requireLead(params.id, context);
+
+    // "increment" soma ao score atual; "score" substitui
+    const score = params.increment !== undefined
+      ? lead.score + this.parseScore(params.increment)
+      : this.parseScore(params.score);
+
+    const updated = await prisma.lead.update({
+      where: { id: lead.id },
+      data: { score }
+    });
+
+    logger.info('Score de lead atualizado por workflow', { leadId: lead.id, score, companyId: context.companyId });
+
+    return { lead: updated };
+  }
+
+  private async addContactTags(params: any, context: CrmOperationContext) {
+    const tags = this.parseTags(params.tags);
+
+    if (tags.length === 0) {
+      throw new Error('Informe ao menos uma tag');
+    }
+
+    const where: Prisma.ContactWhereInput = { companyId: context.companyId };
+
+    if (params.id) {
+      where.id = String(params.id);
+    } else if (params.phone) {
+      where.phone = String(params.phone);
+    } else if (params.customerId || context.customerId) {
+      where.customerId = params.customerId || context.customerId;
+    } else {
+      throw new Error('Informe o contato (id, phone ou customerId)');
+    }
+
+    const contact = await prisma.contact.findFirst({ where });
+
+    if (!contact) {
+      throw new Error('Contato não encontrado');
+    }
+
+    const merged = Array.from(new Set([...contact.tags, ...tags]));
+
+    if (merged.length > MAX_TAGS) {
+      throw new Error(`Contato excederia o limite de ${MAX_TAGS} tags`);
+    }
+
+    const updated = await prisma.contact.update({
+      where: { id: contact.id },
+      data: { tags: merged }
+    });
+
+    return { contact: updated, addedTags: tags.filter(tag => !contact.tags.includes(tag)) };
+  }
+
+  private async createKanbanCard(params: any, context: CrmOperationContext) {
+    if (!params.title) {
+      throw new Error('Título é obrigatório para criar card');
+    }
+
+    // Verificar se a coluna pertence a um quadro da empresa
+    const column = await prisma.kanbanColumn.findFirst({
+      where: {
+        id: String(params.columnId || ''),
+        board: { companyId: context.companyId }
+      }
+    });
+
+    if (!column) {
+      throw new Error('Coluna Kanban não encontrada');
+    }
+
+    if (params.leadId) {
+      await this.requireLead(params.leadId, context);
+    }
+
+    if (params.assignedTo) {
+      await this.requireUser(params.assignedTo, context);
+    }
+
+    const dueDate = params.dueDate ? new Date(params.dueDate) : null;
+    if (dueDate && isNaN(dueDate.getTime())) {
+      throw new Error(`Data de vencimento inválida: ${params.dueDate}`);
+    }
+
+    // Obter a maior ordem atual
+    const maxOrder = await prisma.kanbanCard.findFirst({
+      where: { columnId: column.id },
+      orderBy: { order: 'desc' },
+      select: { order: true }
+    });
+
+    const card = await prisma.kanbanCard.create({
+      data: {
+        title: String(params.title),
+        description: params.description || undefined,
+        color: params.color || undefined,
+        dueDate,
+        leadId: params.leadId || undefined,
+        assignedTo: params.assignedTo || undefined,
+        order: (maxOrder?.order || 0) + 1,
+        columnId: column.id
+      }
+    });
+
+    logger.info('Card Kanban criado por workflow', { cardId: card.id, columnId: column.id });
+
+    return { card };
+  }
+
+  /**
+   * Customer não tem companyId: o cliente só é visível para a empresa
+   * se tiver conversa, contato ou lead nela.
+   */
+  private findScopedCustomer(params: any, context: CrmOperationContext) {
+    const where: Prisma.CustomerWhereInput = {
+      OR: [
+        { conversations: { some: { companyId: context.companyId } } },
+        { contacts: { some: { companyId: context.companyId } } },
+        { leads: { some: { companyId: context.companyId } } }
+      ]
+    };
+
+    if (params.id) {
+      where.id = String(params.id);
+    } else if (params.phone) {
+      where.phone = String(params.phone);
+    } else if (params.email) {
+      where.email = String(params.email);
+    } else if (context.customerId) {
+      where.id = context.customerId;
+    } else {
+      throw new Error('Informe o cliente (id, phone ou email)');
+    }
+
+    return prisma.customer.findFirst({ where });
+  }
+
+  private async requireCustomer(customerId: string, context: CrmOperationContext) {
+    const customer = await this.findScopedCustomer({ id: customerId }, context);
+    if (!customer) {
+      throw new Error('Cliente não encontrado');
+    }
+    return customer;
+  }
+
+  private async requireLead(leadId: any, context: CrmOperationContext) {
+    if (!leadId) {
+      throw new Error('id do lead é obrigatório');
+    }
+
+    const lead = await prisma.lead.findFirst({
+      where: { id: String(leadId), companyId: context.companyId }
+    });
+
+    if (!lead) {
+      throw new Error('Lead não encontrado');
+    }
+
+    return lead;
+  }
+
+  private async requireUser(userId: any, context: CrmOperationContext) {
+    const user = await prisma.user.findFirst({
+      where: { id: String(userId), companyId: context.companyId },
+      select: { id: true }
+    });
+
+    if (!user) {
+      throw new Error('Usuário não encontrado');
+    }
+  }
+
+  private pickFields<K extends string>(params: any, fields: readonly K[]): { [key in K]?: string } {
+    const picked: { [key in K]?: string } = {};
+
+    fields.forEach(field => {
+      if (params[field] !== undefined && params[field] !== null) {
+        picked[field] = String(params[field]);
+      }
+    });
+
+    return picked;
+  }
+
+  private parseLeadStatus(value: any): LeadStatus {
+    const status = String(value).toUpperCase();
+
+    if (!Object.values(LeadStatus).includes(status as LeadStatus)) {
+      throw new Error(`Status de lead inválido: ${value}`);
+    }
+
+    return status as LeadStatus;
+  }
+
+  private parseScore(value: any): number {
+    const score = Number(value);
+
+    if (!Number.isInteger(score)) {
+      throw new Error(`Score inválido: ${value}`);
+    }
+
+    return score;
+  }
+
+  private parseTags(value: any): string[] {
+    const list = Array.isArray(value) ? value : String(value ?? '').split(',');
+
+    return Array.from(new Set(list.map(tag => String(tag).trim()).filter(Boolean)));
+  }
+
+  private mergeMetadata(current: Prisma.JsonValue, changes: any): Prisma.InputJsonObject {
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+      throw new Error('metadata deve ser um objeto');
+    }
+
+    const base = current && typeof current === 'object' && !Array.isArray(current) ? current : {};
+
+    return { ...(base as Prisma.JsonObject), ...changes };
+  }
+}
+
+export default new CrmOperationService();
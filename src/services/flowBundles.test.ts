@@ -0,0 +1,166 @@
+jest.mock('../index', () => ({ io: { to: () => ({ emit: jest.fn() }) } }));
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('./flowSteps', () => ({ __esModule: true, default: { getDraftSteps: jest.fn(), replaceDraft: jest.fn() } }));
+jest.mock('./flowVersions', () => ({ __esModule: true, default: { publish: jest.fn() } }));
+jest.mock('./flowSchedules', () => ({ __esModule: true, default: { sync: jest.fn() } }));
+jest.mock('../utils/database', () => {
+  const records = () => ({ findMany: jest.fn(async () => []) });
+  const tx = { flow: { create: jest.fn() } };
+  return {
+    __esModule: true,
+    default: {
+      tx,
+      flow: { ...records(), findFirst: jest.fn() },
+      bot: records(),
+      user: records(),
+      aIAssistant: records(),
+      kanbanColumn: records(),
+      $transaction: jest.fn((cb: any) => cb(tx))
+    }
+  };
+});
+
+import prisma from '../utils/database';
+import flowStepService from './flowSteps';
+import flowVersionService from './flowVersions';
+import flowBundleService, { FLOW_BUNDLE_FORMAT, FlowBundle, validateFlowBundle } from './flowBundles';
+
+const db = prisma as any;
+
+const bundleFlow = (key: string, steps: any[], extra: any = {}) => ({
+  key,
+  name: `Fluxo ${key}`,
+  priority: 0,
+  isActive: true,
+  triggers: [],
+  eventTriggers: [],
+  steps,
+  ...extra
+});
+
+const bundle = (flows: any[], rootFlowKey = flows[0]?.key): FlowBundle => ({
+  format: FLOW_BUNDLE_FORMAT,
+  version: 1,
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  rootFlowKey,
+  flows
+});
+
+const subFlow = (id: string, flowId: string) => ({ id, type: 'SUB_FLOW', config: { flowId } });
+const hello = [{ id: 'm', type: 'MESSAGE', config: { message: 'oi' } }];
+
+// Steps gravados por replaceDraft, por id do novo fluxo
+function importedSteps(): Map<string, any[]> {
+  return new Map((flowStepService.replaceDraft as jest.Mock).mock.calls.map(([id, steps]) => [id, steps]));
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('validateFlowBundle', () => {
+  it('aceita um pacote com sub-fluxos', () => {
+    expect(validateFlowBundle(bundle([
+      bundleFlow('main', [subFlow('call', 'child')]),
+      bundleFlow('child', hello)
+    ]))).toEqual([]);
+  });
+
+  it('recusa formato e versão desconhecidos', () => {
+    expect(validateFlowBundle({ ...bundle([]), format: 'outro' })).toEqual([`Formato de pacote inválido (esperado "${FLOW_BUNDLE_FORMAT}")`]);
+    expect(validateFlowBundle({ ...bundle([bundleFlow('main', hello)]), version: 2 })).toEqual(['Versão de pacote não suportada: 2']);
+    expect(validateFlowBundle(bundle([]))).toEqual(['Pacote deve conter ao menos um fluxo']);
+  });
+
+  it('recusa keys duplicadas e rootFlowKey desconhecida', () => {
+    expect(validateFlowBundle(bundle([bundleFlow('main', hello), bundleFlow('main', hello)], 'outro'))).toEqual([
+      'Fluxo "Fluxo main": key duplicada "main"',
+      'rootFlowKey "outro" não corresponde a nenhum fluxo do pacote'
+    ]);
+  });
+
+  it('recusa sub-fluxos do pacote que formam um ciclo', () => {
+    expect(validateFlowBundle(bundle([
+      bundleFlow('a', [subFlow('call', 'b')]),
+      bundleFlow('b', [subFlow('call', 'a')])
+    ]))).toEqual(['Sub-fluxos formam um ciclo: a → b → a']);
+  });
+});
+
+describe('FlowBundleService.import', () => {
+  it('cria os fluxos com ids novos e reescreve as chamadas SUB_FLOW entre eles', async () => {
+    const result = await flowBundleService.import('company-1', bundle([
+      bundleFlow('main', [subFlow('call', 'child')]),
+      bundleFlow('child', hello)
+    ]));
+
+    const [main, child] = result.flows;
+    expect(main.id).not.toBe('main');
+    expect(child.id).not.toBe('child');
+    expect(db.tx.flow.create).toHaveBeenCalledWith({ data: expect.objectContaining({ id: main.id, companyId: 'company-1' }) });
+    expect(importedSteps().get(main.id!)![0].config.flowId).toBe(child.id);
+    expect(result.missingDependencies).toEqual([]);
+  });
+
+  it('troca referências pelos mapeamentos e publica só os fluxos sem dependências faltando', async () => {
+    db.user.findMany.mockResolvedValue([{ id: 'user-destino' }]);
+
+    const result = await flowBundleService.import('company-1', bundle([
+      bundleFlow('main', [{ id: 'h', type: 'HANDOFF', config: { userId: 'user-origem' } }]),
+      bundleFlow('other', [{ id: 'a', type: 'ACTION', config: { action: 'assign_conversation', parameters: { userId: 'user-sumido' } } }])
+    ]), { mappings: { user: { 'user-origem': 'user-destino' } }, publish: true, userId: 'user-1' });
+
+    expect(importedSteps().get(result.flows[0].id!)![0].config.userId).toBe('user-destino');
+    expect(result.missingDependencies).toEqual([{ type: 'user', id: 'user-sumido', flowKey: 'other', stepId: 'a' }]);
+    expect(result.flows.map(flow => flow.published)).toEqual([true, false]);
+    expect(flowVersionService.publish).toHaveBeenCalledTimes(1);
+    expect(flowVersionService.publish).toHaveBeenCalledWith(result.flows[0].id, expect.any(Array), { notes: 'Importado de pacote', userId: 'user-1' });
+  });
+
+  it('reporta sub-fluxos fora do pacote que não existem na empresa', async () => {
+    const result = await flowBundleService.import('company-1', bundle([bundleFlow('main', [subFlow('call', 'flow-externo')])]), { dryRun: true });
+
+    expect(result.missingDependencies).toEqual([{ type: 'flow', id: 'flow-externo', flowKey: 'main', stepId: 'call' }]);
+  });
+
+  it('em dry run não grava nada', async () => {
+    const result = await flowBundleService.import('company-1', bundle([
+      bundleFlow('main', [subFlow('call', 'child')]),
+      bundleFlow('child', hello)
+    ]), { dryRun: true });
+
+    expect(result).toEqual({
+      flows: [
+        { key: 'main', id: null, name: 'Fluxo main', published: false },
+        { key: 'child', id: null, name: 'Fluxo child', published: false }
+      ],
+      missingDependencies: []
+    });
+    expect(db.$transaction).not.toHaveBeenCalled();
+    expect(flowStepService.replaceDraft).not.toHaveBeenCalled();
+  });
+});
+
+describe('FlowBundleService.export', () => {
+  it('inclui os sub-fluxos alcançáveis uma única vez', async () => {
+    const flows: any = {
+      main: { id: 'main', name: 'Principal', triggers: [], eventTriggers: [], priority: 0, isActive: true },
+      child: { id: 'child', name: 'Filho', triggers: [], eventTriggers: [], priority: 0, isActive: true }
+    };
+    db.flow.findFirst.mockImplementation(async ({ where }: any) => flows[where.id] ?? null);
+    (flowStepService.getDraftSteps as jest.Mock).mockImplementation(async (id: string) => (
+      id === 'main' ? [subFlow('a', 'child'), subFlow('b', 'child')] : [subFlow('c', 'main')]
+    ));
+
+    const exported = await flowBundleService.export('company-1', 'main');
+
+    expect(exported?.rootFlowKey).toBe('main');
+    expect(exported?.flows.map(flow => flow.key)).toEqual(['main', 'child']);
+  });
+
+  it('retorna null quando o fluxo não pertence à empresa', async () => {
+    db.flow.findFirst.mockResolvedValue(null);
+
+    expect(await flowBundleService.export('company-1', 'main')).toBeNull();
+  });
+});
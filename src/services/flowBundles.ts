@@ -0,0 +1,400 @@
+import { randomUUID } from 'crypto';
+import prisma from '../utils/database';
+import logger from '../utils/logger';
+import { WorkflowStepDefinition } from '../types';
+import { getSubFlowIds, normalizeSteps, validateFlowGraph } from './workflowGraph';
+import { validateTriggers } from './flowTriggers';
+import { normalizeEventTriggers, validateEventTriggers } from './flowEvents';
+import { findCycleFrom } from './subFlows';
+import flowVersionService from './flowVersions';
+import flowScheduleService from './flowSchedules';
+import flowStepService from './flowSteps';
+
+/**
+ * Pacote JSON portátil com um fluxo (steps do rascunho e gatilhos) e todos
+ * os sub-fluxos que ele chama, direta ou indiretamente.
+ * Os fluxos são identificados por "key" (o id na empresa de origem); na importação
+ * cada um recebe um id novo e as chamadas SUB_FLOW são reescritas.
+ */
+export const FLOW_BUNDLE_FORMAT = 'n2b.flow-bundle';
+export const FLOW_BUNDLE_VERSION = 1;
+export const MAX_BUNDLE_FLOWS = 50;
+
+export type FlowDependencyType = 'flow' | 'bot' | 'user' | 'aiAssistant' | 'kanbanColumn';
+
+// Chaves de config que referenciam registros da empresa
+const DEPENDENCY_KEYS: { [key: string]: FlowDependencyType } = {
+  userId: 'user',
+  assignedTo: 'user',
+  assistantId: 'aiAssistant',
+  aiAssistantId: 'aiAssistant',
+  columnId: 'kanbanColumn'
+};
+
+export interface BundleFlow {
+  key: string;
+  name: string;
+  description?: string | null;
+  category?: string | null;
+  priority: number;
+  isActive: boolean;
+  botId?: string | null;
+  triggers: string[];
+  eventTriggers: any[];
+  steps: WorkflowStepDefinition[];
+}
+
+export interface FlowBundle {
+  format: typeof FLOW_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  rootFlowKey: string;
+  flows: BundleFlow[];
+}
+
+export interface FlowDependency {
+  type: FlowDependencyType;
+  id: string;
+  flowKey: string;
+  stepId?: string;
+}
+
+// Ids da empresa de origem → ids equivalentes na empresa de destino
+export type FlowDependencyMappings = { [type in FlowDependencyType]?: { [sourceId: string]: string } };
+
+export interface FlowImportOptions {
+  mappings?: FlowDependencyMappings;
+  publish?: boolean;
+  dryRun?: boolean;
+  userId?: string;
+}
+
+export interface FlowImportResult {
+  flows: { key: string; id: string | null; name: string; published: boolean }[];
+  missingDependencies: FlowDependency[];
+}
+
+/**
+ * Valida a estrutura de um pacote antes da importação.
+ * Retorna a lista de erros encontrados (vazia quando o pacote é válido).
+ */
+export function validateFlowBundle(bundle: any): string[] {
+  if (!bundle || typeof bundle !== 'object' || Array.isArray(bundle)) {
+    return ['Pacote deve ser um objeto'];
+  }
+
+  if (bundle.format !== FLOW_BUNDLE_FORMAT) {
+    return [`Formato de pacote inválido (esperado "${FLOW_BUNDLE_FORMAT}")`];
+  }
+
+  if (!Number.isInteger(bundle.version) || bundle.version < 1 || bundle.version > FLOW_BUNDLE_VERSION) {
+    return [`Versão de pacote não suportada: ${bundle.version}`];
+  }
+
+  if (!Array.isArray(bundle.flows) || bundle.flows.length === 0) {
+    return ['Pacote deve conter ao menos um fluxo'];
+  }
+
+  if (bundle.flows.length > MAX_BUNDLE_FLOWS) {
+    return [`Pacote excede o limite de ${MAX_BUNDLE_FLOWS} fluxos`];
+  }
+
+  const errors: string[] = [];
+  const keys = new Set<string>();
+
+  for (const flow of bundle.flows) {
+    if (!flow || typeof flow !== 'object' || typeof flow.key !== 'string' || !flow.key) {
+      errors.push('Todo fluxo do pacote precisa de uma key');
+      continue;
+    }
+
+    const label = `Fluxo "${flow.name || flow.key}"`;
+
+    if (keys.has(flow.key)) {
+      errors.push(`${label}: key duplicada "${flow.key}"`);
+    }
+    keys.add(flow.key);
+
+    if (typeof flow.name !== 'string' || !flow.name.trim()) {
+      errors.push(`${label}: nome é obrigatório`);
+    }
+
+    const flowErrors = [
+      ...validateTriggers(flow.triggers),
+      ...validateEventTriggers(flow.eventTriggers ?? []),
+      ...validateFlowGraph(flow.steps)
+    ];
+    errors.push(...flowErrors.map(error => `${label}: ${error}`));
+  }
+
+  if (!keys.has(bundle.rootFlowKey)) {
+    errors.push(`rootFlowKey "${bundle.rootFlowKey}" não corresponde a nenhum fluxo do pacote`);
+  }
+
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  // Só chamadas entre fluxos do pacote podem fechar um ciclo
+  const calls = new Map<string, string[]>(bundle.flows.map((flow: BundleFlow) => [
+    flow.key,
+    getSubFlowIds(flow.steps).filter(id => keys.has(id))
+  ]));
+
+  for (const key of Array.from(keys)) {
+    const cycle = findCycleFrom(key, calls);
+    if (cycle) {
+      errors.push(`Sub-fluxos formam um ciclo: ${cycle.join(' → ')}`);
+      break;
+    }
+  }
+
+  return errors;
+}
+
+// Valores com template ({{...}}) são resolvidos na execução, não são dependências fixas
+function isFixedId(value: any): value is string {
+  return typeof value === 'string' && value.length > 0 && !value.includes('{{');
+}
+
+/**
+ * Percorre um config procurando referências a registros da empresa e devolve uma
+ * cópia em que cada referência é trocada pelo id retornado por "visit" (se houver).
+ */
+function walkReferences(
+  value: any,
+  visit: (type: FlowDependencyType, id: string) => string | undefined
+): any {
+  if (Array.isArray(value)) {
+    return value.map(item => walkReferences(item, visit));
+  }
+
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => {
+    const type = DEPENDENCY_KEYS[key];
+
+    if (type && isFixedId(item)) {
+      return [key, visit(type, item) ?? item];
+    }
+
+    return [key, walkReferences(item, visit)];
+  }));
+}
+
+export class FlowBundleService {
+  /**
+   * Exporta o rascunho do fluxo e de todos os sub-fluxos alcançáveis.
+   * Retorna null se o fluxo não existir na empresa.
+   */
+  async export(companyId: string, flowId: string): Promise<FlowBundle | null> {
+    const flows: BundleFlow[] = [];
+    const pending = [flowId];
+    const seen = new Set<string>();
+
+    while (pending.length > 0) {
+      const id = pending.shift()!;
+
+      if (seen.has(id)) {
+        continue;
+      }
+      seen.add(id);
+
+      const flow = await prisma.flow.findFirst({
+        where: { id, companyId }
+      });
+
+      if (!flow) {
+        // O fluxo principal precisa existir; sub-fluxos ausentes viram dependência na importação
+        if (id === flowId) {
+          return null;
+        }
+        continue;
+      }
+
+      const steps = await flowStepService.getDraftSteps(flow.id);
+
+      flows.push({
+        key: flow.id,
+        name: flow.name,
+        description: flow.description,
+        category: flow.category,
+        priority: flow.priority,
+        isActive: flow.isActive,
+        botId: flow.botId,
+        triggers: flow.triggers,
+        eventTriggers: normalizeEventTriggers(flow.eventTriggers),
+        steps
+      });
+
+      pending.push(...getSubFlowIds(steps));
+    }
+
+    logger.info('Flow exportado', { flowId, companyId, flows: flows.length });
+
+    return {
+      format: FLOW_BUNDLE_FORMAT,
+      version: FLOW_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      rootFlowKey: flowId,
+      flows
+    };
+  }
+
+  /**
+   * Importa um pacote já validado (validateFlowBundle) como novos fluxos da empresa.
+   * Referências a usuários, assistentes, bots, colunas e fluxos fora do pacote
+   * são trocadas pelas "mappings" informadas; as que não existirem na empresa são
+   * reportadas e o fluxo afetado é importado apenas como rascunho.
+   */
+  async import(companyId: string, bundle: FlowBundle, options: FlowImportOptions = {}): Promise<FlowImportResult> {
+    const mappings = options.mappings ?? {};
+    const flowIds = new Map(bundle.flows.map(flow => [flow.key, options.dryRun ? null : randomUUID()]));
+
+    const remap = (type: FlowDependencyType, id: string) => mappings[type]?.[id];
+
+    const flows = bundle.flows.map(flow => ({
+      flow,
+      botId: flow.botId ? remap('bot', flow.botId) ?? flow.botId : null,
+      steps: normalizeSteps(flow.steps).map(step => this.remapStep(step, flowIds, remap))
+    }));
+
+    const missingDependencies = await this.findMissingDependencies(
+      companyId,
+      flows.flatMap(({ flow, botId, steps }) => this.collectDependencies(flow.key, botId, steps, flowIds))
+    );
+
+    const blocked = new Set(missingDependencies.map(dependency => dependency.flowKey));
+
+    if (options.dryRun) {
+      return {
+        flows: bundle.flows.map(flow => ({ key: flow.key, id: null, name: flow.name, published: false })),
+        missingDependencies
+      };
+    }
+
+    const missingBots = new Set(missingDependencies.filter(d => d.type === 'bot').map(d => d.flowKey));
+
+    await prisma.$transaction(async (tx) => {
+      for (const { flow, botId, steps } of flows) {
+        const id = flowIds.get(flow.key)!;
+
+        await tx.flow.create({
+          data: {
+            id,
+            name: flow.name,
+            description: flow.description,
+            category: flow.category,
+            priority: Number(flow.priority) || 0,
+            isActive: flow.isActive !== false,
+            triggers: flow.triggers,
+            eventTriggers: normalizeEventTriggers(flow.eventTriggers ?? []) as any,
+            botId: missingBots.has(flow.key) ? null : botId,
+            companyId
+          }
+        });
+
+        await flowStepService.replaceDraft(id, steps, tx);
+      }
+    });
+
+    const result: FlowImportResult['flows'] = [];
+
+    for (const { flow, steps } of flows) {
+      const id = flowIds.get(flow.key)!;
+      const publish = Boolean(options.publish) && !blocked.has(flow.key);
+
+      if (publish) {
+        await flowVersionService.publish(id, steps, { notes: 'Importado de pacote', userId: options.userId });
+        await flowScheduleService.sync(id);
+      }
+
+      result.push({ key: flow.key, id, name: flow.name, published: publish });
+    }
+
+    logger.info('Pacote de flows importado', {
+      companyId,
+      flows: result.length,
+      missingDependencies: missingDependencies.length
+    });
+
+    return { flows: result, missingDependencies };
+  }
+
+  private remapStep(
+    step: WorkflowStepDefinition,
+    flowIds: Map<string, string | null>,
+    remap: (type: FlowDependencyType, id: string) => string | undefined
+  ): WorkflowStepDefinition {
+    const config = walkReferences(step.config, remap);
+
+    if (step.type === 'SUB_FLOW' && isFixedId(config.flowId)) {
+      config.flowId = flowIds.has(config.flowId)
+        ? flowIds.get(config.flowId) ?? config.flowId
+        : remap('flow', config.flowId) ?? config.flowId;
+    }
+
+    return { ...step, config };
+  }
+
+  private collectDependencies(
+    flowKey: string,
+    botId: string | null,
+    steps: WorkflowStepDefinition[],
+    flowIds: Map<string, string | null>
+  ): FlowDependency[] {
+    const dependencies: FlowDependency[] = [];
+    const newFlowIds = new Set(flowIds.values());
+
+    if (botId) {
+      dependencies.push({ type: 'bot', id: botId, flowKey });
+    }
+
+    for (const step of steps) {
+      walkReferences(step.config, (type, id) => {
+        dependencies.push({ type, id, flowKey, stepId: step.id });
+        return undefined;
+      });
+
+      const calledId = step.config?.flowId;
+      // Em dry run os fluxos do pacote ainda não têm id novo e o flowId continua sendo a key
+      if (step.type === 'SUB_FLOW' && isFixedId(calledId) && !newFlowIds.has(calledId) && !flowIds.has(calledId)) {
+        dependencies.push({ type: 'flow', id: calledId, flowKey, stepId: step.id });
+      }
+    }
+
+    return dependencies;
+  }
+
+  private async findMissingDependencies(companyId: string, dependencies: FlowDependency[]): Promise<FlowDependency[]> {
+    const idsOf = (type: FlowDependencyType) => Array.from(new Set(
+      dependencies.filter(dependency => dependency.type === type).map(dependency => dependency.id)
+    ));
+
+    const [flows, bots, users, assistants, columns] = await Promise.all([
+      prisma.flow.findMany({ where: { id: { in: idsOf('flow') }, companyId }, select: { id: true } }),
+      prisma.bot.findMany({ where: { id: { in: idsOf('bot') }, companyId }, select: { id: true } }),
+      prisma.user.findMany({ where: { id: { in: idsOf('user') }, companyId }, select: { id: true } }),
+      prisma.aIAssistant.findMany({ where: { id: { in: idsOf('aiAssistant') }, companyId }, select: { id: true } }),
+      prisma.kanbanColumn.findMany({ where: { id: { in: idsOf('kanbanColumn') }, board: { companyId } }, select: { id: true } })
+    ]);
+
+    const existing = new Set([...flows, ...bots, ...users, ...assistants, ...columns].map(record => record.id));
+    const reported = new Set<string>();
+
+    return dependencies.filter(dependency => {
+      const key = `${dependency.type}:${dependency.id}:${dependency.flowKey}:${dependency.stepId ?? ''}`;
+
+      if (existing.has(dependency.id) || reported.has(key)) {
+        return false;
+      }
+
+      reported.add(key);
+      return true;
+    });
+  }
+}
+
+export default new FlowBundleService();
@@ -0,0 +1,175 @@
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('./workflowScheduler', () => ({ __esModule: true, default: { schedule: jest.fn() } }));
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: {
+    conversation: { findFirst: jest.fn(), findMany: jest.fn() },
+    flow: { findFirst: jest.fn(), findMany: jest.fn() },
+    workflowExecution: {
+      findFirst: jest.fn(),
+      create: jest.fn(async ({ data }: any) => ({ id: `execution-${data.conversationId}`, ...data }))
+    }
+  }
+}));
+
+import prisma from '../utils/database';
+import workflowScheduler from './workflowScheduler';
+import flowEventService, { normalizeEventTriggers, validateEventTriggers } from './flowEvents';
+
+const db = prisma as any;
+
+const flow = (eventTriggers: any[], extra: any = {}) => ({
+  id: 'flow-1',
+  companyId: 'company-1',
+  botId: null,
+  publishedVersionId: 'version-1',
+  eventTriggers,
+  ...extra
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  db.conversation.findFirst.mockResolvedValue({ id: 'conversation-1', botId: null, botPaused: false });
+  db.workflowExecution.findFirst.mockResolvedValue(null);
+});
+
+describe('normalizeEventTriggers', () => {
+  it('gera ids pela posição para gatilhos sem id', () => {
+    expect(normalizeEventTriggers([{ type: 'conversation.closed' }, { id: 7, type: 'kanban.card_moved' }])).toEqual([
+      { id: 'trigger_1', type: 'conversation.closed' },
+      { id: '7', type: 'kanban.card_moved' }
+    ]);
+    expect(normalizeEventTriggers(null)).toEqual([]);
+  });
+});
+
+describe('validateEventTriggers', () => {
+  it('aceita agendamentos e eventos válidos', () => {
+    expect(validateEventTriggers([
+      { type: 'schedule', cron: '0 9 * * 1', timezone: 'America/Recife', conversations: { status: 'WAITING', idleHours: 24, limit: 50 } },
+      { type: 'lead.status_changed', filter: { to: 'WON' } }
+    ])).toEqual([]);
+  });
+
+  it('recusa cron, fuso horário e filtro de conversas inválidos', () => {
+    expect(validateEventTriggers([
+      { id: 'diario', type: 'schedule', cron: 'todo dia', timezone: 'Marte/Olympus', conversations: { status: 'OPEN', idleHours: 0, limit: 1000 } }
+    ])).toEqual([
+      'Gatilho "diario": expressão cron inválida "todo dia"',
+      'Gatilho "diario": fuso horário inválido "Marte/Olympus"',
+      'Gatilho "diario": conversations.status inválido "OPEN"',
+      'Gatilho "diario": conversations.idleHours deve ser maior que zero',
+      'Gatilho "diario": conversations.limit deve ser um inteiro entre 1 e 500'
+    ]);
+  });
+
+  it('exige o filtro de conversas nos agendamentos', () => {
+    expect(validateEventTriggers([{ type: 'schedule', cron: '* * * * *' }])).toEqual([
+      'Gatilho "trigger_1": conversations é obrigatório (ex.: { "status": "WAITING" })'
+    ]);
+  });
+
+  it('recusa tipos desconhecidos, campos de filtro não suportados e ids duplicados', () => {
+    expect(validateEventTriggers([
+      { id: 'a', type: 'lead.deleted' },
+      { id: 'a', type: 'lead.status_changed', filter: { status: 'WON' } },
+      { id: 'b', type: 'conversation.closed', filter: ['conversationId'] }
+    ])).toEqual([
+      'Gatilho "a": tipo não suportado "lead.deleted"',
+      'Gatilho "a": id duplicado',
+      'Gatilho "a": campo de filtro não suportado "status" (use: leadId, from, to)',
+      'Gatilho "b": filter deve ser um objeto'
+    ]);
+    expect(validateEventTriggers({})).toEqual(['eventTriggers deve ser um array']);
+  });
+});
+
+describe('FlowEventService.emit', () => {
+  const event = {
+    type: 'lead.status_changed' as const,
+    companyId: 'company-1',
+    conversationId: 'conversation-1',
+    payload: { leadId: 'lead-1', from: 'NEW', to: 'WON' }
+  };
+
+  it('inicia o primeiro fluxo cujo filtro confere com o evento', async () => {
+    db.flow.findMany.mockResolvedValue([
+      flow([{ id: 'lost', type: 'lead.status_changed', filter: { to: 'LOST' } }], { id: 'flow-lost' }),
+      flow([{ id: 'won', type: 'lead.status_changed', filter: { to: 'WON' } }], { id: 'flow-won' })
+    ]);
+
+    expect(await flowEventService.emit(event)).toBe(true);
+
+    expect(db.workflowExecution.create).toHaveBeenCalledTimes(1);
+    expect(db.workflowExecution.create.mock.calls[0][0].data).toMatchObject({
+      flowId: 'flow-won',
+      flowVersionId: 'version-1',
+      conversationId: 'conversation-1',
+      data: { trigger: { type: 'lead.status_changed', triggerId: 'won' }, event: event.payload }
+    });
+    expect(workflowScheduler.schedule).toHaveBeenCalledWith('execution-conversation-1');
+  });
+
+  it('não dispara fluxos em conversas com atendente humano', async () => {
+    db.conversation.findFirst.mockResolvedValue({ id: 'conversation-1', botId: null, botPaused: true });
+
+    expect(await flowEventService.emit(event)).toBe(false);
+    expect(db.flow.findMany).not.toHaveBeenCalled();
+  });
+
+  it('não dispara quando a conversa já tem workflow em andamento', async () => {
+    db.workflowExecution.findFirst.mockResolvedValue({ id: 'execution-0' });
+
+    expect(await flowEventService.emit(event)).toBe(false);
+    expect(db.workflowExecution.create).not.toHaveBeenCalled();
+  });
+
+  it('usa a conversa mais recente do cliente quando o evento não informa uma', async () => {
+    db.conversation.findFirst
+      .mockResolvedValueOnce({ id: 'conversation-9' })
+      .mockResolvedValueOnce({ id: 'conversation-9', botId: null, botPaused: false });
+    db.flow.findMany.mockResolvedValue([flow([{ type: 'conversation.closed' }])]);
+
+    const fired = await flowEventService.emit({ type: 'conversation.closed', companyId: 'company-1', customerId: 'customer-1', payload: {} });
+
+    expect(fired).toBe(true);
+    expect(db.conversation.findFirst.mock.calls[0][0].where).toEqual({ companyId: 'company-1', customerId: 'customer-1' });
+    expect(db.workflowExecution.create.mock.calls[0][0].data.conversationId).toBe('conversation-9');
+  });
+
+  it('não lança quando o banco falha', async () => {
+    db.conversation.findFirst.mockRejectedValue(new Error('conexão perdida'));
+
+    expect(await flowEventService.emit(event)).toBe(false);
+  });
+});
+
+describe('FlowEventService.runSchedule', () => {
+  it('inicia o fluxo em cada conversa do filtro, respeitando o limite máximo', async () => {
+    db.flow.findFirst.mockResolvedValue(flow([
+      { id: 'semanal', type: 'schedule', cron: '0 9 * * 1', conversations: { status: 'WAITING', idleHours: 2, limit: 900 } }
+    ]));
+    db.conversation.findMany.mockResolvedValue([{ id: 'conversation-1' }, { id: 'conversation-2' }]);
+
+    expect(await flowEventService.runSchedule('flow-1', 'semanal')).toBe(2);
+
+    const query = db.conversation.findMany.mock.calls[0][0];
+    expect(query.where).toMatchObject({
+      companyId: 'company-1',
+      status: 'WAITING',
+      botPaused: false,
+      workflowExecutions: { none: { status: { in: ['RUNNING', 'PAUSED'] } } }
+    });
+    expect(query.where.updatedAt.lt).toBeInstanceOf(Date);
+    expect(query.take).toBe(500);
+    expect(db.workflowExecution.create).toHaveBeenCalledTimes(2);
+    expect(db.workflowExecution.create.mock.calls[0][0].data.data.trigger).toMatchObject({ type: 'schedule', triggerId: 'semanal' });
+  });
+
+  it('ignora gatilhos que não existem mais no fluxo', async () => {
+    db.flow.findFirst.mockResolvedValue(flow([{ id: 'outro', type: 'conversation.closed' }]));
+
+    expect(await flowEventService.runSchedule('flow-1', 'semanal')).toBe(0);
+    expect(db.conversation.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,407 @@
+import { ConversationStatus } from '@prisma/client';
+import cron from 'node-cron';
+import prisma from '../utils/database';
+import logger from '../utils/logger';
+import workflowScheduler from './workflowScheduler';
+
+/**
+ * Gatilhos armazenados em Flow.eventTriggers (além dos gatilhos de mensagem):
+ * - { type: "schedule", cron: "0 9 * * 1", timezone?, conversations: { status, idleHours?, limit? } }
+ *   → roda o fluxo para cada conversa que atende ao filtro, no horário do cron
+ * - { type: "<evento>", filter?: { campo: valor } } → roda o fluxo quando o evento
+ *   acontece e todos os campos do filtro são iguais aos do evento
+ */
+export type FlowEventType =
+  | 'lead.status_changed'
+  | 'kanban.card_moved'
+  | 'conversation.closed'
+  | 'campaign.contact_replied';
+
+// Campos de cada evento que podem ser usados em filter
+export const FLOW_EVENT_FIELDS: { [type in FlowEventType]: string[] } = {
+  'lead.status_changed': ['leadId', 'from', 'to'],
+  'kanban.card_moved': ['cardId', 'leadId', 'boardId', 'fromColumnId', 'toColumnId'],
+  'conversation.closed': ['conversationId'],
+  'campaign.contact_replied': ['campaignId', 'contactId']
+};
+
+export interface ScheduleTrigger {
+  id: string;
+  type: 'schedule';
+  cron: string;
+  timezone?: string;
+  conversations: {
+    status: ConversationStatus;
+    // Só conversas sem atividade há pelo menos este número de horas
+    idleHours?: number;
+    limit?: number;
+  };
+}
+
+export interface EventTrigger {
+  id: string;
+  type: FlowEventType;
+  filter?: { [field: string]: string };
+}
+
+export type FlowEventTrigger = ScheduleTrigger | EventTrigger;
+
+export interface FlowEvent {
+  type: FlowEventType;
+  companyId: string;
+  // Conversa em que o fluxo roda; se ausente, é a conversa mais recente do cliente
+  conversationId?: string;
+  customerId?: string | null;
+  payload: { [field: string]: any };
+}
+
+export const DEFAULT_SCHEDULE_TIMEZONE = 'America/Sao_Paulo';
+export const MAX_SCHEDULE_CONVERSATIONS = 500;
+const DEFAULT_SCHEDULE_CONVERSATIONS = 100;
+
+// Respostas a campanhas só contam se chegarem até este número de dias após o envio
+const CAMPAIGN_REPLY_WINDOW_DAYS = 7;
+
+/**
+ * Garante que todos os gatilhos tenham id (derivado da posição quando ausente).
+ */
+export function normalizeEventTriggers(triggers: any): FlowEventTrigger[] {
+  if (!Array.isArray(triggers)) {
+    return [];
+  }
+
+  return triggers.map((trigger, index) => ({
+    ...trigger,
+    id: trigger?.id ? String(trigger.id) : `trigger_${index + 1}`
+  }));
+}
+
+/**
+ * Valida os gatilhos de agendamento e de evento de um fluxo.
+ * Retorna a lista de erros encontrados (vazia quando todos são válidos).
+ */
+export function validateEventTriggers(triggers: any): string[] {
+  if (!Array.isArray(triggers)) {
+    return ['eventTriggers deve ser um array'];
+  }
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  for (const trigger of normalizeEventTriggers(triggers)) {
+    const label = `Gatilho "${trigger.id}"`;
+
+    if (ids.has(trigger.id)) {
+      errors.push(`${label}: id duplicado`);
+    }
+    ids.add(trigger.id);
+
+    if (trigger.type === 'schedule') {
+      errors.push(...validateScheduleTrigger(trigger, label));
+      continue;
+    }
+
+    const fields = FLOW_EVENT_FIELDS[trigger.type as FlowEventType];
+
+    if (!fields) {
+      errors.push(`${label}: tipo não suportado "${trigger.type}"`);
+      continue;
+    }
+
+    if (trigger.filter === undefined) {
+      continue;
+    }
+
+    if (!trigger.filter || typeof trigger.filter !== 'object' || Array.isArray(trigger.filter)) {
+      errors.push(`${label}: filter deve ser um objeto`);
+      continue;
+    }
+
+    for (const field of Object.keys(trigger.filter)) {
+      if (!fields.includes(field)) {
+        errors.push(`${label}: campo de filtro não suportado "${field}" (use: ${fields.join(', ')})`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+function validateScheduleTrigger(trigger: ScheduleTrigger, label: string): string[] {
+  const errors: string[] = [];
+
+  if (typeof trigger.cron !== 'string' || !cron.validate(trigger.cron)) {
+    errors.push(`${label}: expressão cron inválida "${trigger.cron}"`);
+  }
+
+  if (trigger.timezone !== undefined) {
+    try {
+      new Intl.DateTimeFormat('pt-BR', { timeZone: trigger.timezone });
+    } catch {
+      errors.push(`${label}: fuso horário inválido "${trigger.timezone}"`);
+    }
+  }
+
+  const filter = trigger.conversations;
+
+  if (!filter || typeof filter !== 'object') {
+    errors.push(`${label}: conversations é obrigatório (ex.: { "status": "WAITING" })`);
+    return errors;
+  }
+
+  if (!Object.values(ConversationStatus).includes(filter.status)) {
+    errors.push(`${label}: conversations.status inválido "${filter.status}"`);
+  }
+
+  if (filter.idleHours !== undefined && !(Number(filter.idleHours) > 0)) {
+    errors.push(`${label}: conversations.idleHours deve ser maior que zero`);
+  }
+
+  if (filter.limit !== undefined && !(Number.isInteger(filter.limit) && filter.limit > 0 && filter.limit <= MAX_SCHEDULE_CONVERSATIONS)) {
+    errors.push(`${label}: conversations.limit deve ser um inteiro entre 1 e ${MAX_SCHEDULE_CONVERSATIONS}`);
+  }
+
+  return errors;
+}
+
+function matchesFilter(trigger: EventTrigger, payload: { [field: string]: any }): boolean {
+  return Object.entries(trigger.filter || {}).every(([field, value]) => String(payload[field] ?? '') === String(value));
+}
+
+export class FlowEventService {
+  /**
+   * Dispara o fluxo ativo de maior prioridade com gatilho para o evento.
+   * Não lança erros: falhas são registradas no log para não afetar quem emitiu o evento.
+   * Retorna true quando um workflow foi iniciado.
+   */
+  async emit(event: FlowEvent): Promise<boolean> {
+    try {
+      const conversationId = event.conversationId ?? await this.findCustomerConversation(event.companyId, event.customerId);
+
+      if (!conversationId) {
+        logger.info('Evento sem conversa associada, gatilhos de workflow ignorados', {
+          event: event.type,
+          companyId: event.companyId
+        });
+        return false;
+      }
+
+      const conversation = await prisma.conversation.findFirst({
+        where: { id: conversationId, companyId: event.companyId },
+        select: { id: true, botId: true, botPaused: true }
+      });
+
+      // Conversas com atendente humano não disparam fluxos
+      if (!conversation || conversation.botPaused || await this.hasActiveExecution(conversation.id)) {
+        return false;
+      }
+
+      const flows = await prisma.flow.findMany({
+        where: {
+          companyId: event.companyId,
+          isActive: true,
+          publishedVersionId: { not: null },
+          OR: [{ botId: null }, ...(conversation.botId ? [{ botId: conversation.botId }] : [])]
+        },
+        orderBy: [
+          { priority: 'desc' },
+          { createdAt: 'asc' }
+        ]
+      });
+
+      for (const flow of flows) {
+        const trigger = normalizeEventTriggers(flow.eventTriggers)
+          .find((t): t is EventTrigger => t.type === event.type && matchesFilter(t as EventTrigger, event.payload));
+
+        if (!trigger) {
+          continue;
+        }
+
+        const executionId = await this.startExecution(flow, conversation.id, {
+          trigger: { type: event.type, triggerId: trigger.id },
+          event: event.payload
+        });
+
+        logger.info('Workflow disparado por evento', {
+          executionId,
+          flowId: flow.id,
+          conversationId: conversation.id,
+          event: event.type
+        });
+
+        return true;
+      }
+
+      return false;
+    } catch (error: any) {
+      logger.error('Erro ao processar evento de workflow', {
+        event: event.type,
+        companyId: event.companyId,
+        error: error.message
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Roda um gatilho de agendamento: inicia o fluxo em cada conversa que atende
+   * ao filtro e não tem workflow em andamento. Retorna quantas execuções foram criadas.
+   */
+  async runSchedule(flowId: string, triggerId: string): Promise<number> {
+    const flow = await prisma.flow.findFirst({
+      where: { id: flowId, isActive: true, publishedVersionId: { not: null } }
+    });
+
+    const trigger = flow && normalizeEventTriggers(flow.eventTriggers)
+      .find((t): t is ScheduleTrigger => t.id === triggerId && t.type === 'schedule');
+
+    if (!flow || !trigger) {
+      return 0;
+    }
+
+    const { status, idleHours, limit = DEFAULT_SCHEDULE_CONVERSATIONS } = trigger.conversations;
+
+    const conversations = await prisma.conversation.findMany({
+      where: {
+        companyId: flow.companyId,
+        status,
+        botPaused: false,
+        ...(flow.botId && { botId: flow.botId }),
+        ...(idleHours && { updatedAt: { lt: new Date(Date.now() - Number(idleHours) * 60 * 60 * 1000) } }),
+        workflowExecutions: { none: { status: { in: ['RUNNING', 'PAUSED'] } } }
+      },
+      orderBy: { updatedAt: 'asc' },
+      take: Math.min(limit, MAX_SCHEDULE_CONVERSATIONS),
+      select: { id: true }
+    });
+
+    const firedAt = new Date().toISOString();
+
+    for (const conversation of conversations) {
+      await this.startExecution(flow, conversation.id, {
+        trigger: { type: 'schedule', triggerId: trigger.id, firedAt }
+      });
+    }
+
+    logger.info('Gatilho agendado de workflow executado', {
+      flowId,
+      triggerId,
+      executions: conversations.length
+    });
+
+    return conversations.length;
+  }
+
+  /**
+   * Registra a resposta de um contato a uma campanha recente e emite
+   * campaign.contact_replied. Retorna true quando um workflow foi iniciado.
+   */
+  async handleCampaignReply(inbound: { companyId: string; conversationId: string; message: { id: string } }): Promise<boolean> {
+    try {
+      const conversation = await prisma.conversation.findUnique({
+        where: { id: inbound.conversationId },
+        select: { customerId: true, customer: { select: { phone: true } } }
+      });
+
+      if (!conversation) {
+        return false;
+      }
+
+      const campaignContact = await prisma.campaignContact.findFirst({
+        where: {
+          repliedAt: null,
+          sentAt: { gte: new Date(Date.now() - CAMPAIGN_REPLY_WINDOW_DAYS * 24 * 60 * 60 * 1000) },
+          status: { in: ['SENT', 'DELIVERED', 'READ'] },
+          contact: {
+            companyId: inbound.companyId,
+            OR: [
+              { customerId: conversation.customerId },
+              ...(conversation.customer.phone ? [{ phone: conversation.customer.phone }] : [])
+            ]
+          }
+        },
+        orderBy: { sentAt: 'desc' }
+      });
+
+      if (!campaignContact) {
+        return false;
+      }
+
+      // Só a primeira resposta conta; respostas simultâneas não emitem o evento duas vezes
+      const claimed = await prisma.campaignContact.updateMany({
+        where: { id: campaignContact.id, repliedAt: null },
+        data: { repliedAt: new Date() }
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      return this.emit({
+        type: 'campaign.contact_replied',
+        companyId: inbound.companyId,
+        conversationId: inbound.conversationId,
+        payload: {
+          campaignId: campaignContact.campaignId,
+          contactId: campaignContact.contactId,
+          messageId: inbound.message.id
+        }
+      });
+    } catch (error: any) {
+      logger.error('Erro ao registrar resposta de campanha', {
+        conversationId: inbound.conversationId,
+        error: error.message
+      });
+      return false;
+    }
+  }
+
+  private async findCustomerConversation(companyId: string, customerId?: string | null): Promise<string | null> {
+    if (!customerId) {
+      return null;
+    }
+
+    const conversation = await prisma.conversation.findFirst({
+      where: { companyId, customerId },
+      orderBy: { updatedAt: 'desc' },
+      select: { id: true }
+    });
+
+    return conversation?.id ?? null;
+  }
+
+  private async hasActiveExecution(conversationId: string): Promise<boolean> {
+    const execution = await prisma.workflowExecution.findFirst({
+      where: {
+        conversationId,
+        status: { in: ['RUNNING', 'PAUSED'] }
+      },
+      select: { id: true }
+    });
+
+    return Boolean(execution);
+  }
+
+  private async startExecution(
+    flow: { id: string; companyId: string; publishedVersionId: string | null },
+    conversationId: string,
+    data: { [key: string]: any }
+  ): Promise<string> {
+    const execution = await prisma.workflowExecution.create({
+      data: {
+        flowId: flow.id,
+        flowVersionId: flow.publishedVersionId,
+        conversationId,
+        companyId: flow.companyId,
+        status: 'RUNNING',
+        data
+      }
+    });
+
+    await workflowScheduler.schedule(execution.id);
+
+    return execution.id;
+  }
+}
+
+export default new FlowEventService();
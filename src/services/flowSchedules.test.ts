@@ -0,0 +1,77 @@
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('node-cron', () => ({ __esModule: true, default: { schedule: jest.fn(() => ({ stop: jest.fn() })), validate: jest.fn(() => true) } }));
+jest.mock('./flowEvents', () => ({
+  ...jest.requireActual('./flowEvents'),
+  __esModule: true,
+  default: { runSchedule: jest.fn(async () => 0) }
+}));
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { flow: { findFirst: jest.fn(), findMany: jest.fn() } }
+}));
+
+import cron from 'node-cron';
+import prisma from '../utils/database';
+import flowEventService from './flowEvents';
+import { FlowScheduleService } from './flowSchedules';
+
+const db = prisma as any;
+const schedule = cron.schedule as jest.Mock;
+
+const scheduledFlow = (eventTriggers: any[]) => ({ id: 'flow-1', eventTriggers });
+
+let service: FlowScheduleService;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  delete process.env.WORKFLOW_CRON_ENABLED;
+  service = new FlowScheduleService();
+});
+
+describe('FlowScheduleService', () => {
+  it('agenda cada gatilho "schedule" dos fluxos publicados ao iniciar', async () => {
+    db.flow.findMany.mockResolvedValue([{ id: 'flow-1' }]);
+    db.flow.findFirst.mockResolvedValue(scheduledFlow([
+      { id: 'manha', type: 'schedule', cron: '0 9 * * *', conversations: { status: 'WAITING' } },
+      { id: 'noite', type: 'schedule', cron: '0 21 * * *', timezone: 'America/Manaus', conversations: { status: 'WAITING' } },
+      { id: 'fechou', type: 'conversation.closed' }
+    ]));
+
+    await service.start();
+
+    expect(schedule).toHaveBeenCalledTimes(2);
+    expect(schedule.mock.calls[0][0]).toBe('0 9 * * *');
+    expect(schedule.mock.calls[0][2]).toEqual({ timezone: 'America/Sao_Paulo' });
+    expect(schedule.mock.calls[1][2]).toEqual({ timezone: 'America/Manaus' });
+
+    schedule.mock.calls[1][1]();
+    expect(flowEventService.runSchedule).toHaveBeenCalledWith('flow-1', 'noite');
+  });
+
+  it('para as tarefas antigas ao sincronizar um fluxo alterado ou desativado', async () => {
+    db.flow.findMany.mockResolvedValue([{ id: 'flow-1' }]);
+    db.flow.findFirst.mockResolvedValueOnce(scheduledFlow([
+      { id: 'manha', type: 'schedule', cron: '0 9 * * *', conversations: { status: 'WAITING' } }
+    ]));
+
+    await service.start();
+    const task = schedule.mock.results[0].value;
+
+    db.flow.findFirst.mockResolvedValueOnce(null);
+    await service.sync('flow-1');
+
+    expect(task.stop).toHaveBeenCalled();
+    expect(schedule).toHaveBeenCalledTimes(1);
+  });
+
+  it('não agenda nada com WORKFLOW_CRON_ENABLED=false', async () => {
+    process.env.WORKFLOW_CRON_ENABLED = 'false';
+
+    await service.start();
+    await service.sync('flow-1');
+
+    expect(db.flow.findMany).not.toHaveBeenCalled();
+    expect(db.flow.findFirst).not.toHaveBeenCalled();
+    expect(schedule).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,90 @@
+import cron, { ScheduledTask } from 'node-cron';
+import prisma from '../utils/database';
+import logger from '../utils/logger';
+import flowEventService, { DEFAULT_SCHEDULE_TIMEZONE, normalizeEventTriggers, ScheduleTrigger } from './flowEvents';
+
+/**
+ * Mantém uma tarefa node-cron para cada gatilho "schedule" de fluxos ativos.
+ * Com várias instâncias da API, habilite os agendamentos em apenas uma
+ * (WORKFLOW_CRON_ENABLED=false nas demais) para não disparar os fluxos em dobro.
+ */
+export class FlowScheduleService {
+  // Tarefas por fluxo
+  private tasks = new Map<string, ScheduledTask[]>();
+  private started = false;
+
+  isEnabled(): boolean {
+    return process.env.WORKFLOW_CRON_ENABLED !== 'false';
+  }
+
+  async start(): Promise<void> {
+    if (!this.isEnabled()) {
+      logger.info('Gatilhos agendados de workflow desabilitados (WORKFLOW_CRON_ENABLED=false)');
+      return;
+    }
+
+    this.started = true;
+
+    const flows = await prisma.flow.findMany({
+      where: { isActive: true, publishedVersionId: { not: null } },
+      select: { id: true }
+    });
+
+    for (const flow of flows) {
+      await this.sync(flow.id);
+    }
+
+    logger.info('Gatilhos agendados de workflow iniciados', { flows: this.tasks.size });
+  }
+
+  /**
+   * Recria as tarefas de um fluxo a partir do estado atual no banco.
+   * Chamado ao criar, alterar, publicar ou remover um fluxo.
+   */
+  async sync(flowId: string): Promise<void> {
+    if (!this.started) {
+      return;
+    }
+
+    this.unschedule(flowId);
+
+    const flow = await prisma.flow.findFirst({
+      where: { id: flowId, isActive: true, publishedVersionId: { not: null } },
+      select: { id: true, eventTriggers: true }
+    });
+
+    const schedules = flow
+      ? normalizeEventTriggers(flow.eventTriggers).filter((t): t is ScheduleTrigger => t.type === 'schedule')
+      : [];
+
+    if (schedules.length === 0) {
+      return;
+    }
+
+    this.tasks.set(flowId, schedules.map(trigger => cron.schedule(
+      trigger.cron,
+      () => {
+        flowEventService.runSchedule(flowId, trigger.id).catch(error => {
+          logger.error('Erro ao executar gatilho agendado de workflow', {
+            flowId,
+            triggerId: trigger.id,
+            error: error.message
+          });
+        });
+      },
+      { timezone: trigger.timezone || DEFAULT_SCHEDULE_TIMEZONE }
+    )));
+  }
+
+  stop(): void {
+    Array.from(this.tasks.keys()).forEach(flowId => this.unschedule(flowId));
+    this.started = false;
+  }
+
+  private unschedule(flowId: string): void {
+    this.tasks.get(flowId)?.forEach(task => task.stop());
+    this.tasks.delete(flowId);
+  }
+}
+
+export default new FlowScheduleService();
@@ -0,0 +1,76 @@
+jest.mock('../index', () => ({ io: { to: () => ({ emit: jest.fn() }) } }));
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('../utils/database', () => {
+  const tx = { workflowStep: { findMany: jest.fn(), updateMany: jest.fn() } };
+
+  return {
+    __esModule: true,
+    default: { tx, $transaction: jest.fn((callback: any) => callback(tx)) }
+  };
+});
+
+import prisma from '../utils/database';
+import flowStepService, { toStepDefinition } from './flowSteps';
+
+describe('FlowStepService.reorderDraftSteps', () => {
+  const { workflowStep } = (prisma as any).tx;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    workflowStep.findMany.mockResolvedValue([{ key: 'a' }, { key: 'b' }, { key: 'c' }]);
+  });
+
+  it('grava a posição de cada step do rascunho', async () => {
+    await flowStepService.reorderDraftSteps('flow-1', ['c', 'a', 'b']);
+
+    expect(workflowStep.updateMany.mock.calls.map(([{ where, data }]: any) => [where.key, data.order])).toEqual([
+      ['c', 0],
+      ['a', 1],
+      ['b', 2]
+    ]);
+    expect(workflowStep.updateMany.mock.calls[0][0].where).toMatchObject({ flowId: 'flow-1', flowVersionId: null });
+  });
+
+  it.each([
+    ['steps inexistentes', ['a', 'b', 'x']],
+    ['steps repetidos', ['a', 'b', 'b']],
+    ['steps faltando', ['a', 'b']]
+  ])('recusa uma ordem com %s sem alterar nada', async (_, keys) => {
+    await expect(flowStepService.reorderDraftSteps('flow-1', keys))
+      .rejects.toThrow('A nova ordem deve conter cada step do rascunho uma única vez');
+
+    expect(workflowStep.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('toStepDefinition', () => {
+  it('usa a key como id e espalha as arestas da linha', () => {
+    const row: any = {
+      id: 'row-1',
+      key: 'check',
+      name: 'Verifica VIP',
+      type: 'CONDITION',
+      config: { conditions: [] },
+      conditions: [],
+      actions: [],
+      edges: { onTrue: 'vip', onFalse: null },
+      retry: null,
+      continueOnError: false,
+      fallback: true,
+      order: 3
+    };
+
+    expect(toStepDefinition(row)).toEqual({
+      id: 'check',
+      name: 'Verifica VIP',
+      type: 'CONDITION',
+      config: { conditions: [] },
+      conditions: [],
+      actions: [],
+      onTrue: 'vip',
+      onFalse: null,
+      order: 3,
+      fallback: true
+    });
+  });
+});
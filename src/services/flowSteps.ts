@@ -0,0 +1,168 @@
+import { Prisma, StepType, WorkflowStep } from '@prisma/client';
+import prisma from '../utils/database';
+import { WorkflowStepDefinition } from '../types';
+import { normalizeSteps, WORKFLOW_STEP_EDGES } from './workflowGraph';
+
+type StepRowData = Omit<Prisma.WorkflowStepCreateManyInput, 'flowId' | 'flowVersionId'>;
+
+// Linhas inativas (anteriores à migração para linhas) ficam fora do rascunho
+const draftWhere = (flowId: string) => ({ flowId, flowVersionId: null, isActive: true });
+
+/**
+ * Converte uma linha de WorkflowStep na definição usada pelo grafo e pelo engine.
+ * O id do step é a "key" da linha, não o id do registro.
+ */
+export function toStepDefinition(row: WorkflowStep): WorkflowStepDefinition {
+  return {
+    ...(row.edges as Prisma.JsonObject),
+    id: row.key,
+    name: row.name,
+    type: row.type,
+    config: row.config,
+    conditions: row.conditions as any[],
+    actions: row.actions as any[],
+    order: row.order,
+    ...(row.retry !== null && { retry: row.retry as any }),
+    ...(row.continueOnError && { continueOnError: true }),
+    ...(row.fallback && { fallback: true })
+  };
+}
+
+// A posição no array vira a ordem da linha: é ela que define o step inicial e o "next" implícito
+function toStepRows(steps: any[]): StepRowData[] {
+  return normalizeSteps(steps).map((step, index) => {
+    const edges: { [edge: string]: string | null } = {};
+
+    for (const edge of WORKFLOW_STEP_EDGES) {
+      if (step[edge] !== undefined) {
+        edges[edge] = step[edge] as string | null;
+      }
+    }
+
+    return {
+      key: step.id,
+      name: step.name,
+      type: step.type as StepType,
+      config: step.config ?? {},
+      conditions: step.conditions,
+      actions: step.actions,
+      edges,
+      retry: step.retry ? step.retry as any : Prisma.DbNull,
+      continueOnError: step.continueOnError === true,
+      fallback: step.fallback === true,
+      order: index
+    };
+  });
+}
+
+/**
+ * Steps de um fluxo, guardados como linhas de WorkflowStep: as linhas sem
+ * flowVersionId são o rascunho editável e as demais pertencem a uma versão
+ * publicada, que nunca é alterada.
+ */
+export class FlowStepService {
+  async getDraftSteps(flowId: string, client: Prisma.TransactionClient = prisma): Promise<WorkflowStepDefinition[]> {
+    const rows = await client.workflowStep.findMany({
+      where: draftWhere(flowId),
+      orderBy: { order: 'asc' }
+    });
+
+    return normalizeSteps(rows.map(toStepDefinition));
+  }
+
+  async getVersionSteps(flowVersionId: string, client: Prisma.TransactionClient = prisma): Promise<WorkflowStepDefinition[]> {
+    const rows = await client.workflowStep.findMany({
+      where: { flowVersionId, isActive: true },
+      orderBy: { order: 'asc' }
+    });
+
+    return normalizeSteps(rows.map(toStepDefinition));
+  }
+
+  // Substitui o rascunho inteiro (salvar o fluxo completo, rollback, importação)
+  async replaceDraft(flowId: string, steps: any[], client?: Prisma.TransactionClient): Promise<void> {
+    if (!client) {
+      return prisma.$transaction(tx => this.replaceDraft(flowId, steps, tx));
+    }
+
+    await client.workflowStep.deleteMany({ where: draftWhere(flowId) });
+    await client.workflowStep.createMany({
+      data: toStepRows(steps).map(row => ({ ...row, flowId }))
+    });
+  }
+
+  // Copia os steps para uma versão recém-criada
+  async createVersionSteps(client: Prisma.TransactionClient, flowId: string, flowVersionId: string, steps: any[]): Promise<void> {
+    await client.workflowStep.createMany({
+      data: toStepRows(steps).map(row => ({ ...row, flowId, flowVersionId }))
+    });
+  }
+
+  /**
+   * Insere um step no rascunho na posição informada, deslocando os seguintes.
+   */
+  async insertDraftStep(flowId: string, step: WorkflowStepDefinition, position: number): Promise<void> {
+    const [row] = toStepRows([step]);
+
+    await prisma.$transaction([
+      prisma.workflowStep.updateMany({
+        where: { ...draftWhere(flowId), order: { gte: position } },
+        data: { order: { increment: 1 } }
+      }),
+      prisma.workflowStep.create({
+        data: { ...row, order: position, flowId }
+      })
+    ]);
+  }
+
+  async updateDraftStep(flowId: string, step: WorkflowStepDefinition): Promise<void> {
+    const { order, ...row } = toStepRows([step])[0];
+
+    await prisma.workflowStep.updateMany({
+      where: { ...draftWhere(flowId), key: step.id },
+      data: row
+    });
+  }
+
+  async deleteDraftStep(flowId: string, key: string): Promise<void> {
+    const row = await prisma.workflowStep.findFirst({
+      where: { ...draftWhere(flowId), key }
+    });
+
+    if (!row) {
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.workflowStep.delete({ where: { id: row.id } }),
+      prisma.workflowStep.updateMany({
+        where: { ...draftWhere(flowId), order: { gt: row.order } },
+        data: { order: { decrement: 1 } }
+      })
+    ]);
+  }
+
+  // keys deve conter cada step do rascunho uma única vez, na nova ordem
+  async reorderDraftSteps(flowId: string, keys: string[]): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      const rows = await tx.workflowStep.findMany({
+        where: draftWhere(flowId),
+        select: { key: true }
+      });
+      const draftKeys = new Set(rows.map(row => row.key));
+
+      if (keys.length !== draftKeys.size || new Set(keys).size !== keys.length || !keys.every(key => draftKeys.has(key))) {
+        throw new Error('A nova ordem deve conter cada step do rascunho uma única vez');
+      }
+
+      for (const [index, key] of keys.entries()) {
+        await tx.workflowStep.updateMany({
+          where: { ...draftWhere(flowId), key },
+          data: { order: index }
+        });
+      }
+    });
+  }
+}
+
+export default new FlowStepService();
@@ -0,0 +1,131 @@
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('./workflowEngine', () => ({ __esModule: true, default: { deliverReply: jest.fn() } }));
+jest.mock('./workflowScheduler', () => ({ __esModule: true, default: { schedule: jest.fn() } }));
+jest.mock('./flowEvents', () => ({ __esModule: true, default: { handleCampaignReply: jest.fn() } }));
+jest.mock('../utils/database', () => {
+  const tx = {
+    $queryRaw: jest.fn(),
+    workflowExecution: { findFirst: jest.fn(), create: jest.fn() }
+  };
+
+  return {
+    __esModule: true,
+    default: {
+      tx,
+      $transaction: jest.fn((callback: any) => callback(tx)),
+      workflowExecution: { findFirst: jest.fn() },
+      conversation: { findUnique: jest.fn() },
+      flow: { findMany: jest.fn() }
+    }
+  };
+});
+
+import prisma from '../utils/database';
+import workflowScheduler from './workflowScheduler';
+import flowTriggerService, { findUnsafeRegexConstruct, parseTrigger, validateTriggers } from './flowTriggers';
+
+describe('parseTrigger', () => {
+  it('reconhece os prefixos e trata o resto como palavra-chave', () => {
+    expect(parseTrigger('regex: ^pedido \\d+$')).toEqual({ type: 'regex', value: '^pedido \\d+$' });
+    expect(parseTrigger('intent:pricing')).toEqual({ type: 'intent', value: 'pricing' });
+    expect(parseTrigger('first_message')).toEqual({ type: 'first_message' });
+    expect(parseTrigger('ad_referral')).toEqual({ type: 'ad_referral', value: undefined });
+    expect(parseTrigger('Promoção de Natal')).toEqual({ type: 'keyword', value: 'Promoção de Natal' });
+  });
+});
+
+describe('validateTriggers', () => {
+  it('aceita gatilhos válidos', () => {
+    expect(validateTriggers(['oi', 'regex:/^pedido\\s*#?\\d+$/i', 'intent:support', 'first_message'])).toEqual([]);
+  });
+
+  it('aponta valores ausentes e expressões inválidas ou longas demais', () => {
+    expect(validateTriggers(['intent:', 'regex:([', `regex:${'a'.repeat(201)}`])).toEqual([
+      'Trigger "intent:": valor obrigatório',
+      'Trigger "regex:([": expressão regular inválida',
+      expect.stringContaining('expressão regular excede 200 caracteres')
+    ]);
+  });
+
+  it('recusa expressões sujeitas a backtracking exponencial', () => {
+    expect(validateTriggers(['regex:(a+)+$', 'regex:(\\w)\\1'])).toEqual([
+      'Trigger "regex:(a+)+$": quantificadores aninhados, como (a+)+, não são permitidos',
+      'Trigger "regex:(\\w)\\1": referências a grupos (backreferences) não são permitidas'
+    ]);
+  });
+});
+
+describe('findUnsafeRegexConstruct', () => {
+  it.each([
+    '(a+)+',
+    '(a*)*b',
+    '((a|b)*c)*',
+    '(\\w+\\s?)*$',
+    '/(a{1,5})+/i',
+    '(x+y)+'
+  ])('recusa quantificadores aninhados: %s', pattern => {
+    expect(findUnsafeRegexConstruct(pattern)).toMatch(/quantificadores aninhados/);
+  });
+
+  it.each(['(a)\\1', '(?<x>a)\\k<x>'])('recusa referências a grupos: %s', pattern => {
+    expect(findUnsafeRegexConstruct(pattern)).toMatch(/backreferences/);
+  });
+
+  it.each([
+    '^(oi|olá)!?$',
+    'pedido\\s*#?\\d+',
+    '(\\d{3})-(\\d{4})',
+    '(a+)?b',
+    '[(a+)]+',
+    '\\(a+\\)+'
+  ])('aceita expressões seguras: %s', pattern => {
+    expect(findUnsafeRegexConstruct(pattern)).toBeNull();
+  });
+});
+
+describe('FlowTriggerService.handleInboundMessage', () => {
+  const db = prisma as any;
+  const inbound = {
+    companyId: 'company-1',
+    conversationId: 'conversation-1',
+    message: { id: 'message-1', content: 'Quero ver meu pedido 123' }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.workflowExecution.findFirst.mockResolvedValue(null);
+    db.conversation.findUnique.mockResolvedValue({ botId: null, botPaused: false });
+    db.flow.findMany.mockResolvedValue([
+      { id: 'flow-1', publishedVersionId: 'version-1', triggers: ['regex:pedido \\d+'] }
+    ]);
+  });
+
+  it('cria e agenda a execução do fluxo cujo gatilho combina, com a conversa travada', async () => {
+    db.tx.workflowExecution.findFirst.mockResolvedValue(null);
+    db.tx.workflowExecution.create.mockResolvedValue({ id: 'execution-1' });
+
+    expect(await flowTriggerService.handleInboundMessage(inbound)).toBe(true);
+
+    expect(db.tx.$queryRaw).toHaveBeenCalled();
+    expect(db.tx.workflowExecution.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ flowId: 'flow-1', flowVersionId: 'version-1', status: 'RUNNING' })
+    });
+    expect(workflowScheduler.schedule).toHaveBeenCalledWith('execution-1');
+  });
+
+  it('não cria outra execução se uma mensagem simultânea já disparou um fluxo', async () => {
+    db.tx.workflowExecution.findFirst.mockResolvedValue({ id: 'execution-0' });
+
+    expect(await flowTriggerService.handleInboundMessage(inbound)).toBe(false);
+
+    expect(db.tx.workflowExecution.create).not.toHaveBeenCalled();
+    expect(workflowScheduler.schedule).not.toHaveBeenCalled();
+  });
+
+  it('ignora gatilhos quando a conversa está com um atendente humano', async () => {
+    db.conversation.findUnique.mockResolvedValue({ botId: null, botPaused: true });
+
+    expect(await flowTriggerService.handleInboundMessage(inbound)).toBe(false);
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,365 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/database';
+import logger from '../utils/logger';
+import openaiService from './openai';
+import workflowEngine from './workflowEngine';
+import workflowScheduler from './workflowScheduler';
+import flowEventService from './flowEvents';
+import { escapeRegex, normalizeText } from './nlu';
+
+/**
+ * Gatilhos de mensagem armazenados em Flow.triggers:
+ * - "palavra" ou "keyword:palavra" → palavra/frase na mensagem
+ * - "regex:padrão" ou "regex:/padrão/flags"
+ * - "intent:nome" → intenção detectada na mensagem
+ * - "first_message" → primeira mensagem do cliente na conversa
+ * - "ad_referral" ou "ad_referral:<adId>" → mensagem vinda de um anúncio
+ */
+export type MessageTriggerType = 'keyword' | 'regex' | 'intent' | 'first_message' | 'ad_referral';
+
+export interface MessageTrigger {
+  type: MessageTriggerType;
+  value?: string;
+}
+
+export interface InboundReferral {
+  sourceId?: string;
+  sourceType?: string;
+  sourceUrl?: string;
+  headline?: string;
+}
+
+export interface InboundMessage {
+  companyId: string;
+  conversationId: string;
+  message: {
+    id: string;
+    content: string;
+  };
+  referral?: InboundReferral;
+}
+
+const MAX_REGEX_LENGTH = 200;
+
+// Os gatilhos regex rodam de forma síncrona a cada mensagem; só o começo de mensagens longas é avaliado
+const MAX_REGEX_INPUT_LENGTH = 2000;
+
+export function parseTrigger(raw: string): MessageTrigger {
+  const separator = raw.indexOf(':');
+  const prefix = separator > 0 ? raw.slice(0, separator).trim().toLowerCase() : raw.trim().toLowerCase();
+  const value = separator > 0 ? raw.slice(separator + 1).trim() : undefined;
+
+  switch (prefix) {
+    case 'keyword':
+    case 'regex':
+    case 'intent':
+      return { type: prefix, value };
+    case 'first_message':
+      return { type: 'first_message' };
+    case 'ad_referral':
+      return { type: 'ad_referral', value: value || undefined };
+    default:
+      return { type: 'keyword', value: raw.trim() };
+  }
+}
+
+function buildRegex(pattern: string): RegExp {
+  const literal = pattern.match(/^\/(.+)\/([gimsuy]*)$/);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern, 'i');
+}
+
+/**
+ * Procura construções que levam a backtracking exponencial (ReDoS):
+ * quantificadores aninhados, como (a+)+ ou ((a|b)*c)*, e referências a
+ * grupos (\1, \k<nome>). Retorna o motivo da recusa, ou null se o padrão
+ * for seguro.
+ */
+export function findUnsafeRegexConstruct(pattern: string): string | null {
+  const source = pattern.match(/^\/(.+)\/([gimsuy]*)$/)?.[1] ?? pattern;
+
+  // Para cada grupo aberto, se ele já contém algum quantificador
+  const groups: boolean[] = [false];
+  let inClass = false;
+  // Depois de um ")": se o grupo recém-fechado contém quantificador
+  let closedGroup: boolean | null = null;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === '\\') {
+      const next = source[i + 1] || '';
+      if (!inClass && (/[1-9]/.test(next) || next === 'k')) {
+        return 'referências a grupos (backreferences) não são permitidas';
+      }
+      i++;
+      closedGroup = null;
+      continue;
+    }
+
+    if (inClass) {
+      if (char === ']') inClass = false;
+      continue;
+    }
+
+    const quantifier = char === '*' || char === '+' || (char === '{' && /^\{\d+(,\d*)?\}/.test(source.slice(i)));
+
+    if (quantifier) {
+      if (closedGroup) {
+        return 'quantificadores aninhados, como (a+)+, não são permitidos';
+      }
+      groups[groups.length - 1] = true;
+      if (char === '{') i = source.indexOf('}', i);
+      closedGroup = null;
+      continue;
+    }
+
+    if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')' && groups.length > 1) {
+      const quantified = groups.pop()!;
+      groups[groups.length - 1] = groups[groups.length - 1] || quantified;
+      closedGroup = quantified;
+      continue;
+    }
+
+    closedGroup = null;
+  }
+
+  return null;
+}
+
+/**
+ * Valida a sintaxe dos gatilhos de um fluxo.
+ * Retorna a lista de erros encontrados (vazia quando todos são válidos).
+ */
+export function validateTriggers(triggers: any): string[] {
+  if (!Array.isArray(triggers)) {
+    return ['Triggers devem ser um array'];
+  }
+
+  const errors: string[] = [];
+
+  for (const raw of triggers) {
+    if (typeof raw !== 'string' || !raw.trim()) {
+      errors.push('Triggers devem ser strings não vazias');
+      continue;
+    }
+
+    const trigger = parseTrigger(raw);
+
+    if (['keyword', 'regex', 'intent'].includes(trigger.type) && !trigger.value) {
+      errors.push(`Trigger "${raw}": valor obrigatório`);
+    }
+
+    if (trigger.type === 'regex' && trigger.value) {
+      if (trigger.value.length > MAX_REGEX_LENGTH) {
+        errors.push(`Trigger "${raw}": expressão regular excede ${MAX_REGEX_LENGTH} caracteres`);
+        continue;
+      }
+
+      try {
+        buildRegex(trigger.value);
+      } catch {
+        errors.push(`Trigger "${raw}": expressão regular inválida`);
+        continue;
+      }
+
+      const unsafe = findUnsafeRegexConstruct(trigger.value);
+      if (unsafe) {
+        errors.push(`Trigger "${raw}": ${unsafe}`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+function findActiveExecution(client: Prisma.TransactionClient, conversationId: string) {
+  return client.workflowExecution.findFirst({
+    where: {
+      conversationId,
+      status: { in: ['RUNNING', 'PAUSED'] }
+    },
+    select: { id: true }
+  });
+}
+
+export class FlowTriggerService {
+  /**
+   * Ponto de entrada para toda mensagem recebida de um cliente.
+   * Respostas a campanhas disparam o evento campaign.contact_replied; depois a
+   * mensagem é entregue a execuções que aguardam resposta e, se nenhuma a
+   * consumir, é procurado o fluxo ativo de maior prioridade cujo gatilho combine.
+   * Retorna true quando um workflow assumiu a mensagem.
+   */
+  async handleInboundMessage(inbound: InboundMessage): Promise<boolean> {
+    try {
+      if (await flowEventService.handleCampaignReply(inbound)) {
+        return true;
+      }
+
+      const consumed = await workflowEngine.deliverReply(inbound.conversationId, inbound.message);
+      if (consumed) {
+        return true;
+      }
+
+      const activeExecution = await findActiveExecution(prisma, inbound.conversationId);
+
+      if (activeExecution) {
+        logger.info('Conversa já possui workflow em andamento, gatilhos ignorados', {
+          conversationId: inbound.conversationId,
+          executionId: activeExecution.id
+        });
+        return false;
+      }
+
+      const conversation = await prisma.conversation.findUnique({
+        where: { id: inbound.conversationId },
+        select: { botId: true, botPaused: true }
+      });
+
+      if (conversation?.botPaused) {
+        return false;
+      }
+
+      const flows = await prisma.flow.findMany({
+        where: {
+          companyId: inbound.companyId,
+          isActive: true,
+          publishedVersionId: { not: null },
+          OR: [{ botId: null }, ...(conversation?.botId ? [{ botId: conversation.botId }] : [])]
+        },
+        orderBy: [
+          { priority: 'desc' },
+          { createdAt: 'asc' }
+        ]
+      });
+
+      const context = new MatchContext(inbound);
+
+      for (const flow of flows) {
+        for (const raw of flow.triggers) {
+          const trigger = parseTrigger(raw);
+
+          if (!(await context.matches(trigger))) {
+            continue;
+          }
+
+          // A conversa fica travada até a execução ser criada: mensagens simultâneas não disparam dois fluxos
+          const execution = await prisma.$transaction(async (tx) => {
+            await tx.$queryRaw`SELECT "id" FROM "conversations" WHERE "id" = ${inbound.conversationId} FOR UPDATE`;
+
+            if (await findActiveExecution(tx, inbound.conversationId)) {
+              return null;
+            }
+
+            return tx.workflowExecution.create({
+              data: {
+                flowId: flow.id,
+                flowVersionId: flow.publishedVersionId,
+                conversationId: inbound.conversationId,
+                companyId: inbound.companyId,
+                status: 'RUNNING',
+                data: {
+                  trigger: { type: trigger.type, value: trigger.value ?? null },
+                  message: inbound.message,
+                  ...(inbound.referral && { referral: inbound.referral as any })
+                }
+              }
+            });
+          });
+
+          if (!execution) {
+            logger.info('Outra mensagem da conversa já disparou um workflow, gatilhos ignorados', {
+              conversationId: inbound.conversationId,
+              flowId: flow.id
+            });
+            return false;
+          }
+
+          await workflowScheduler.schedule(execution.id);
+
+          logger.info('Workflow disparado por mensagem recebida', {
+            executionId: execution.id,
+            flowId: flow.id,
+            conversationId: inbound.conversationId,
+            trigger: raw
+          });
+
+          return true;
+        }
+      }
+
+      return false;
+    } catch (error: any) {
+      logger.error('Erro ao avaliar gatilhos de workflow', {
+        conversationId: inbound.conversationId,
+        error: error.message
+      });
+      return false;
+    }
+  }
+}
+
+/**
+ * Avalia gatilhos contra uma mensagem, calculando sob demanda (e uma única vez)
+ * os dados mais caros, como a intenção e a contagem de mensagens.
+ */
+class MatchContext {
+  private normalizedContent: string;
+  private intent?: string;
+  private firstMessage?: boolean;
+
+  constructor(private inbound: InboundMessage) {
+    this.normalizedContent = normalizeText(inbound.message.content || '');
+  }
+
+  async matches(trigger: MessageTrigger): Promise<boolean> {
+    switch (trigger.type) {
+      case 'keyword': {
+        const keyword = normalizeText(trigger.value || '');
+        return !!keyword && new RegExp(`(^|\\W)${escapeRegex(keyword)}(\\W|$)`).test(this.normalizedContent);
+      }
+
+      case 'regex':
+        // Fluxos salvos antes da validação podem ter padrões inseguros; eles nunca combinam
+        if (!trigger.value || trigger.value.length > MAX_REGEX_LENGTH || findUnsafeRegexConstruct(trigger.value)) {
+          return false;
+        }
+        try {
+          return buildRegex(trigger.value).test((this.inbound.message.content || '').slice(0, MAX_REGEX_INPUT_LENGTH));
+        } catch {
+          return false;
+        }
+
+      case 'intent':
+        if (this.intent === undefined) {
+          this.intent = openaiService.extractIntent(this.inbound.message.content || '');
+        }
+        return this.intent === trigger.value;
+
+      case 'first_message':
+        if (this.firstMessage === undefined) {
+          const customerMessages = await prisma.message.count({
+            where: {
+              conversationId: this.inbound.conversationId,
+              sender: { in: ['CUSTOMER', 'USER'] }
+            }
+          });
+          this.firstMessage = customerMessages <= 1;
+        }
+        return this.firstMessage;
+
+      case 'ad_referral':
+        if (!this.inbound.referral) return false;
+        return !trigger.value || trigger.value === this.inbound.referral.sourceId;
+
+      default:
+        return false;
+    }
+  }
+}
+
+export default new FlowTriggerService();
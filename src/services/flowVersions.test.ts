@@ -0,0 +1,53 @@
+jest.mock('../index', () => ({ io: { to: () => ({ emit: jest.fn() }) } }));
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+
+import { diffFlowSteps, hasStepChanges } from './flowVersions';
+
+const message = (id: string, extra: any = {}) => ({ id, name: id, type: 'MESSAGE', config: { message: `Mensagem ${id}` }, ...extra });
+
+describe('diffFlowSteps', () => {
+  it('aponta steps incluídos, removidos e os campos alterados', () => {
+    const diff = diffFlowSteps(
+      [message('a'), message('b'), message('c')],
+      [message('a', { config: { message: 'Oi' }, next: 'd' }), message('c'), message('d')]
+    );
+
+    expect(diff).toMatchObject({
+      added: ['d'],
+      removed: ['b'],
+      changed: [{ id: 'a', fields: ['config', 'next'] }]
+    });
+    expect(hasStepChanges(diff)).toBe(true);
+  });
+
+  it('compara todas as arestas e a política de erro', () => {
+    const diff = diffFlowSteps(
+      [message('a'), message('b')],
+      [message('a', { onTimeout: 'b', retry: { count: 2 } }), message('b', { continueOnError: true })]
+    );
+
+    expect(diff.changed).toEqual([
+      { id: 'a', fields: ['onTimeout', 'retry'] },
+      { id: 'b', fields: ['continueOnError'] }
+    ]);
+  });
+
+  it('aponta steps que mudaram de posição, mesmo sem outras alterações', () => {
+    const diff = diffFlowSteps([message('a'), message('b'), message('c')], [message('b'), message('a'), message('c')]);
+
+    expect(diff).toEqual({ added: [], removed: [], changed: [], reordered: ['b', 'a'] });
+    expect(hasStepChanges(diff)).toBe(true);
+  });
+
+  it('não considera reordenação o deslocamento causado por inclusões e remoções', () => {
+    const diff = diffFlowSteps([message('a'), message('b'), message('c')], [message('novo'), message('a'), message('c')]);
+
+    expect(diff.reordered).toEqual([]);
+  });
+
+  it('não aponta mudanças entre steps iguais', () => {
+    const steps = [message('a'), message('b', { next: null })];
+
+    expect(hasStepChanges(diffFlowSteps(steps, JSON.parse(JSON.stringify(steps))))).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+import prisma from '../utils/database';
+import logger from '../utils/logger';
+import { WorkflowStepDefinition } from '../types';
+import { normalizeSteps, WORKFLOW_STEP_EDGES } from './workflowGraph';
+import flowStepService from './flowSteps';
+
+export interface StepChange {
+  id: string;
+  fields: string[];
+}
+
+export interface FlowStepsDiff {
+  added: string[];
+  removed: string[];
+  changed: StepChange[];
+  // Steps mantidos que mudaram de posição: a ordem define o step inicial e o "next" implícito
+  reordered: string[];
+}
+
+// Campos comparados no diff: tudo o que é salvo em uma linha de WorkflowStep (a ordem vai em "reordered")
+const DIFF_FIELDS: (keyof WorkflowStepDefinition)[] = [
+  'name',
+  'type',
+  'config',
+  'conditions',
+  'actions',
+  ...WORKFLOW_STEP_EDGES,
+  'retry',
+  'continueOnError',
+  'fallback'
+];
+
+/**
+ * Compara dois conjuntos de steps pelo id, incluindo a posição de cada um.
+ */
+export function diffFlowSteps(fromSteps: any[], toSteps: any[]): FlowStepsDiff {
+  const from = new Map(normalizeSteps(fromSteps).map(step => [step.id, step]));
+  const to = new Map(normalizeSteps(toSteps).map(step => [step.id, step]));
+
+  const diff: FlowStepsDiff = { added: [], removed: [], changed: [], reordered: [] };
+
+  to.forEach((step, id) => {
+    const previous = from.get(id);
+
+    if (!previous) {
+      diff.added.push(id);
+      return;
+    }
+
+    const fields = DIFF_FIELDS.filter(field => JSON.stringify(previous[field]) !== JSON.stringify(step[field]));
+    if (fields.length > 0) {
+      diff.changed.push({ id, fields });
+    }
+  });
+
+  from.forEach((_, id) => {
+    if (!to.has(id)) {
+      diff.removed.push(id);
+    }
+  });
+
+  // Posição relativa dos steps presentes nas duas versões (inclusões e remoções não contam)
+  const previousOrder = Array.from(from.keys()).filter(id => to.has(id));
+  const currentOrder = Array.from(to.keys()).filter(id => from.has(id));
+  diff.reordered = currentOrder.filter((id, index) => previousOrder[index] !== id);
+
+  return diff;
+}
+
+// O rascunho só pode ser publicado quando o diff aponta alguma mudança
+export function hasStepChanges(diff: FlowStepsDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0 || diff.reordered.length > 0;
+}
+
+export class FlowVersionService {
+  /**
+   * Publica os steps informados como uma nova versão imutável do fluxo
+   * e a torna a versão usada pelas novas execuções.
+   */
+  async publish(flowId: string, steps: any[], options: { notes?: string; userId?: string } = {}) {
+    const version = await prisma.$transaction(async (tx) => {
+      const latest = await tx.flowVersion.findFirst({
+        where: { flowId },
+        orderBy: { version: 'desc' },
+        select: { version: true }
+      });
+
+      const created = await tx.flowVersion.create({
+        data: {
+          flowId,
+          version: (latest?.version ?? 0) + 1,
+          notes: options.notes,
+          publishedBy: options.userId
+        }
+      });
+
+      await flowStepService.createVersionSteps(tx, flowId, created.id, steps);
+
+      await tx.flow.update({
+        where: { id: flowId },
+        data: { publishedVersionId: created.id }
+      });
+
+      return created;
+    });
+
+    logger.info('Versão de flow publicada', { flowId, version: version.version, userId: options.userId });
+
+    return version;
+  }
+}
+
+export default new FlowVersionService();
@@ -0,0 +1,119 @@
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+
+// Atendentes online são os que têm socket na sala "user-<id>"
+jest.mock('../index', () => {
+  const emit = jest.fn();
+  const online = new Set<string>();
+  return {
+    online,
+    emit,
+    io: {
+      in: (room: string) => ({ fetchSockets: async () => (online.has(room.replace('user-', '')) ? [{ id: 'socket' }] : []) }),
+      to: jest.fn(() => ({ emit }))
+    }
+  };
+});
+
+jest.mock('../utils/database', () => {
+  const db: any = {
+    user: { findMany: jest.fn(), update: jest.fn(async () => ({})) },
+    conversation: {
+      groupBy: jest.fn(async () => []),
+      update: jest.fn(async ({ where }: any) => ({ id: where.id, customer: { id: 'customer-1', name: 'Ana', phone: '5511999990000' } }))
+    },
+    $transaction: jest.fn((operations: Promise<any>[]) => Promise.all(operations))
+  };
+  return { __esModule: true, default: db };
+});
+
+import prisma from '../utils/database';
+import handoffService, { normalizeSkills } from './handoff';
+
+const db = prisma as any;
+const { online, emit, io } = jest.requireMock('../index');
+
+const agent = (id: string) => ({ id, name: `Atendente ${id}`, email: `${id}@loja.com.br` });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  online.clear();
+});
+
+describe('normalizeSkills', () => {
+  it('remove espaços, duplicatas e maiúsculas', () => {
+    expect(normalizeSkills([' Vendas', 'vendas', 'Suporte ', ''])).toEqual(['vendas', 'suporte']);
+    expect(normalizeSkills('vendas')).toEqual([]);
+  });
+});
+
+describe('HandoffService.selectAgent', () => {
+  it('no rodízio escolhe o primeiro atendente online na ordem de lastAssignedAt', async () => {
+    db.user.findMany.mockResolvedValue([agent('a'), agent('b'), agent('c')]);
+    online.add('b');
+    online.add('c');
+
+    expect(await handoffService.selectAgent('company-1')).toEqual(agent('b'));
+
+    const query = db.user.findMany.mock.calls[0][0];
+    expect(query.where).toEqual({ companyId: 'company-1', isActive: true });
+    expect(query.orderBy[0]).toEqual({ lastAssignedAt: { sort: 'asc', nulls: 'first' } });
+  });
+
+  it('filtra por skills normalizadas e papéis', async () => {
+    db.user.findMany.mockResolvedValue([]);
+
+    await handoffService.selectAgent('company-1', { skills: ['Financeiro'], roles: ['OPERATOR'] });
+
+    expect(db.user.findMany.mock.calls[0][0].where).toMatchObject({
+      role: { in: ['OPERATOR'] },
+      skills: { hasEvery: ['financeiro'] }
+    });
+  });
+
+  it('retorna null quando nenhum atendente está online', async () => {
+    db.user.findMany.mockResolvedValue([agent('a')]);
+
+    expect(await handoffService.selectAgent('company-1')).toBeNull();
+  });
+
+  it('aceita atendentes offline com onlineOnly false', async () => {
+    db.user.findMany.mockResolvedValue([agent('a')]);
+
+    expect(await handoffService.selectAgent('company-1', { onlineOnly: false })).toEqual(agent('a'));
+  });
+
+  it('em least_busy escolhe quem tem menos conversas abertas, mantendo o rodízio no empate', async () => {
+    db.user.findMany.mockResolvedValue([agent('a'), agent('b'), agent('c')]);
+    db.conversation.groupBy.mockResolvedValue([
+      { assignedTo: 'a', _count: { _all: 3 } },
+      { assignedTo: 'b', _count: { _all: 1 } },
+      { assignedTo: 'c', _count: { _all: 1 } }
+    ]);
+
+    expect(await handoffService.selectAgent('company-1', { strategy: 'least_busy', onlineOnly: false })).toEqual(agent('b'));
+    expect(db.conversation.groupBy.mock.calls[0][0].where).toEqual({
+      companyId: 'company-1',
+      assignedTo: { in: ['a', 'b', 'c'] },
+      status: { in: ['ACTIVE', 'WAITING'] }
+    });
+  });
+});
+
+describe('HandoffService.assign', () => {
+  it('pausa o bot, atribui a conversa e avisa o atendente na sala dele', async () => {
+    await handoffService.assign({ conversationId: 'conversation-1', agent: agent('a'), note: 'Cliente pediu reembolso', executionId: 'execution-1' });
+
+    expect(db.conversation.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'conversation-1' },
+      data: { assignedTo: 'a', status: 'WAITING', botPaused: true }
+    }));
+    expect(db.user.update).toHaveBeenCalledWith({ where: { id: 'a' }, data: { lastAssignedAt: expect.any(Date) } });
+    expect(io.to).toHaveBeenCalledWith('user-a');
+    expect(emit).toHaveBeenCalledWith('conversation-assigned', expect.objectContaining({
+      conversationId: 'conversation-1',
+      customer: { id: 'customer-1', name: 'Ana', phone: '5511999990000' },
+      note: 'Cliente pediu reembolso',
+      executionId: 'execution-1'
+    }));
+  });
+});
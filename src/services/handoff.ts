@@ -0,0 +1,140 @@
+import { UserRole } from '@prisma/client';
+import prisma from '../utils/database';
+import logger from '../utils/logger';
+import { io } from '../index';
+
+export type HandoffStrategy = 'round_robin' | 'least_busy';
+
+export const HANDOFF_STRATEGIES: HandoffStrategy[] = ['round_robin', 'least_busy'];
+
+export interface HandoffRule {
+  strategy?: HandoffStrategy;
+  // O atendente precisa ter todas as skills informadas
+  skills?: string[];
+  onlineOnly?: boolean;
+  roles?: UserRole[];
+}
+
+export interface HandoffAgent {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface HandoffAssignment {
+  conversationId: string;
+  agent: HandoffAgent;
+  note?: string;
+  executionId?: string;
+}
+
+// Conversas que contam como carga de trabalho de um atendente
+const OPEN_CONVERSATION_STATUSES = ['ACTIVE', 'WAITING'] as const;
+
+export function normalizeSkills(skills: any): string[] {
+  const list = Array.isArray(skills) ? skills : [];
+  return Array.from(new Set(list.map(skill => String(skill).trim().toLowerCase()).filter(Boolean)));
+}
+
+/**
+ * Distribui conversas para atendentes humanos. A presença online vem das
+ * salas "user-<id>" do Socket.IO (o painel entra nelas com join-user).
+ */
+export class HandoffService {
+  async isOnline(userId: string): Promise<boolean> {
+    const sockets = await io.in(`user-${userId}`).fetchSockets();
+    return sockets.length > 0;
+  }
+
+  async countOpenConversations(companyId: string, userIds: string[]): Promise<Map<string, number>> {
+    const counts = await prisma.conversation.groupBy({
+      by: ['assignedTo'],
+      where: {
+        companyId,
+        assignedTo: { in: userIds },
+        status: { in: [...OPEN_CONVERSATION_STATUSES] }
+      },
+      _count: { _all: true }
+    });
+
+    return new Map(counts.map(count => [count.assignedTo as string, count._count._all]));
+  }
+
+  /**
+   * Escolhe o atendente para uma conversa. No rodízio vence quem recebeu
+   * conversa há mais tempo; em least_busy, quem tem menos conversas abertas
+   * (empate resolvido pelo rodízio). Retorna null se ninguém atender à regra.
+   */
+  async selectAgent(companyId: string, rule: HandoffRule = {}): Promise<HandoffAgent | null> {
+    const { strategy = 'round_robin', onlineOnly = true, roles } = rule;
+    const skills = normalizeSkills(rule.skills);
+
+    const candidates = await prisma.user.findMany({
+      where: {
+        companyId,
+        isActive: true,
+        ...(roles && roles.length > 0 && { role: { in: roles } }),
+        ...(skills.length > 0 && { skills: { hasEvery: skills } })
+      },
+      orderBy: [
+        { lastAssignedAt: { sort: 'asc', nulls: 'first' } },
+        { createdAt: 'asc' }
+      ],
+      select: { id: true, name: true, email: true }
+    });
+
+    const available: HandoffAgent[] = [];
+    for (const candidate of candidates) {
+      if (!onlineOnly || await this.isOnline(candidate.id)) {
+        available.push(candidate);
+      }
+    }
+
+    if (available.length === 0 || strategy === 'round_robin') {
+      return available[0] ?? null;
+    }
+
+    const load = await this.countOpenConversations(companyId, available.map(agent => agent.id));
+
+    // sort é estável: agentes com a mesma carga mantêm a ordem do rodízio
+    return [...available].sort((a, b) => (load.get(a.id) ?? 0) - (load.get(b.id) ?? 0))[0];
+  }
+
+  /**
+   * Atribui a conversa ao atendente, deixa-a aguardando atendimento humano
+   * com o bot pausado e avisa o atendente em tempo real.
+   */
+  async assign(assignment: HandoffAssignment): Promise<void> {
+    const { conversationId, agent } = assignment;
+
+    const [conversation] = await prisma.$transaction([
+      prisma.conversation.update({
+        where: { id: conversationId },
+        data: {
+          assignedTo: agent.id,
+          status: 'WAITING',
+          botPaused: true
+        },
+        include: {
+          customer: { select: { id: true, name: true, phone: true } }
+        }
+      }),
+      prisma.user.update({
+        where: { id: agent.id },
+        data: { lastAssignedAt: new Date() }
+      })
+    ]);
+
+    io.to(`user-${agent.id}`).emit('conversation-assigned', {
+      conversationId,
+      customer: conversation.customer,
+      note: assignment.note,
+      executionId: assignment.executionId,
+      assignedAt: new Date().toISOString()
+    });
+
+    logger.info('Conversa transferida para atendente', { conversationId, agentId: agent.id });
+  }
+}
+
+export default new HandoffService();
@@ -0,0 +1,90 @@
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+
+import axios from 'axios';
+import dns from 'dns';
+import { HttpRequestService, selectJsonPath } from './httpRequest';
+
+describe('selectJsonPath', () => {
+  const source = {
+    order: { id: 42, 'status atual': 'pago' },
+    items: [{ id: 'a', qty: 1 }, { id: 'b', qty: 2 }]
+  };
+
+  it('segue propriedades, índices e chaves entre aspas', () => {
+    expect(selectJsonPath(source, '$.order.id')).toBe(42);
+    expect(selectJsonPath(source, 'order.id')).toBe(42);
+    expect(selectJsonPath(source, '$.items[1].qty')).toBe(2);
+    expect(selectJsonPath(source, "$.order['status atual']")).toBe('pago');
+    expect(selectJsonPath(source, '$')).toBe(source);
+  });
+
+  it('retorna um array quando o caminho usa [*]', () => {
+    expect(selectJsonPath(source, '$.items[*].id')).toEqual(['a', 'b']);
+    expect(selectJsonPath(source, '$.missing[*].id')).toEqual([]);
+  });
+
+  it('retorna undefined para caminhos inexistentes e recusa caminhos malformados', () => {
+    expect(selectJsonPath(source, '$.order.customer.name')).toBeUndefined();
+    expect(() => selectJsonPath(source, '$.items[x]')).toThrow('Caminho JSON inválido');
+  });
+});
+
+describe('HttpRequestService (proteção contra SSRF)', () => {
+  const service = new HttpRequestService();
+  let axiosRequest: jest.SpyInstance;
+
+  beforeEach(() => {
+    axiosRequest = jest.spyOn(axios, 'request').mockResolvedValue({ status: 200, headers: {}, data: { ok: true } });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each([
+    'http://127.0.0.1/',
+    'http://10.1.2.3/',
+    'http://172.20.0.1/',
+    'http://192.168.0.10/',
+    'http://169.254.169.254/latest/meta-data',
+    'http://100.64.0.1/',
+    'http://0.0.0.0/',
+    'http://[::1]/',
+    'http://[fc00::1]/',
+    'http://[fe80::1]/',
+    'http://[::ffff:10.0.0.1]/'
+  ])('bloqueia endereços internos: %s', async url => {
+    await expect(service.request({ url })).rejects.toMatchObject({ code: 'ERR_URL_BLOCKED' });
+    expect(axiosRequest).not.toHaveBeenCalled();
+  });
+
+  it('bloqueia protocolos que não são http ou https', async () => {
+    await expect(service.request({ url: 'file:///etc/passwd' })).rejects.toMatchObject({ code: 'ERR_URL_BLOCKED' });
+  });
+
+  it('permite IPs públicos e faixas liberadas na allowList', async () => {
+    await expect(service.request({ url: 'http://8.8.8.8/' })).resolves.toMatchObject({ status: 200, attempts: 1 });
+    await expect(service.request({ url: 'http://10.0.5.1/', allowList: ['10.0.0.0/16'] })).resolves.toMatchObject({ status: 200 });
+    await expect(service.request({ url: 'http://10.1.0.1/', allowList: ['10.0.0.0/16'] })).rejects.toMatchObject({ code: 'ERR_URL_BLOCKED' });
+  });
+
+  it('recusa na resolução de DNS hosts que apontam para endereços internos', async () => {
+    await service.request({ url: 'http://api.cliente.com.br/' });
+    const { lookup } = axiosRequest.mock.calls[0][0].httpAgent.options;
+
+    jest.spyOn(dns, 'lookup').mockImplementation(((_hostname: string, _options: any, callback: any) => {
+      callback(null, [{ address: '93.184.216.34', family: 4 }, { address: '10.0.0.7', family: 4 }]);
+    }) as any);
+
+    const callback = jest.fn();
+    lookup('api.cliente.com.br', {}, callback);
+
+    expect(callback.mock.calls[0][0]).toMatchObject({ code: 'ERR_URL_BLOCKED' });
+  });
+
+  it('não aplica o lookup protegido a hosts liberados na allowList', async () => {
+    await service.request({ url: 'http://api.interna/', allowList: ['*.interna', 'api.interna'] });
+
+    expect(axiosRequest.mock.calls[0][0].httpAgent.options.lookup).toBeUndefined();
+  });
+});
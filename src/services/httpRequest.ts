@@ -0,0 +1,272 @@
+import axios from 'axios';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import logger from '../utils/logger';
+
+export interface HttpRequestOptions {
+  url: string;
+  method?: string;
+  headers?: { [key: string]: string };
+  body?: any;
+  timeoutMs?: number;
+  // Tentativas extras após a primeira (erros de rede, 429 e 5xx)
+  retries?: number;
+  retryDelayMs?: number;
+  // Hosts (ex.: "api.interna", "*.empresa.com.br"), IPs ou CIDRs liberados para a empresa
+  allowList?: string[];
+}
+
+export interface HttpResponse {
+  status: number;
+  headers: { [key: string]: any };
+  body: any;
+  attempts: number;
+  durationMs: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const MAX_TIMEOUT_MS = 30000;
+const MAX_RETRIES = 5;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const MAX_RESPONSE_BYTES = 1024 * 1024;
+const RETRYABLE_STATUS = [408, 425, 429, 500, 502, 503, 504];
+const BLOCKED_CODE = 'ERR_URL_BLOCKED';
+
+// Faixas privadas, de loopback, link-local e reservadas (proteção contra SSRF).
+// IPv4 mapeado em IPv6 (::ffff:0:0/96) não entra na lista: o BlockList já compara
+// esses endereços com as faixas IPv4, e a faixa inteira bloquearia todo IPv4 público
+const PRIVATE_RANGES = new net.BlockList();
+([
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as [string, number][]).forEach(([address, prefix]) => PRIVATE_RANGES.addSubnet(address, prefix, 'ipv4'));
+([
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as [string, number][]).forEach(([address, prefix]) => PRIVATE_RANGES.addSubnet(address, prefix, 'ipv6'));
+
+interface AllowList {
+  hosts: string[];
+  addresses: net.BlockList;
+}
+
+function parseAllowList(entries: string[] = []): AllowList {
+  const allow: AllowList = { hosts: [], addresses: new net.BlockList() };
+
+  for (const raw of entries) {
+    const entry = String(raw).trim().toLowerCase();
+    const [address, prefix] = entry.split('/');
+    const family = net.isIP(address);
+
+    if (family) {
+      const type = family === 4 ? 'ipv4' : 'ipv6';
+      if (prefix !== undefined) {
+        allow.addresses.addSubnet(address, Number(prefix), type);
+      } else {
+        allow.addresses.addAddress(address, type);
+      }
+    } else if (entry) {
+      allow.hosts.push(entry);
+    }
+  }
+
+  return allow;
+}
+
+function isHostAllowListed(hostname: string, allow: AllowList): boolean {
+  const host = hostname.toLowerCase();
+  return allow.hosts.some(entry => entry.startsWith('*.')
+    ? host.endsWith(entry.slice(1))
+    : host === entry);
+}
+
+function isAddressAllowed(address: string, allow: AllowList): boolean {
+  // IPv4 mapeado em IPv6 (::ffff:10.0.0.1) é avaliado como IPv4
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  const normalized = mapped ? mapped[1] : address;
+  const type = net.isIP(normalized) === 6 ? 'ipv6' : 'ipv4';
+
+  return allow.addresses.check(normalized, type) || !PRIVATE_RANGES.check(normalized, type);
+}
+
+function blockedError(message: string): Error {
+  const error: any = new Error(message);
+  error.code = BLOCKED_CODE;
+  return error;
+}
+
+/**
+ * Resolve o host e recusa endereços internos. Executado a cada conexão,
+ * o que também impede DNS rebinding entre a validação e a requisição.
+ */
+function createGuardedLookup(allow: AllowList): net.LookupFunction {
+  return (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        return callback(error, '', 0);
+      }
+
+      const blocked = addresses.find(entry => !isAddressAllowed(entry.address, allow));
+      if (blocked) {
+        return callback(blockedError(`Endereço ${blocked.address} de ${hostname} não é permitido`), '', 0);
+      }
+
+      if (options.all) {
+        return callback(null, addresses);
+      }
+
+      callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+}
+
+function assertUrlAllowed(url: URL, allow: AllowList): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw blockedError(`Protocolo não permitido: ${url.protocol}`);
+  }
+
+  // IPs literais não passam pelo lookup, então são validados aqui
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(hostname) && !isAddressAllowed(hostname, allow)) {
+    throw blockedError(`Endereço ${hostname} não é permitido`);
+  }
+}
+
+function clamp(value: any, min: number, max: number, fallback: number): number {
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.min(Math.max(number, min), max) : fallback;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class HttpRequestService {
+  /**
+   * Executa uma requisição HTTP para URLs definidas pelos clientes, com
+   * proteção contra SSRF, timeout, limite de resposta e retentativas.
+   * Respostas com status de erro são retornadas (não lançadas) após as retentativas.
+   */
+  async request(options: HttpRequestOptions): Promise<HttpResponse> {
+    let url: URL;
+    try {
+      url = new URL(options.url);
+    } catch {
+      throw new Error(`URL inválida: ${options.url}`);
+    }
+
+    const allow = parseAllowList(options.allowList);
+    const hostAllowListed = isHostAllowListed(url.hostname, allow);
+
+    if (!hostAllowListed) {
+      assertUrlAllowed(url, allow);
+    }
+
+    const lookup = hostAllowListed ? undefined : createGuardedLookup(allow);
+    const timeout = clamp(options.timeoutMs, 1, MAX_TIMEOUT_MS, DEFAULT_TIMEOUT_MS);
+    const retries = clamp(options.retries, 0, MAX_RETRIES, 0);
+    const retryDelayMs = clamp(options.retryDelayMs, 0, MAX_TIMEOUT_MS, DEFAULT_RETRY_DELAY_MS);
+    const startedAt = Date.now();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await axios.request({
+          url: url.toString(),
+          method: (options.method || 'GET').toUpperCase(),
+          headers: options.headers,
+          data: options.body,
+          timeout,
+          maxRedirects: 0,
+          maxContentLength: MAX_RESPONSE_BYTES,
+          maxBodyLength: MAX_RESPONSE_BYTES,
+          validateStatus: () => true,
+          httpAgent: new http.Agent({ lookup }),
+          httpsAgent: new https.Agent({ lookup })
+        });
+
+        if (RETRYABLE_STATUS.includes(response.status) && attempt <= retries) {
+          logger.warn('Requisição HTTP com status retentável', { url: url.origin, status: response.status, attempt });
+          await sleep(retryDelayMs * 2 ** (attempt - 1));
+          continue;
+        }
+
+        return {
+          status: response.status,
+          headers: response.headers,
+          body: response.data,
+          attempts: attempt,
+          durationMs: Date.now() - startedAt
+        };
+      } catch (error: any) {
+        if (error.code === BLOCKED_CODE || error.cause?.code === BLOCKED_CODE) {
+          throw blockedError(error.message);
+        }
+
+        if (attempt > retries) {
+          throw new Error(`Falha na requisição HTTP para ${url.origin}: ${error.message}`);
+        }
+
+        logger.warn('Erro na requisição HTTP, tentando novamente', { url: url.origin, attempt, error: error.message });
+        await sleep(retryDelayMs * 2 ** (attempt - 1));
+      }
+    }
+  }
+}
+
+/**
+ * Seleciona valores de um objeto com um subconjunto de JSONPath:
+ * $.a.b, $.items[0], $['chave com espaço'] e $.items[*].id.
+ * Retorna um array quando o caminho contém [*]; undefined quando não encontrado.
+ */
+export function selectJsonPath(source: any, path: string): any {
+  const expression = path.trim().replace(/^\$/, '');
+  const normalized = expression && !/^[.[]/.test(expression) ? `.${expression}` : expression;
+  const tokenPattern = /\.([^.[\]]+)|\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\]|\[\*\]/g;
+
+  let values = [source];
+  let wildcard = false;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(normalized)) !== null) {
+    if (match.index !== consumed) {
+      throw new Error(`Caminho JSON inválido: ${path}`);
+    }
+    consumed = tokenPattern.lastIndex;
+
+    const [token, name, index, single, double] = match;
+
+    if (token === '[*]' || name === '*') {
+      wildcard = true;
+      values = values.flatMap(value => value && typeof value === 'object' ? Object.values(value) : []);
+      continue;
+    }
+
+    const key = name ?? index ?? single ?? double;
+    values = values
+      .filter(value => value !== null && value !== undefined)
+      .map(value => value[key])
+      .filter(value => value !== undefined);
+  }
+
+  if (consumed !== normalized.length) {
+    throw new Error(`Caminho JSON inválido: ${path}`);
+  }
+
+  return wildcard ? values : values[0];
+}
+
+export default new HttpRequestService();
@@ -0,0 +1,145 @@
+jest.mock('../index', () => ({ io: { to: () => ({ emit: jest.fn() }) } }));
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('pdf-parse', () => jest.fn());
+
+import pdfParse from 'pdf-parse';
+import {
+  detectFormat,
+  parseDocument,
+  parseFaqCsv,
+  parseMarkdown,
+  parsePlainText,
+  splitLongArticle
+} from './knowledgeImport';
+
+const file = (originalname: string, content: string, mimetype = 'application/octet-stream') => ({
+  originalname,
+  mimetype,
+  buffer: Buffer.from(content, 'utf8')
+});
+
+describe('detectFormat', () => {
+  it('usa a extensão e, na falta dela, o mimetype', () => {
+    expect(detectFormat({ originalname: 'faq.MD', mimetype: '' })).toBe('markdown');
+    expect(detectFormat({ originalname: 'faq.csv', mimetype: '' })).toBe('csv');
+    expect(detectFormat({ originalname: 'manual', mimetype: 'application/pdf' })).toBe('pdf');
+    expect(detectFormat({ originalname: 'notas.txt', mimetype: '' })).toBe('text');
+    expect(detectFormat({ originalname: 'planilha.xlsx', mimetype: '' })).toBeNull();
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('transforma cada seção em artigo e usa o título do documento como categoria', () => {
+    const markdown = [
+      '# Entregas',
+      'Informações gerais.',
+      '',
+      '## Prazo',
+      'Até 5 dias úteis.',
+      '',
+      '## Frete',
+      'Grátis acima de R$ 200.'
+    ].join('\r\n');
+
+    expect(parseMarkdown(markdown, 'entregas.md')).toEqual([
+      { title: 'Entregas', content: 'Informações gerais.', category: 'Entregas' },
+      { title: 'Prazo', content: 'Até 5 dias úteis.', category: 'Entregas' },
+      { title: 'Frete', content: 'Grátis acima de R$ 200.', category: 'Entregas' }
+    ]);
+  });
+
+  it('usa o nome do arquivo como título quando não há seções', () => {
+    expect(parseMarkdown('Só um parágrafo.', 'faq_trocas-devolucoes.md')).toEqual([
+      { title: 'faq trocas devolucoes', content: 'Só um parágrafo.' }
+    ]);
+  });
+});
+
+describe('parsePlainText', () => {
+  it('usa a primeira linha como título quando seguida de linha em branco', () => {
+    expect(parsePlainText('Política de trocas\n\nTrocas em até 30 dias.', 'trocas.txt')).toEqual([
+      { title: 'Política de trocas', content: 'Trocas em até 30 dias.' }
+    ]);
+    expect(parsePlainText('Trocas em até 30 dias.\nSem custo.', 'trocas.txt')).toEqual([
+      { title: 'trocas', content: 'Trocas em até 30 dias.\nSem custo.' }
+    ]);
+    expect(parsePlainText('  \n ', 'vazio.txt')).toEqual([]);
+  });
+});
+
+describe('parseFaqCsv', () => {
+  it('aceita ";" como separador, BOM, aspas e quebras de linha dentro dos campos', () => {
+    const csv = '﻿Pergunta;Resposta;Categoria;Tags\n'
+      + 'Qual o prazo?;"Até 5 dias;\nexceto feriados";Entregas;prazo|frete\n'
+      + '"Aceitam ""Pix""?";Sim;;\n';
+
+    expect(parseFaqCsv(csv)).toEqual({
+      articles: [
+        { title: 'Qual o prazo?', content: 'Até 5 dias;\nexceto feriados', category: 'Entregas', tags: ['prazo', 'frete'] },
+        { title: 'Aceitam "Pix"?', content: 'Sim' }
+      ],
+      errors: []
+    });
+  });
+
+  it('aponta as linhas sem resposta e importa o restante', () => {
+    const csv = 'question,answer\r\nTem loja física?,\r\nQual o horário?,Das 9h às 18h\r\n';
+
+    expect(parseFaqCsv(csv)).toEqual({
+      articles: [{ title: 'Qual o horário?', content: 'Das 9h às 18h' }],
+      errors: ['Linha 2: pergunta e resposta são obrigatórias']
+    });
+  });
+
+  it('recusa CSVs sem as colunas obrigatórias', () => {
+    expect(parseFaqCsv('titulo;texto\na;b').errors).toEqual([
+      'O CSV deve ter as colunas "pergunta" e "resposta" (ou "question" e "answer")'
+    ]);
+    expect(parseFaqCsv('').errors).toEqual(['CSV vazio']);
+  });
+});
+
+describe('splitLongArticle', () => {
+  it('divide entre parágrafos e numera as partes', () => {
+    const article = { title: 'Manual', content: ['a'.repeat(6), 'b'.repeat(6), 'c'.repeat(6)].join('\n\n') };
+
+    expect(splitLongArticle(article, 14)).toEqual([
+      { title: 'Manual (parte 1/2)', content: 'aaaaaa\n\nbbbbbb' },
+      { title: 'Manual (parte 2/2)', content: 'cccccc' }
+    ]);
+  });
+
+  it('corta parágrafos maiores que o limite e mantém artigos curtos', () => {
+    expect(splitLongArticle({ title: 'Longo', content: 'x'.repeat(25) }, 10).map(part => part.content))
+      .toEqual(['x'.repeat(10), 'x'.repeat(10), 'x'.repeat(5)]);
+
+    const short = { title: 'Curto', content: 'ok' };
+    expect(splitLongArticle(short, 10)).toEqual([short]);
+  });
+});
+
+describe('parseDocument', () => {
+  it('recusa formatos não suportados', async () => {
+    expect(await parseDocument(file('planilha.xlsx', 'x'))).toEqual({
+      format: 'text',
+      articles: [],
+      errors: ['Formato não suportado: planilha.xlsx (use Markdown, texto, CSV ou PDF)']
+    });
+  });
+
+  it('lê o texto extraído do PDF e informa PDFs ilegíveis', async () => {
+    (pdfParse as unknown as jest.Mock)
+      .mockResolvedValueOnce({ text: 'Garantia\n\nDoze meses a partir da compra.' })
+      .mockRejectedValueOnce(new Error('Invalid PDF structure'));
+
+    expect(await parseDocument(file('garantia.pdf', '%PDF'))).toEqual({
+      format: 'pdf',
+      articles: [{ title: 'Garantia', content: 'Doze meses a partir da compra.' }],
+      errors: []
+    });
+
+    expect((await parseDocument(file('quebrado.pdf', '%PDF'))).errors).toEqual([
+      'Não foi possível ler o PDF: Invalid PDF structure'
+    ]);
+  });
+});
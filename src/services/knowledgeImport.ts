@@ -0,0 +1,307 @@
+import path from 'path';
+import pdfParse from 'pdf-parse';
+import { normalizeText } from './nlu';
+
+// Limites de uma importação
+export const MAX_IMPORT_FILE_BYTES = 10 * 1024 * 1024;
+export const MAX_IMPORT_ARTICLES = 500;
+
+// Documentos maiores que isso são divididos em vários artigos
+export const MAX_ARTICLE_CHARS = 4000;
+
+export const IMPORT_FORMATS = ['markdown', 'text', 'csv', 'pdf'] as const;
+
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export interface ImportedArticle {
+  title: string;
+  content: string;
+  category?: string;
+  tags?: string[];
+}
+
+export interface ImportFile {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+}
+
+export interface ParsedDocument {
+  format: ImportFormat;
+  articles: ImportedArticle[];
+  // Problemas em partes do arquivo (ex.: linhas do CSV sem resposta); o restante é importado
+  errors: string[];
+}
+
+// Colunas aceitas no CSV de FAQ (cabeçalho em português ou inglês)
+const CSV_COLUMNS: { [field in 'title' | 'content' | 'category' | 'tags']: string[] } = {
+  title: ['pergunta', 'question', 'titulo', 'title'],
+  content: ['resposta', 'answer', 'conteudo', 'content'],
+  category: ['categoria', 'category'],
+  tags: ['tags', 'etiquetas']
+};
+
+export function detectFormat(file: Pick<ImportFile, 'originalname' | 'mimetype'>): ImportFormat | null {
+  const extension = path.extname(file.originalname || '').toLowerCase();
+
+  if (['.md', '.markdown'].includes(extension) || file.mimetype === 'text/markdown') return 'markdown';
+  if (extension === '.csv' || file.mimetype === 'text/csv') return 'csv';
+  if (extension === '.pdf' || file.mimetype === 'application/pdf') return 'pdf';
+  if (extension === '.txt' || file.mimetype === 'text/plain') return 'text';
+
+  return null;
+}
+
+// Título padrão a partir do nome do arquivo: "faq_entregas.md" → "faq entregas"
+function titleFromFilename(filename: string): string {
+  return path.basename(filename, path.extname(filename)).replace(/[_-]+/g, ' ').trim() || 'Documento importado';
+}
+
+/**
+ * Divide um artigo longo em partes de até maxChars, quebrando entre parágrafos.
+ * As partes recebem o sufixo "(parte n/total)" no título.
+ */
+export function splitLongArticle(article: ImportedArticle, maxChars: number = MAX_ARTICLE_CHARS): ImportedArticle[] {
+  if (article.content.length <= maxChars) {
+    return [article];
+  }
+
+  const parts: string[] = [];
+  let current = '';
+
+  for (const paragraph of article.content.split(/\n\s*\n/)) {
+    // Parágrafos maiores que o limite são cortados no tamanho máximo
+    for (let start = 0; start < paragraph.length || start === 0; start += maxChars) {
+      const piece = paragraph.slice(start, start + maxChars).trim();
+      if (!piece) break;
+
+      if (current && current.length + 2 + piece.length > maxChars) {
+        parts.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+
+  if (current) {
+    parts.push(current);
+  }
+
+  return parts.map((content, index) => ({
+    ...article,
+    title: `${article.title} (parte ${index + 1}/${parts.length})`,
+    content
+  }));
+}
+
+/**
+ * Markdown: cada seção vira um artigo. As seções são do menor nível de
+ * título que se repete no documento; um título único de nível mais alto é o
+ * título do documento e vira a categoria sugerida.
+ */
+export function parseMarkdown(text: string, filename: string): ImportedArticle[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const headings = lines
+    .map((line, index) => ({ index, match: line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/) }))
+    .filter(heading => heading.match)
+    .map(heading => ({ index: heading.index, level: heading.match![1].length, title: heading.match![2].trim() }));
+
+  const levels = Array.from(new Set(headings.map(heading => heading.level))).sort();
+  const sectionLevel = levels.find(level => headings.filter(heading => heading.level === level).length > 1) ?? levels[0];
+
+  if (sectionLevel === undefined) {
+    const content = text.trim();
+    return content ? [{ title: titleFromFilename(filename), content }] : [];
+  }
+
+  const documentTitle = headings.find(heading => heading.level < sectionLevel)?.title;
+  const sections = headings.filter(heading => heading.level === sectionLevel);
+  const articles: ImportedArticle[] = [];
+
+  // Texto antes da primeira seção (introdução do documento)
+  const intro = lines
+    .slice(0, sections[0].index)
+    .filter(line => !/^#{1,6}\s/.test(line))
+    .join('\n')
+    .trim();
+  if (intro) {
+    articles.push({ title: documentTitle || titleFromFilename(filename), content: intro });
+  }
+
+  sections.forEach((section, i) => {
+    const end = sections[i + 1]?.index ?? lines.length;
+    const content = lines.slice(section.index + 1, end).join('\n').trim();
+    if (content) {
+      articles.push({ title: section.title, content });
+    }
+  });
+
+  return articles.map(article => ({ ...article, ...(documentTitle && { category: documentTitle }) }));
+}
+
+/**
+ * Texto puro: a primeira linha é o título quando for curta e seguida de uma
+ * linha em branco; senão o título vem do nome do arquivo.
+ */
+export function parsePlainText(text: string, filename: string): ImportedArticle[] {
+  const normalized = text.replace(/\r\n/g, '\n').trim();
+
+  if (!normalized) {
+    return [];
+  }
+
+  const [firstLine, ...rest] = normalized.split('\n');
+  const hasTitle = firstLine.length <= 120 && rest.length > 1 && rest[0].trim() === '';
+
+  return [{
+    title: hasTitle ? firstLine.trim() : titleFromFilename(filename),
+    content: hasTitle ? rest.join('\n').trim() : normalized
+  }];
+}
+
+// CSV com aspas (RFC 4180); o separador é "," ou ";" (padrão do Excel em português)
+function parseCsvRows(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+/**
+ * CSV de FAQ: uma pergunta por linha, com colunas pergunta/resposta e,
+ * opcionalmente, categoria e tags (separadas por vírgula ou "|").
+ */
+export function parseFaqCsv(text: string): { articles: ImportedArticle[]; errors: string[] } {
+  const [header, ...rows] = parseCsvRows(text);
+
+  if (!header) {
+    return { articles: [], errors: ['CSV vazio'] };
+  }
+
+  const columns = header.map(name => normalizeText(name));
+  const indexOf = (field: keyof typeof CSV_COLUMNS) => columns.findIndex(name => CSV_COLUMNS[field].includes(name));
+  const titleIndex = indexOf('title');
+  const contentIndex = indexOf('content');
+
+  if (titleIndex < 0 || contentIndex < 0) {
+    return { articles: [], errors: ['O CSV deve ter as colunas "pergunta" e "resposta" (ou "question" e "answer")'] };
+  }
+
+  const categoryIndex = indexOf('category');
+  const tagsIndex = indexOf('tags');
+  const articles: ImportedArticle[] = [];
+  const errors: string[] = [];
+
+  rows.forEach((cells, i) => {
+    // Linha 1 é o cabeçalho
+    const line = i + 2;
+    const title = cells[titleIndex]?.replace(/\s+/g, ' ').trim();
+    const content = cells[contentIndex]?.trim();
+
+    if (!title || !content) {
+      errors.push(`Linha ${line}: pergunta e resposta são obrigatórias`);
+      return;
+    }
+
+    const category = categoryIndex >= 0 ? cells[categoryIndex]?.trim() : undefined;
+    const tags = tagsIndex >= 0 ? (cells[tagsIndex] || '').split(/[,|]/).map(tag => tag.trim()).filter(Boolean) : [];
+
+    articles.push({ title, content, ...(category && { category }), ...(tags.length > 0 && { tags }) });
+  });
+
+  return { articles, errors };
+}
+
+/**
+ * Converte um arquivo enviado em artigos da base de conhecimento,
+ * já divididos quando longos demais.
+ */
+export async function parseDocument(file: ImportFile): Promise<ParsedDocument> {
+  const format = detectFormat(file);
+
+  if (!format) {
+    return {
+      format: 'text',
+      articles: [],
+      errors: [`Formato não suportado: ${file.originalname} (use Markdown, texto, CSV ou PDF)`]
+    };
+  }
+
+  let parsed: { articles: ImportedArticle[]; errors: string[] };
+
+  switch (format) {
+    case 'markdown':
+      parsed = { articles: parseMarkdown(file.buffer.toString('utf8'), file.originalname), errors: [] };
+      break;
+
+    case 'csv':
+      parsed = parseFaqCsv(file.buffer.toString('utf8'));
+      break;
+
+    case 'pdf': {
+      try {
+        const pdf = await pdfParse(file.buffer);
+        parsed = { articles: parsePlainText(pdf.text, file.originalname), errors: [] };
+      } catch (error: any) {
+        parsed = { articles: [], errors: [`Não foi possível ler o PDF: ${error.message}`] };
+      }
+      break;
+    }
+
+    default:
+      parsed = { articles: parsePlainText(file.buffer.toString('utf8'), file.originalname), errors: [] };
+  }
+
+  const articles = parsed.articles.flatMap(article => splitLongArticle(article));
+  const errors = [...parsed.errors];
+
+  if (articles.length > MAX_IMPORT_ARTICLES) {
+    errors.push(`O arquivo gerou ${articles.length} artigos; o máximo por importação é ${MAX_IMPORT_ARTICLES}`);
+    return { format, articles: [], errors };
+  }
+
+  if (articles.length === 0 && errors.length === 0) {
+    errors.push('Nenhum conteúdo encontrado no arquivo');
+  }
+
+  return { format, articles, errors };
+}
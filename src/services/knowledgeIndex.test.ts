@@ -0,0 +1,132 @@
+jest.mock('../index', () => ({ io: { to: () => ({ emit: jest.fn() }) } }));
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('./openai', () => ({ __esModule: true, EMBEDDING_MODEL: 'text-embedding-ada-002', default: { generateEmbedding: jest.fn() } }));
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: {
+    knowledgeBase: { findUnique: jest.fn(), update: jest.fn() },
+    knowledgeChunk: { findFirst: jest.fn(), findMany: jest.fn(), deleteMany: jest.fn(), createMany: jest.fn() },
+    $transaction: jest.fn(async (operations: any[]) => operations)
+  }
+}));
+
+import prisma from '../utils/database';
+import openaiService from './openai';
+import { chunkText, KnowledgeIndexService } from './knowledgeIndex';
+
+const db = prisma as any;
+const generateEmbedding = openaiService.generateEmbedding as jest.Mock;
+
+const chunkRow = (id: string, content: string, embedding: number[] = []) => ({
+  id,
+  knowledgeBaseId: `article-${id}`,
+  content,
+  embedding,
+  knowledgeBase: { title: `Artigo ${id}`, category: 'faq' }
+});
+
+let service: KnowledgeIndexService;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  service = new KnowledgeIndexService();
+});
+
+describe('chunkText', () => {
+  it('junta parágrafos enquanto couberem no limite, contando o separador', () => {
+    expect(chunkText('aaaa\n\nbbbb\n\ncccc', 10)).toEqual(['aaaa\n\nbbbb', 'cccc']);
+    expect(chunkText('aaaa\n\nbbbb', 9)).toEqual(['aaaa', 'bbbb']);
+  });
+
+  it('divide por frases o parágrafo que não cabe', () => {
+    expect(chunkText('Primeira frase. Segunda frase!', 20)).toEqual(['Primeira frase.', 'Segunda frase!']);
+  });
+
+  it('corta uma frase maior que o limite em pedaços de maxChars', () => {
+    const sentence = 'x'.repeat(25);
+
+    expect(chunkText(sentence, 10)).toEqual(['x'.repeat(10), 'x'.repeat(10), 'x'.repeat(5)]);
+    expect(chunkText(sentence, 10).every(chunk => chunk.length <= 10)).toBe(true);
+  });
+
+  it('ignora parágrafos vazios', () => {
+    expect(chunkText('\n\n  \n\nTexto\n\n\n\n', 100)).toEqual(['Texto']);
+    expect(chunkText('', 100)).toEqual([]);
+  });
+});
+
+describe('KnowledgeIndexService.indexArticle', () => {
+  const article = { id: 'article-1', title: 'Trocas', content: 'Trocas em até 7 dias.', companyId: 'company-1' };
+
+  it('não reindexa quando o conteúdo não mudou', async () => {
+    db.knowledgeBase.findUnique.mockResolvedValue(article);
+    generateEmbedding.mockResolvedValue([0.1, 0.2]);
+    await service.indexArticle('article-1', { force: true });
+    const { contentHash } = db.knowledgeChunk.createMany.mock.calls[0][0].data[0];
+
+    db.knowledgeChunk.findFirst.mockResolvedValue({ contentHash });
+
+    expect(await service.indexArticle('article-1')).toEqual({ chunks: 0, embedded: false, skipped: true });
+  });
+
+  it('grava os trechos sem embedding quando o provedor devolve vetor zerado', async () => {
+    db.knowledgeBase.findUnique.mockResolvedValue(article);
+    db.knowledgeChunk.findFirst.mockResolvedValue(null);
+    generateEmbedding.mockResolvedValue([0, 0, 0]);
+
+    expect(await service.indexArticle('article-1')).toEqual({ chunks: 1, embedded: false, skipped: false });
+    expect(db.knowledgeChunk.createMany.mock.calls[0][0].data[0]).toMatchObject({ embedding: [], model: null, companyId: 'company-1' });
+  });
+});
+
+describe('KnowledgeIndexService.search', () => {
+  it('usa os termos em comum quando os trechos não têm embedding', async () => {
+    db.knowledgeChunk.findMany.mockResolvedValue([
+      chunkRow('1', 'Prazo de troca de produtos com defeito'),
+      chunkRow('2', 'Formas de pagamento aceitas')
+    ]);
+
+    const matches = await service.search('company-1', 'Qual o prazo de troca?');
+
+    expect(generateEmbedding).not.toHaveBeenCalled();
+    expect(matches.map(match => match.chunkId)).toEqual(['1']);
+    expect(matches[0]).toMatchObject({ articleId: 'article-1', title: 'Artigo 1', category: 'faq' });
+  });
+
+  it('volta para os termos em comum quando o embedding da pergunta vem zerado', async () => {
+    db.knowledgeChunk.findMany.mockResolvedValue([
+      chunkRow('1', 'Prazo de troca de produtos com defeito', [1, 0]),
+      chunkRow('2', 'Formas de pagamento aceitas', [0, 1])
+    ]);
+    generateEmbedding.mockResolvedValue([0, 0]);
+
+    const matches = await service.search('company-1', 'formas de pagamento');
+
+    expect(matches.map(match => match.chunkId)).toEqual(['2']);
+  });
+
+  it('ordena por similaridade de cosseno e descarta trechos abaixo do mínimo', async () => {
+    db.knowledgeChunk.findMany.mockResolvedValue([
+      chunkRow('1', 'Prazo de troca', [1, 0]),
+      chunkRow('2', 'Pagamento', [0.8, 0.6]),
+      chunkRow('3', 'Entrega', [0, 1])
+    ]);
+    generateEmbedding.mockResolvedValue([0.8, 0.6]);
+
+    const matches = await service.search('company-1', 'qualquer pergunta');
+
+    expect(matches.map(match => [match.chunkId, match.score])).toEqual([['2', 1], ['1', 0.8]]);
+  });
+
+  it('mantém os trechos em cache até a próxima indexação', async () => {
+    db.knowledgeChunk.findMany.mockResolvedValue([chunkRow('1', 'Prazo de troca')]);
+
+    await service.search('company-1', 'troca');
+    await service.search('company-1', 'troca');
+    expect(db.knowledgeChunk.findMany).toHaveBeenCalledTimes(1);
+
+    service.invalidate('company-1');
+    await service.search('company-1', 'troca');
+    expect(db.knowledgeChunk.findMany).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,300 @@
+import { createHash } from 'crypto';
+import prisma from '../utils/database';
+import logger from '../utils/logger';
+import openaiService, { EMBEDDING_MODEL } from './openai';
+import { normalizeText } from './nlu';
+
+// Tamanho máximo de um trecho indexado (em caracteres)
+export const CHUNK_MAX_CHARS = 1000;
+
+// Similaridade mínima (cosseno) para um trecho ser considerado relevante
+const MIN_SIMILARITY = 0.75;
+
+// Sem embeddings: fração mínima dos termos da pergunta presentes no trecho
+const MIN_KEYWORD_SCORE = 0.3;
+
+// Os trechos de cada empresa ficam em memória por este tempo (ou até a próxima indexação)
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+export interface KnowledgeMatch {
+  articleId: string;
+  title: string;
+  category: string;
+  chunkId: string;
+  content: string;
+  score: number;
+}
+
+export interface IndexResult {
+  chunks: number;
+  embedded: boolean;
+  // O conteúdo não mudou desde a última indexação
+  skipped: boolean;
+}
+
+interface CachedChunk {
+  id: string;
+  articleId: string;
+  title: string;
+  category: string;
+  content: string;
+  embedding: number[];
+  terms: Set<string>;
+}
+
+/**
+ * Divide o texto em trechos de até maxChars, respeitando parágrafos e,
+ * quando um parágrafo não cabe, frases.
+ */
+export function chunkText(text: string, maxChars: number = CHUNK_MAX_CHARS): string[] {
+  const pieces = text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .flatMap(paragraph => paragraph.length <= maxChars
+      ? [paragraph]
+      : paragraph.split(/(?<=[.!?])\s+/).flatMap(sentence => {
+        const parts: string[] = [];
+        for (let start = 0; start < sentence.length; start += maxChars) {
+          parts.push(sentence.slice(start, start + maxChars));
+        }
+        return parts;
+      }));
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    if (current && current.length + 2 + piece.length > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+// generateEmbedding devolve um vetor zerado quando a OpenAI não está configurada ou falha
+function isEmptyEmbedding(embedding: number[]): boolean {
+  return embedding.length === 0 || embedding.every(value => value === 0);
+}
+
+function toTerms(text: string): Set<string> {
+  return new Set(normalizeText(text).split(/\W+/).filter(term => term.length >= 3));
+}
+
+function contentHash(title: string, content: string): string {
+  return createHash('sha256').update(`${title}\n${content}`).digest('hex');
+}
+
+/**
+ * Índice da base de conhecimento para respostas da IA: os artigos são divididos
+ * em trechos com embedding e a busca compara a mensagem do cliente com os
+ * trechos da empresa em memória. Sem provedor de embeddings, a busca usa os
+ * termos em comum entre a mensagem e os trechos.
+ */
+export class KnowledgeIndexService {
+  private cache = new Map<string, { loadedAt: number; chunks: CachedChunk[] }>();
+
+  async indexArticle(articleId: string, options: { force?: boolean } = {}): Promise<IndexResult> {
+    const article = await prisma.knowledgeBase.findUnique({ where: { id: articleId } });
+
+    if (!article) {
+      throw new Error(`Artigo não encontrado: ${articleId}`);
+    }
+
+    const hash = contentHash(article.title, article.content);
+
+    if (!options.force) {
+      const indexed = await prisma.knowledgeChunk.findFirst({
+        where: { knowledgeBaseId: article.id },
+        select: { contentHash: true }
+      });
+
+      if (indexed?.contentHash === hash) {
+        return { chunks: 0, embedded: false, skipped: true };
+      }
+    }
+
+    const pieces = chunkText(article.content);
+    const embeddings: number[][] = [];
+
+    // Um embedding vazio indica que não há provedor: os demais trechos nem são enviados
+    for (const piece of pieces) {
+      const embedding = await openaiService.generateEmbedding(`${article.title}\n\n${piece}`, article.companyId);
+      if (isEmptyEmbedding(embedding)) {
+        embeddings.length = 0;
+        break;
+      }
+      embeddings.push(embedding);
+    }
+
+    const embedded = embeddings.length === pieces.length && pieces.length > 0;
+
+    await prisma.$transaction([
+      prisma.knowledgeChunk.deleteMany({ where: { knowledgeBaseId: article.id } }),
+      prisma.knowledgeChunk.createMany({
+        data: pieces.map((content, position) => ({
+          position,
+          content,
+          embedding: embedded ? embeddings[position] : [],
+          model: embedded ? EMBEDDING_MODEL : null,
+          contentHash: hash,
+          knowledgeBaseId: article.id,
+          companyId: article.companyId
+        }))
+      }),
+      prisma.knowledgeBase.update({
+        where: { id: article.id },
+        data: { indexedAt: new Date() }
+      })
+    ]);
+
+    this.invalidate(article.companyId);
+
+    logger.info('Artigo da base de conhecimento indexado', {
+      articleId: article.id,
+      companyId: article.companyId,
+      chunks: pieces.length,
+      embedded
+    });
+
+    return { chunks: pieces.length, embedded, skipped: false };
+  }
+
+  /**
+   * Reindexa os artigos ativos da empresa, um por vez. Falhas em um artigo
+   * não interrompem os demais.
+   */
+  async reindexCompany(companyId: string, options: { force?: boolean } = {}) {
+    const articles = await prisma.knowledgeBase.findMany({
+      where: { companyId, isActive: true },
+      select: { id: true }
+    });
+
+    const result = { articles: articles.length, indexed: 0, skipped: 0, chunks: 0, failed: [] as string[] };
+
+    for (const article of articles) {
+      try {
+        const indexed = await this.indexArticle(article.id, options);
+        if (indexed.skipped) {
+          result.skipped++;
+        } else {
+          result.indexed++;
+          result.chunks += indexed.chunks;
+        }
+      } catch (error: any) {
+        logger.error('Erro ao indexar artigo', { articleId: article.id, error: error.message });
+        result.failed.push(article.id);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Trechos da empresa mais relevantes para a mensagem, do mais ao menos similar.
+   */
+  async search(companyId: string, query: string, limit: number = 4): Promise<KnowledgeMatch[]> {
+    const chunks = await this.loadChunks(companyId);
+
+    if (chunks.length === 0 || !query.trim()) {
+      return [];
+    }
+
+    const queryEmbedding = chunks.some(chunk => chunk.embedding.length > 0)
+      ? await openaiService.generateEmbedding(query, companyId)
+      : [];
+    const useEmbeddings = !isEmptyEmbedding(queryEmbedding);
+    const queryTerms = Array.from(toTerms(query));
+
+    return chunks
+      .map(chunk => {
+        if (useEmbeddings && chunk.embedding.length === queryEmbedding.length) {
+          const score = cosineSimilarity(queryEmbedding, chunk.embedding);
+          return { chunk, score, relevant: score >= MIN_SIMILARITY };
+        }
+
+        const score = queryTerms.length > 0
+          ? queryTerms.filter(term => chunk.terms.has(term)).length / queryTerms.length
+          : 0;
+        return { chunk, score, relevant: score >= MIN_KEYWORD_SCORE };
+      })
+      .filter(match => match.relevant)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ chunk, score }) => ({
+        articleId: chunk.articleId,
+        title: chunk.title,
+        category: chunk.category,
+        chunkId: chunk.id,
+        content: chunk.content,
+        score: Math.round(score * 1000) / 1000
+      }));
+  }
+
+  // Conta uma visualização para cada artigo usado em uma resposta
+  async markUsed(articleIds: string[]): Promise<void> {
+    const ids = Array.from(new Set(articleIds));
+
+    if (ids.length > 0) {
+      await prisma.knowledgeBase.updateMany({
+        where: { id: { in: ids } },
+        data: { views: { increment: 1 } }
+      });
+    }
+  }
+
+  invalidate(companyId: string): void {
+    this.cache.delete(companyId);
+  }
+
+  private async loadChunks(companyId: string): Promise<CachedChunk[]> {
+    const cached = this.cache.get(companyId);
+
+    if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+      return cached.chunks;
+    }
+
+    const rows = await prisma.knowledgeChunk.findMany({
+      where: { companyId, knowledgeBase: { isActive: true } },
+      include: { knowledgeBase: { select: { title: true, category: true } } },
+      orderBy: [{ knowledgeBaseId: 'asc' }, { position: 'asc' }]
+    });
+
+    const chunks = rows.map(row => ({
+      id: row.id,
+      articleId: row.knowledgeBaseId,
+      title: row.knowledgeBase.title,
+      category: row.knowledgeBase.category,
+      content: row.content,
+      embedding: row.embedding,
+      terms: toTerms(`${row.knowledgeBase.title} ${row.content}`)
+    }));
+
+    this.cache.set(companyId, { loadedAt: Date.now(), chunks });
+
+    return chunks;
+  }
+}
+
+export default new KnowledgeIndexService();
@@ -0,0 +1,727 @@
+import axios from 'axios';
+import { AIProvider } from '@prisma/client';
+import logger from '../utils/logger';
+import aiUsageService, { estimateTokens } from './aiUsage';
+
+// Tempo máximo de uma chamada ao provedor
+const LLM_TIMEOUT_MS = 60000;
+
+export const LLM_PROVIDERS: AIProvider[] = Object.values(AIProvider);
+
+export interface LLMMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMResult {
+  content: string;
+  provider: AIProvider;
+  model: string;
+  usage: LLMUsage | null;
+  finishReason: string | null;
+}
+
+export interface LLMStreamOptions {
+  // Recebe cada trecho de texto assim que o provedor o envia
+  onDelta: (text: string) => void;
+  // Interrompe a geração; o stream é rejeitado com "Geração cancelada"
+  signal?: AbortSignal;
+}
+
+/**
+ * Provedor, modelo e chave usados em uma chamada. Os assistentes IA
+ * (AIAssistant) têm esse formato; sem apiKey vale a chave global do provedor.
+ */
+export interface LLMTarget {
+  provider: AIProvider | string;
+  model?: string | null;
+  apiKey?: string | null;
+  // Azure: { azureEndpoint, azureApiVersion }
+  settings?: any;
+  // Assistente e empresa a quem o uso é atribuído (e cujo limite do plano vale)
+  id?: string | null;
+  companyId?: string | null;
+}
+
+interface ResolvedTarget {
+  model: string;
+  apiKey: string;
+  // A chave é do próprio assistente (e não a global do provedor)
+  ownKey: boolean;
+  settings: { [key: string]: any };
+}
+
+interface LLMProviderAdapter {
+  // Variável de ambiente com a chave global do provedor
+  readonly apiKeyEnv: string;
+  // Modelo usado quando o assistente não informa um (null = obrigatório)
+  readonly defaultModel: string | null;
+  readonly models: { id: string; name: string }[];
+  complete(request: LLMRequest, target: ResolvedTarget): Promise<Omit<LLMResult, 'provider'>>;
+  stream(request: LLMRequest, target: ResolvedTarget, options: LLMStreamOptions): Promise<Omit<LLMResult, 'provider'>>;
+}
+
+// URL, cabeçalhos e campos próprios do provedor em uma chamada de chat completions
+interface ChatCompletionEndpoint {
+  url: string;
+  headers: { [key: string]: string };
+  body: { [key: string]: any };
+}
+
+/**
+ * Lê um corpo text/event-stream e devolve o campo data de cada evento.
+ * Abortar o signal encerra a leitura.
+ */
+async function* postServerSentEvents(
+  url: string,
+  headers: { [key: string]: string },
+  body: { [key: string]: any },
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const response = await axios.post(url, body, {
+    headers: { 'Content-Type': 'application/json', ...headers },
+    timeout: LLM_TIMEOUT_MS,
+    responseType: 'stream',
+    signal
+  });
+
+  const stream: NodeJS.ReadableStream & { destroy(): void } = response.data;
+  const abort = () => stream.destroy();
+  signal?.addEventListener('abort', abort);
+
+  try {
+    stream.setEncoding('utf8');
+
+    let buffer = '';
+    let data: string[] = [];
+
+    for await (const chunk of stream) {
+      buffer += chunk;
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+
+        // Linha em branco fecha o evento
+        if (line === '' && data.length > 0) {
+          yield data.join('\n');
+          data = [];
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+    }
+
+    if (data.length > 0) {
+      yield data.join('\n');
+    }
+  } finally {
+    signal?.removeEventListener('abort', abort);
+  }
+}
+
+function parseChatCompletionUsage(usage: any): LLMUsage | null {
+  return usage ? {
+    promptTokens: usage.prompt_tokens || 0,
+    completionTokens: usage.completion_tokens || 0,
+    totalTokens: usage.total_tokens || (usage.prompt_tokens || 0) + (usage.completion_tokens || 0)
+  } : null;
+}
+
+function chatCompletionBody(endpoint: ChatCompletionEndpoint, request: LLMRequest) {
+  return {
+    ...endpoint.body,
+    messages: request.messages,
+    max_tokens: request.maxTokens ?? 500,
+    temperature: request.temperature ?? 0.7
+  };
+}
+
+// Formato de chat completions compartilhado por OpenAI, OpenRouter e Azure OpenAI
+async function postChatCompletion(
+  endpoint: ChatCompletionEndpoint,
+  request: LLMRequest
+): Promise<Omit<LLMResult, 'provider'>> {
+  const response = await axios.post(endpoint.url, chatCompletionBody(endpoint, request), {
+    headers: { 'Content-Type': 'application/json', ...endpoint.headers },
+    timeout: LLM_TIMEOUT_MS
+  });
+
+  const choice = response.data.choices?.[0];
+
+  return {
+    content: choice?.message?.content || '',
+    model: response.data.model || endpoint.body.model,
+    finishReason: choice?.finish_reason ?? null,
+    usage: parseChatCompletionUsage(response.data.usage)
+  };
+}
+
+// Versão com stream: o uso de tokens, quando o provedor informa, vem no último evento
+async function streamChatCompletion(
+  endpoint: ChatCompletionEndpoint,
+  request: LLMRequest,
+  options: LLMStreamOptions
+): Promise<Omit<LLMResult, 'provider'>> {
+  const events = postServerSentEvents(
+    endpoint.url,
+    endpoint.headers,
+    { ...chatCompletionBody(endpoint, request), stream: true },
+    options.signal
+  );
+
+  const result: Omit<LLMResult, 'provider'> = { content: '', model: endpoint.body.model, finishReason: null, usage: null };
+
+  for await (const data of events) {
+    if (data === '[DONE]') break;
+
+    const chunk = JSON.parse(data);
+    const choice = chunk.choices?.[0];
+    const delta = choice?.delta?.content;
+
+    if (delta) {
+      result.content += delta;
+      options.onDelta(delta);
+    }
+
+    result.model = chunk.model || result.model;
+    result.finishReason = choice?.finish_reason ?? result.finishReason;
+    result.usage = parseChatCompletionUsage(chunk.usage) ?? result.usage;
+  }
+
+  return result;
+}
+
+function openAIEndpoint({ model, apiKey }: ResolvedTarget): ChatCompletionEndpoint {
+  return {
+    url: 'https://api.openai.com/v1/chat/completions',
+    headers: { 'Authorization': `Bearer ${apiKey}` },
+    body: { model, presence_penalty: 0.1, frequency_penalty: 0.1 }
+  };
+}
+
+const openAIAdapter: LLMProviderAdapter = {
+  apiKeyEnv: 'OPENAI_API_KEY',
+  defaultModel: 'gpt-4',
+  models: [
+    { id: 'gpt-4o', name: 'GPT-4o' },
+    { id: 'gpt-4o-mini', name: 'GPT-4o mini' },
+    { id: 'gpt-4', name: 'GPT-4' },
+    { id: 'gpt-4-turbo', name: 'GPT-4 Turbo' },
+    { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo' }
+  ],
+
+  complete(request, target) {
+    return postChatCompletion(openAIEndpoint(target), request);
+  },
+
+  stream(request, target, options) {
+    const endpoint = openAIEndpoint(target);
+    return streamChatCompletion(
+      { ...endpoint, body: { ...endpoint.body, stream_options: { include_usage: true } } },
+      request,
+      options
+    );
+  }
+};
+
+function openRouterEndpoint({ model, apiKey }: ResolvedTarget): ChatCompletionEndpoint {
+  return {
+    url: 'https://openrouter.ai/api/v1/chat/completions',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'HTTP-Referer': process.env.FRONTEND_URL || 'http://localhost:5173',
+      'X-Title': 'WhatsApp AI Assistant'
+    },
+    body: { model }
+  };
+}
+
+const openRouterAdapter: LLMProviderAdapter = {
+  apiKeyEnv: 'OPENROUTER_API_KEY',
+  defaultModel: 'anthropic/claude-3-sonnet',
+  models: [
+    { id: 'anthropic/claude-3.5-sonnet', name: 'Claude 3.5 Sonnet' },
+    { id: 'anthropic/claude-3-sonnet', name: 'Claude 3 Sonnet' },
+    { id: 'anthropic/claude-3-haiku', name: 'Claude 3 Haiku' },
+    { id: 'openai/gpt-4o', name: 'GPT-4o' },
+    { id: 'openai/gpt-4', name: 'GPT-4' },
+    { id: 'google/gemini-flash-1.5', name: 'Gemini 1.5 Flash' }
+  ],
+
+  complete(request, target) {
+    return postChatCompletion(openRouterEndpoint(target), request);
+  },
+
+  stream(request, target, options) {
+    const endpoint = openRouterEndpoint(target);
+    return streamChatCompletion(
+      { ...endpoint, body: { ...endpoint.body, stream_options: { include_usage: true } } },
+      request,
+      options
+    );
+  }
+};
+
+// Hosts aceitos no endpoint próprio de um assistente Azure (settings.azureEndpoint)
+const AZURE_HOST_SUFFIXES = ['.openai.azure.com', '.cognitiveservices.azure.com'];
+
+function normalizeEndpoint(endpoint: any): string {
+  return String(endpoint || '').trim().replace(/\/+$/, '');
+}
+
+/**
+ * Erro no endpoint próprio de um assistente Azure, ou null se puder ser usado.
+ * Os assistentes são editados pelas empresas: o endpoint precisa ser HTTPS em
+ * um host do Azure OpenAI e vir com a chave do próprio assistente. A chave
+ * global só é enviada para AZURE_OPENAI_ENDPOINT.
+ */
+export function validateAzureEndpoint(settings: any, hasOwnKey: boolean): string | null {
+  const endpoint = normalizeEndpoint(settings?.azureEndpoint);
+
+  if (!endpoint || endpoint === normalizeEndpoint(process.env.AZURE_OPENAI_ENDPOINT)) {
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return `Endpoint do Azure OpenAI inválido: ${endpoint}`;
+  }
+
+  const hostname = url.hostname.toLowerCase();
+
+  if (url.protocol !== 'https:' || url.username || url.password || url.port
+    || !AZURE_HOST_SUFFIXES.some(suffix => hostname.endsWith(suffix))) {
+    return `Endpoint do Azure OpenAI deve ser https://<recurso>${AZURE_HOST_SUFFIXES[0]} ou https://<recurso>${AZURE_HOST_SUFFIXES[1]}`;
+  }
+
+  if (!hasOwnKey) {
+    return 'Endpoint próprio do Azure OpenAI exige a chave de API do assistente';
+  }
+
+  return null;
+}
+
+// No Azure o "modelo" é o nome do deployment criado no recurso
+function azureEndpoint({ model, apiKey, ownKey, settings }: ResolvedTarget): ChatCompletionEndpoint {
+  const endpointError = validateAzureEndpoint(settings, ownKey);
+  if (endpointError) {
+    throw new Error(endpointError);
+  }
+
+  const endpoint = normalizeEndpoint(settings.azureEndpoint || process.env.AZURE_OPENAI_ENDPOINT);
+  const apiVersion = settings.azureApiVersion || process.env.AZURE_OPENAI_API_VERSION || '2024-02-01';
+
+  if (!endpoint) {
+    throw new Error('Endpoint do Azure OpenAI não configurado (settings.azureEndpoint ou AZURE_OPENAI_ENDPOINT)');
+  }
+
+  return {
+    url: `${endpoint}/openai/deployments/${encodeURIComponent(model)}/chat/completions?api-version=${encodeURIComponent(apiVersion)}`,
+    headers: { 'api-key': apiKey },
+    body: {}
+  };
+}
+
+// stream_options depende da versão da API configurada, então o uso de tokens só vem quando o Azure envia
+const azureAdapter: LLMProviderAdapter = {
+  apiKeyEnv: 'AZURE_OPENAI_API_KEY',
+  defaultModel: null,
+  models: [],
+
+  async complete(request, target) {
+    return postChatCompletion(azureEndpoint(target), request);
+  },
+
+  async stream(request, target, options) {
+    return streamChatCompletion(azureEndpoint(target), request, options);
+  }
+};
+
+const ANTHROPIC_URL = 'https://api.anthropic.com/v1/messages';
+
+function anthropicHeaders(apiKey: string) {
+  return { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' };
+}
+
+// A API de mensagens recebe o prompt de sistema separado das mensagens
+function anthropicBody(request: LLMRequest, model: string) {
+  const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+
+  return {
+    model,
+    ...(system && { system }),
+    messages: request.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role, content: m.content })),
+    max_tokens: request.maxTokens ?? 500,
+    temperature: request.temperature ?? 0.7
+  };
+}
+
+const anthropicAdapter: LLMProviderAdapter = {
+  apiKeyEnv: 'ANTHROPIC_API_KEY',
+  defaultModel: 'claude-3-5-sonnet-latest',
+  models: [
+    { id: 'claude-3-5-sonnet-latest', name: 'Claude 3.5 Sonnet' },
+    { id: 'claude-3-5-haiku-latest', name: 'Claude 3.5 Haiku' },
+    { id: 'claude-3-opus-latest', name: 'Claude 3 Opus' }
+  ],
+
+  async complete(request, { model, apiKey }) {
+    const response = await axios.post(ANTHROPIC_URL, anthropicBody(request, model), {
+      headers: { ...anthropicHeaders(apiKey), 'Content-Type': 'application/json' },
+      timeout: LLM_TIMEOUT_MS
+    });
+
+    const usage = response.data.usage;
+
+    return {
+      content: (response.data.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join(''),
+      model: response.data.model || model,
+      finishReason: response.data.stop_reason ?? null,
+      usage: usage ? {
+        promptTokens: usage.input_tokens || 0,
+        completionTokens: usage.output_tokens || 0,
+        totalTokens: (usage.input_tokens || 0) + (usage.output_tokens || 0)
+      } : null
+    };
+  },
+
+  // Eventos: message_start (modelo e tokens de entrada), content_block_delta (texto) e message_delta (fim e tokens de saída)
+  async stream(request, { model, apiKey }, options) {
+    const events = postServerSentEvents(
+      ANTHROPIC_URL,
+      anthropicHeaders(apiKey),
+      { ...anthropicBody(request, model), stream: true },
+      options.signal
+    );
+
+    const result: Omit<LLMResult, 'provider'> = { content: '', model, finishReason: null, usage: null };
+    let promptTokens = 0;
+    let completionTokens = 0;
+
+    for await (const data of events) {
+      const event = JSON.parse(data);
+
+      switch (event.type) {
+        case 'message_start':
+          result.model = event.message?.model || result.model;
+          promptTokens = event.message?.usage?.input_tokens || 0;
+          break;
+
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && event.delta.text) {
+            result.content += event.delta.text;
+            options.onDelta(event.delta.text);
+          }
+          break;
+
+        case 'message_delta':
+          result.finishReason = event.delta?.stop_reason ?? result.finishReason;
+          completionTokens = event.usage?.output_tokens || completionTokens;
+          break;
+
+        case 'error':
+          throw new Error(event.error?.message || 'Erro no stream da Anthropic');
+      }
+    }
+
+    result.usage = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+
+    return result;
+  }
+};
+
+function googleModelUrl(model: string): string {
+  return `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}`;
+}
+
+// O Gemini chama as respostas do assistente de "model"
+function googleBody(request: LLMRequest) {
+  const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+
+  return {
+    ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+    contents: request.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+    generationConfig: {
+      maxOutputTokens: request.maxTokens ?? 500,
+      temperature: request.temperature ?? 0.7
+    }
+  };
+}
+
+function googleText(candidate: any): string {
+  return (candidate?.content?.parts || []).map((part: any) => part.text || '').join('');
+}
+
+function parseGoogleUsage(usage: any): LLMUsage | null {
+  return usage ? {
+    promptTokens: usage.promptTokenCount || 0,
+    completionTokens: usage.candidatesTokenCount || 0,
+    totalTokens: usage.totalTokenCount || 0
+  } : null;
+}
+
+const googleAdapter: LLMProviderAdapter = {
+  apiKeyEnv: 'GOOGLE_API_KEY',
+  defaultModel: 'gemini-1.5-flash',
+  models: [
+    { id: 'gemini-1.5-pro', name: 'Gemini 1.5 Pro' },
+    { id: 'gemini-1.5-flash', name: 'Gemini 1.5 Flash' },
+    { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash' }
+  ],
+
+  async complete(request, { model, apiKey }) {
+    const response = await axios.post(`${googleModelUrl(model)}:generateContent`, googleBody(request), {
+      headers: { 'x-goog-api-key': apiKey, 'Content-Type': 'application/json' },
+      timeout: LLM_TIMEOUT_MS
+    });
+
+    const candidate = response.data.candidates?.[0];
+
+    return {
+      content: googleText(candidate),
+      model: response.data.modelVersion || model,
+      finishReason: candidate?.finishReason ?? null,
+      usage: parseGoogleUsage(response.data.usageMetadata)
+    };
+  },
+
+  // Cada evento é uma resposta parcial no mesmo formato do generateContent
+  async stream(request, { model, apiKey }, options) {
+    const events = postServerSentEvents(
+      `${googleModelUrl(model)}:streamGenerateContent?alt=sse`,
+      { 'x-goog-api-key': apiKey },
+      googleBody(request),
+      options.signal
+    );
+
+    const result: Omit<LLMResult, 'provider'> = { content: '', model, finishReason: null, usage: null };
+
+    for await (const data of events) {
+      const chunk = JSON.parse(data);
+      const candidate = chunk.candidates?.[0];
+      const delta = googleText(candidate);
+
+      if (delta) {
+        result.content += delta;
+        options.onDelta(delta);
+      }
+
+      result.model = chunk.modelVersion || result.model;
+      result.finishReason = candidate?.finishReason ?? result.finishReason;
+      result.usage = parseGoogleUsage(chunk.usageMetadata) ?? result.usage;
+    }
+
+    return result;
+  }
+};
+
+const ADAPTERS: { [provider in AIProvider]: LLMProviderAdapter } = {
+  OPENAI: openAIAdapter,
+  OPENROUTER: openRouterAdapter,
+  ANTHROPIC: anthropicAdapter,
+  GOOGLE: googleAdapter,
+  AZURE: azureAdapter
+};
+
+// Aceita também os nomes em minúsculas usados por AI_PROVIDER e pelas rotas antigas
+export function parseProvider(provider: string | null | undefined): AIProvider | null {
+  const normalized = String(provider || '').toUpperCase();
+  return LLM_PROVIDERS.includes(normalized as AIProvider) ? normalized as AIProvider : null;
+}
+
+/**
+ * Ponto único de chamada aos modelos de linguagem: escolhe o adaptador pelo
+ * provedor do alvo (normalmente um assistente IA) e usa a chave do próprio
+ * assistente quando informada.
+ */
+export class LLMGateway {
+  async complete(target: LLMTarget, request: LLMRequest): Promise<LLMResult> {
+    const provider = parseProvider(target.provider);
+
+    if (!provider) {
+      throw new Error(`Provedor de IA não suportado: ${target.provider}`);
+    }
+
+    const adapter = ADAPTERS[provider];
+    const resolved = this.resolveTarget(provider, target);
+
+    await aiUsageService.assertWithinQuota(target.companyId);
+
+    const startedAt = Date.now();
+
+    try {
+      const result = await adapter.complete(request, resolved);
+      this.recordUsage('completion', target, request, { ...result, provider }, startedAt);
+      return { ...result, provider };
+    } catch (error: any) {
+      const providerError = this.providerError(provider, resolved.model, error);
+      // Chamada recusada pelo provedor: nada foi cobrado
+      const noUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      this.recordUsage('completion', target, request, { provider, model: resolved.model, content: '', usage: noUsage }, startedAt, providerError.message);
+      throw providerError;
+    }
+  }
+
+  /**
+   * Como complete, mas repassa o texto a options.onDelta conforme o provedor
+   * gera. O resultado final (conteúdo completo e uso) é o mesmo de complete.
+   */
+  async stream(target: LLMTarget, request: LLMRequest, options: LLMStreamOptions): Promise<LLMResult> {
+    const provider = parseProvider(target.provider);
+
+    if (!provider) {
+      throw new Error(`Provedor de IA não suportado: ${target.provider}`);
+    }
+
+    const adapter = ADAPTERS[provider];
+    const resolved = this.resolveTarget(provider, target);
+
+    await aiUsageService.assertWithinQuota(target.companyId);
+
+    const startedAt = Date.now();
+    // Texto já recebido: em cancelamentos e erros, é o que conta como gerado
+    let received = '';
+
+    try {
+      const result = await adapter.stream(request, resolved, {
+        ...options,
+        onDelta: delta => {
+          received += delta;
+          options.onDelta(delta);
+        }
+      });
+
+      // Encerrar a leitura pelo signal pode terminar o stream sem erro
+      if (options.signal?.aborted) {
+        throw new Error('Geração cancelada');
+      }
+
+      this.recordUsage('stream', target, request, { ...result, provider }, startedAt);
+
+      return { ...result, provider };
+    } catch (error: any) {
+      const partial = { provider, model: resolved.model, content: received, usage: null };
+
+      if (options.signal?.aborted) {
+        logger.info('Geração da IA cancelada', { provider, model: resolved.model });
+        this.recordUsage('stream', target, request, partial, startedAt, 'Geração cancelada');
+        throw new Error('Geração cancelada');
+      }
+
+      const providerError = this.providerError(provider, resolved.model, error);
+      this.recordUsage('stream', target, request, partial, startedAt, providerError.message);
+      throw providerError;
+    }
+  }
+
+  // Alvo padrão das chamadas sem assistente: AI_PROVIDER e AI_MODEL
+  getDefaultTarget(): LLMTarget {
+    return {
+      provider: parseProvider(process.env.AI_PROVIDER) || 'OPENAI',
+      model: process.env.AI_MODEL || null
+    };
+  }
+
+  // Há chave (do assistente ou global) para o provedor?
+  isConfigured(provider: string, apiKey?: string | null): boolean {
+    const parsed = parseProvider(provider);
+    return !!parsed && !!(apiKey || process.env[ADAPTERS[parsed].apiKeyEnv]);
+  }
+
+  getDefaultModel(provider: string): string | null {
+    const parsed = parseProvider(provider);
+    return parsed ? ADAPTERS[parsed].defaultModel : null;
+  }
+
+  getModels(provider: string): { id: string; name: string }[] {
+    const parsed = parseProvider(provider);
+    return parsed ? ADAPTERS[parsed].models : [];
+  }
+
+  // Sem uso informado pelo provedor, os tokens são estimados pelo tamanho das mensagens e da resposta
+  private recordUsage(
+    operation: 'completion' | 'stream',
+    target: LLMTarget,
+    request: LLMRequest,
+    result: Pick<LLMResult, 'provider' | 'model' | 'content' | 'usage'>,
+    startedAt: number,
+    error?: string
+  ): void {
+    const usage = result.usage ?? {
+      promptTokens: estimateTokens(request.messages.map(message => message.content).join('\n')),
+      completionTokens: estimateTokens(result.content)
+    };
+
+    void aiUsageService.record({
+      provider: result.provider,
+      model: result.model,
+      operation,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      estimated: !result.usage,
+      latencyMs: Date.now() - startedAt,
+      success: !error,
+      error,
+      companyId: target.companyId,
+      assistantId: target.id
+    });
+  }
+
+  private providerError(provider: AIProvider, model: string, error: any): Error {
+    // Mensagem de erro do próprio provedor, quando houver (em streams o corpo do erro não é lido)
+    const data = error.response?.data;
+    const detail = typeof data?.pipe === 'function' ? error.message : data?.error?.message || data?.error || error.message;
+
+    logger.error('Erro na chamada ao provedor de IA', {
+      provider,
+      model,
+      status: error.response?.status,
+      error: typeof detail === 'string' ? detail : JSON.stringify(detail)
+    });
+
+    return new Error(`Erro ${provider}: ${typeof detail === 'string' ? detail : error.message}`);
+  }
+
+  private resolveTarget(provider: AIProvider, target: LLMTarget): ResolvedTarget {
+    const adapter = ADAPTERS[provider];
+    const model = target.model || adapter.defaultModel;
+    const apiKey = target.apiKey || process.env[adapter.apiKeyEnv];
+
+    if (!model) {
+      throw new Error(`Modelo não informado para o provedor ${provider}`);
+    }
+
+    if (!apiKey) {
+      throw new Error(`Chave de API não configurada para o provedor ${provider} (${adapter.apiKeyEnv})`);
+    }
+
+    const settings = target.settings && typeof target.settings === 'object' ? target.settings : {};
+
+    return { model, apiKey, ownKey: !!target.apiKey, settings };
+  }
+}
+
+export default new LLMGateway();
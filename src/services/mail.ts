@@ -0,0 +1,186 @@
+import nodemailer from 'nodemailer';
+import sgMail from '@sendgrid/mail';
+import prisma from '../utils/database';
+import logger from '../utils/logger';
+
+export interface MailMessage {
+  from: string;
+  replyTo?: string;
+  to: string[];
+  cc?: string[];
+  subject: string;
+  html?: string;
+  text?: string;
+}
+
+export interface MailDeliveryResult {
+  transport: string;
+  messageId: string | null;
+  accepted: string[];
+  rejected: string[];
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<MailDeliveryResult>;
+}
+
+// Remetente configurado em Company.settings.email
+export interface CompanyMailSettings {
+  fromEmail?: string;
+  fromName?: string;
+  replyTo?: string;
+}
+
+class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined
+    });
+  }
+
+  async send(message: MailMessage): Promise<MailDeliveryResult> {
+    const info = await this.transporter.sendMail(message);
+
+    return {
+      transport: this.name,
+      messageId: info.messageId || null,
+      accepted: info.accepted.map(String),
+      rejected: info.rejected.map(String)
+    };
+  }
+}
+
+class SendGridMailTransport implements MailTransport {
+  readonly name = 'sendgrid';
+
+  constructor(apiKey: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: MailMessage): Promise<MailDeliveryResult> {
+    const [response] = await sgMail.send({
+      from: message.from,
+      replyTo: message.replyTo,
+      to: message.to,
+      cc: message.cc,
+      subject: message.subject,
+      html: message.html,
+      text: message.text || ''
+    });
+
+    // O SendGrid não informa aceitação por destinatário; 202 significa que todos foram aceitos
+    return {
+      transport: this.name,
+      messageId: (response.headers['x-message-id'] as string) || null,
+      accepted: [...message.to, ...(message.cc || [])],
+      rejected: []
+    };
+  }
+}
+
+/**
+ * Transporte local que apenas guarda as mensagens (desenvolvimento e testes).
+ */
+export class CaptureMailTransport implements MailTransport {
+  readonly name = 'capture';
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<MailDeliveryResult> {
+    this.sent.push(message);
+
+    return {
+      transport: this.name,
+      messageId: `capture-${this.sent.length}`,
+      accepted: [...message.to, ...(message.cc || [])],
+      rejected: []
+    };
+  }
+}
+
+function createTransport(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT ||
+    (process.env.SENDGRID_API_KEY ? 'sendgrid' : process.env.SMTP_HOST ? 'smtp' : 'capture');
+
+  switch (transport) {
+    case 'sendgrid':
+      if (!process.env.SENDGRID_API_KEY) {
+        throw new Error('SENDGRID_API_KEY é obrigatório para o transporte sendgrid');
+      }
+      return new SendGridMailTransport(process.env.SENDGRID_API_KEY);
+
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST é obrigatório para o transporte smtp');
+      }
+      return new SmtpMailTransport();
+
+    case 'capture':
+      logger.warn('Emails não serão enviados: transporte de email em modo capture. Configure MAIL_TRANSPORT em produção.');
+      return new CaptureMailTransport();
+
+    default:
+      throw new Error(`Transporte de email não suportado: ${transport}`);
+  }
+}
+
+export class MailService {
+  private transport?: MailTransport;
+
+  constructor(transport?: MailTransport) {
+    this.transport = transport;
+  }
+
+  // O transporte só é criado no primeiro envio, para não exigir configuração de quem não usa email
+  private getTransport(): MailTransport {
+    if (!this.transport) {
+      this.transport = createTransport();
+    }
+    return this.transport;
+  }
+
+  /**
+   * Envia um email em nome da empresa, usando o remetente de Company.settings.email
+   * (ou MAIL_FROM quando a empresa não configurou um).
+   */
+  async send(companyId: string, message: Omit<MailMessage, 'from' | 'replyTo'>): Promise<MailDeliveryResult> {
+    const company = await prisma.company.findUnique({
+      where: { id: companyId },
+      select: { name: true, settings: true }
+    });
+
+    const settings: CompanyMailSettings = (company?.settings as any)?.email || {};
+    const fromEmail = settings.fromEmail || process.env.MAIL_FROM;
+
+    if (!fromEmail) {
+      throw new Error('Remetente de email não configurado (Company.settings.email.fromEmail ou MAIL_FROM)');
+    }
+
+    const fromName = settings.fromName || company?.name;
+    const result = await this.getTransport().send({
+      ...message,
+      from: fromName ? `"${fromName.replace(/"/g, '')}" <${fromEmail}>` : fromEmail,
+      replyTo: settings.replyTo
+    });
+
+    logger.info('Email enviado', {
+      companyId,
+      transport: result.transport,
+      messageId: result.messageId,
+      accepted: result.accepted.length,
+      rejected: result.rejected.length
+    });
+
+    return result;
+  }
+}
+
+export default new MailService();
@@ -0,0 +1,76 @@
+jest.mock('../index', () => ({ io: { to: () => ({ emit: jest.fn() }) } }));
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+
+import { classifyByKeywords, extractEntities, isValidCnpj, isValidCpf } from './nlu';
+
+const now = new Date(2026, 9, 19, 10, 0, 0);
+
+describe('isValidCpf / isValidCnpj', () => {
+  it('confere os dígitos verificadores', () => {
+    expect(isValidCpf('529.982.247-25')).toBe(true);
+    expect(isValidCpf('529.982.247-26')).toBe(false);
+    expect(isValidCpf('111.111.111-11')).toBe(false);
+    expect(isValidCnpj('11.222.333/0001-81')).toBe(true);
+    expect(isValidCnpj('11.222.333/0001-80')).toBe(false);
+  });
+});
+
+describe('extractEntities', () => {
+  it('extrai CPF e CNPJ válidos, com ou sem pontuação', () => {
+    expect(extractEntities('Meu CPF é 529.982.247-25 e o da empresa 11222333000181', ['cpf', 'cnpj'])).toEqual([
+      { type: 'cpf', value: '52998224725', raw: '529.982.247-25' },
+      { type: 'cnpj', value: '11222333000181', raw: '11222333000181' }
+    ]);
+  });
+
+  it('ignora documentos com dígito verificador inválido', () => {
+    expect(extractEntities('CPF 529.982.247-26', ['cpf'])).toEqual([]);
+  });
+
+  it('extrai CEP com hífen ou precedido de "cep"', () => {
+    expect(extractEntities('Entregar no 01310-100 ou no cep 20040002', ['cep'])).toEqual([
+      { type: 'cep', value: '01310100', raw: '01310-100' },
+      { type: 'cep', value: '20040002', raw: '20040002' }
+    ]);
+  });
+
+  it('extrai valores em reais', () => {
+    expect(extractEntities('Paguei R$ 1.234,56, faltam 150 reais e mais R$50', ['money'])).toEqual([
+      { type: 'money', value: 1234.56, raw: 'R$ 1.234,56' },
+      { type: 'money', value: 150, raw: '150 reais' },
+      { type: 'money', value: 50, raw: 'R$50' }
+    ]);
+  });
+
+  it('extrai datas absolutas e relativas', () => {
+    expect(extractEntities('Pode ser 25/12, 2026-11-02 ou amanhã?', ['date'], now)).toEqual([
+      { type: 'date', value: '2026-12-25', raw: '25/12' },
+      { type: 'date', value: '2026-11-02', raw: '2026-11-02' },
+      { type: 'date', value: '2026-10-20', raw: 'amanhã' }
+    ]);
+    expect(extractEntities('31/02/2026', ['date'], now)).toEqual([]);
+  });
+
+  it('normaliza telefone e email', () => {
+    expect(extractEntities('Ligue (11) 98765-4321 ou escreva para Ana@Cliente.com', ['phone', 'email'])).toEqual([
+      { type: 'phone', value: '+5511987654321', raw: '(11) 98765-4321' },
+      { type: 'email', value: 'ana@cliente.com', raw: 'Ana@Cliente.com' }
+    ]);
+  });
+});
+
+describe('classifyByKeywords', () => {
+  const intents = [
+    { name: 'pricing', keywords: ['preço', 'valor', 'quanto custa'] },
+    { name: 'support', keywords: ['erro', 'problema'] }
+  ];
+
+  it('escolhe a intenção com mais palavras-chave, ignorando acentos', () => {
+    expect(classifyByKeywords('Qual o PRECO e quanto custa o frete?', intents)).toEqual({ intent: 'pricing', confidence: 0.67 });
+  });
+
+  it('retorna confiança zero em empates e null sem acertos', () => {
+    expect(classifyByKeywords('problema no valor', intents)).toMatchObject({ confidence: 0 });
+    expect(classifyByKeywords('bom dia', intents)).toEqual({ intent: null, confidence: 0 });
+  });
+});
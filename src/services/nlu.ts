@@ -0,0 +1,289 @@
+import prisma from '../utils/database';
+import logger from '../utils/logger';
+import { WorkflowEntityType, WorkflowIntent } from '../types';
+import aiService from './aiService';
+
+export const ENTITY_TYPES: WorkflowEntityType[] = ['cpf', 'cnpj', 'email', 'phone', 'date', 'money', 'cep'];
+
+export interface IntentClassificationRequest {
+  companyId: string;
+  text: string;
+  intents: WorkflowIntent[];
+  // Sem assistente (ou se a chamada à IA falhar) vale a classificação por palavras-chave
+  assistantId?: string | null;
+}
+
+export interface IntentClassification {
+  // null quando nenhuma intenção da lista foi reconhecida
+  intent: string | null;
+  confidence: number;
+  method: 'ai' | 'keywords' | 'simulation';
+}
+
+export interface ExtractedEntity {
+  type: WorkflowEntityType;
+  // Valor normalizado: documentos e CEP só com dígitos, telefone em E.164, data em ISO, valor em número
+  value: string | number;
+  // Trecho da mensagem em que a entidade foi encontrada
+  raw: string;
+}
+
+export function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+export function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function onlyDigits(text: string): string {
+  return text.replace(/\D/g, '');
+}
+
+// Dígito verificador de CPF/CNPJ a partir dos pesos de cada posição
+function checkDigit(digits: string, weights: number[]): number {
+  const sum = weights.reduce((total, weight, index) => total + Number(digits[index]) * weight, 0);
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+}
+
+export function isValidCpf(value: string): boolean {
+  const digits = onlyDigits(value);
+
+  if (digits.length !== 11 || /^(\d)\1+$/.test(digits)) {
+    return false;
+  }
+
+  return checkDigit(digits, [10, 9, 8, 7, 6, 5, 4, 3, 2]) === Number(digits[9])
+    && checkDigit(digits, [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]) === Number(digits[10]);
+}
+
+export function isValidCnpj(value: string): boolean {
+  const digits = onlyDigits(value);
+
+  if (digits.length !== 14 || /^(\d)\1+$/.test(digits)) {
+    return false;
+  }
+
+  return checkDigit(digits, [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]) === Number(digits[12])
+    && checkDigit(digits, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]) === Number(digits[13]);
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(now: Date, days: number): string {
+  return toIsoDate(now.getFullYear(), now.getMonth() + 1, now.getDate() + days)
+    ?? new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+// "1.234,56" → 1234.56
+function parseBrazilianNumber(integer: string, cents?: string): number {
+  return Number(`${integer.replace(/\./g, '')}.${cents || '0'}`);
+}
+
+// Posição na mensagem, usada para devolver as entidades na ordem em que aparecem
+type FoundEntity = ExtractedEntity & { index: number };
+
+type Extractor = (text: string, now: Date) => FoundEntity[];
+
+function matchAll(text: string, regex: RegExp): RegExpExecArray[] {
+  return Array.from(text.matchAll(regex));
+}
+
+const EXTRACTORS: { [type in WorkflowEntityType]: Extractor } = {
+  cpf: text => matchAll(text, /(?<![\d./-])\d{3}\.?\d{3}\.?\d{3}-?\d{2}(?![\d/])/g)
+    .filter(match => isValidCpf(match[0]))
+    .map(match => ({ type: 'cpf', value: onlyDigits(match[0]), raw: match[0], index: match.index! })),
+
+  cnpj: text => matchAll(text, /(?<![\d./-])\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}(?!\d)/g)
+    .filter(match => isValidCnpj(match[0]))
+    .map(match => ({ type: 'cnpj', value: onlyDigits(match[0]), raw: match[0], index: match.index! })),
+
+  email: text => matchAll(text, /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g)
+    .map(match => ({ type: 'email', value: match[0].toLowerCase(), raw: match[0], index: match.index! })),
+
+  // Telefones brasileiros com DDD; celulares têm 9 dígitos começando com 9
+  phone: text => matchAll(text, /(?<![\d.])(?:\+?55[\s-]?)?\(?[1-9]\d\)?[\s-]?(?:9[\s-]?)?\d{4}[\s-]?\d{4}(?![\d.])/g)
+    .map(match => {
+      let digits = onlyDigits(match[0]);
+      if (digits.length > 11 && digits.startsWith('55')) {
+        digits = digits.slice(2);
+      }
+      return { digits, raw: match[0], index: match.index! };
+    })
+    .filter(({ digits }) => digits.length === 10 || (digits.length === 11 && digits[2] === '9'))
+    .map(({ digits, raw, index }) => ({ type: 'phone', value: `+55${digits}`, raw, index })),
+
+  // dd/mm/aaaa, dd/mm/aa, dd/mm (ano atual), aaaa-mm-dd, "hoje", "amanhã" e "depois de amanhã"
+  date: (text, now) => {
+    const entities: FoundEntity[] = [];
+
+    for (const match of matchAll(text, /(?<![\d/.-])(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{4}|\d{2}))?(?![\d/.-])/g)) {
+      const [, day, month, rawYear] = match;
+      const year = !rawYear ? now.getFullYear() : rawYear.length === 2 ? 2000 + Number(rawYear) : Number(rawYear);
+      const value = toIsoDate(year, Number(month), Number(day));
+      if (value) {
+        entities.push({ type: 'date', value, raw: match[0], index: match.index! });
+      }
+    }
+
+    for (const match of matchAll(text, /(?<!\d)(\d{4})-(\d{2})-(\d{2})(?!\d)/g)) {
+      const value = toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+      if (value) {
+        entities.push({ type: 'date', value, raw: match[0], index: match.index! });
+      }
+    }
+
+    const normalized = text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    const relative = normalized.match(/\b(depois de amanha|amanha|hoje)\b/);
+    if (relative) {
+      const days = { hoje: 0, amanha: 1, 'depois de amanha': 2 }[relative[1] as 'hoje' | 'amanha' | 'depois de amanha'];
+      // Remover os acentos não muda as posições do texto original
+      const raw = text.substr(relative.index!, relative[1].length);
+      entities.push({ type: 'date', value: addDays(now, days), raw, index: relative.index! });
+    }
+
+    return entities;
+  },
+
+  // "R$ 1.234,56", "R$50" ou "150 reais"
+  money: text => [
+    ...matchAll(text, /R\$\s?(\d{1,3}(?:\.\d{3})+|\d+)(?:,(\d{1,2}))?/gi),
+    ...matchAll(text, /(?<![\d.,])(\d{1,3}(?:\.\d{3})+|\d+)(?:,(\d{1,2}))?\s?(?:reais|real)\b/gi)
+  ].map(match => ({ type: 'money', value: parseBrazilianNumber(match[1], match[2]), raw: match[0], index: match.index! })),
+
+  cep: text => matchAll(text, /(?<![\d.-])\d{5}-\d{3}(?![\d-])|(?<=\bcep:?\s?)\d{8}(?!\d)/gi)
+    .map(match => ({ type: 'cep', value: onlyDigits(match[0]), raw: match[0], index: match.index! }))
+};
+
+/**
+ * Extrai da mensagem as entidades dos tipos pedidos, na ordem em que aparecem.
+ * CPF e CNPJ só são aceitos com dígitos verificadores válidos.
+ */
+export function extractEntities(text: string, types: WorkflowEntityType[] = ENTITY_TYPES, now: Date = new Date()): ExtractedEntity[] {
+  return types
+    .filter(type => EXTRACTORS[type])
+    .flatMap(type => EXTRACTORS[type](text || '', now))
+    .sort((a, b) => a.index - b.index)
+    .map(({ index, ...entity }) => entity);
+}
+
+/**
+ * Classificação por palavras-chave: vence a intenção com mais palavras-chave
+ * presentes na mensagem. A confiança cresce com o número de acertos e cai
+ * quando outra intenção teve quase tantos acertos (empate = confiança 0).
+ */
+export function classifyByKeywords(text: string, intents: WorkflowIntent[]): Omit<IntentClassification, 'method'> {
+  const normalized = normalizeText(text || '');
+
+  const scores = intents.map(intent => ({
+    name: intent.name,
+    score: (intent.keywords || [])
+      .map(keyword => normalizeText(keyword))
+      .filter(keyword => keyword && new RegExp(`(^|\\W)${escapeRegex(keyword)}(\\W|$)`).test(normalized))
+      .length
+  }));
+
+  const [best, second] = [...scores].sort((a, b) => b.score - a.score);
+
+  if (!best || best.score === 0) {
+    return { intent: null, confidence: 0 };
+  }
+
+  const margin = (best.score - (second?.score || 0)) / best.score;
+
+  return {
+    intent: best.name,
+    confidence: Math.round((best.score / (best.score + 1)) * margin * 100) / 100
+  };
+}
+
+// Extrai o JSON da resposta da IA, que pode vir cercado de texto ou de bloco de código
+function parseClassification(content: string, intents: WorkflowIntent[]): Omit<IntentClassification, 'method'> {
+  const json = content.match(/\{[\s\S]*\}/);
+
+  if (!json) {
+    throw new Error('Resposta da IA sem JSON de classificação');
+  }
+
+  const parsed = JSON.parse(json[0]);
+  const intent = intents.find(i => i.name === parsed?.intent)?.name ?? null;
+  const confidence = Math.min(Math.max(Number(parsed?.confidence) || 0, 0), 1);
+
+  return { intent, confidence: intent ? confidence : 0 };
+}
+
+export class NluService {
+  async classifyIntent(request: IntentClassificationRequest): Promise<IntentClassification> {
+    const { companyId, text, intents, assistantId } = request;
+
+    if (!text?.trim()) {
+      return { intent: null, confidence: 0, method: 'keywords' };
+    }
+
+    if (assistantId) {
+      try {
+        return { ...await this.classifyWithAssistant(companyId, assistantId, text, intents), method: 'ai' };
+      } catch (error: any) {
+        logger.warn('Falha na classificação de intenção pela IA, usando palavras-chave', {
+          assistantId,
+          error: error.message
+        });
+      }
+    }
+
+    return { ...classifyByKeywords(text, intents), method: 'keywords' };
+  }
+
+  private async classifyWithAssistant(
+    companyId: string,
+    assistantId: string,
+    text: string,
+    intents: WorkflowIntent[]
+  ): Promise<Omit<IntentClassification, 'method'>> {
+    const assistant = await prisma.aIAssistant.findFirst({
+      where: { id: assistantId, companyId, isActive: true }
+    });
+
+    if (!assistant) {
+      throw new Error(`Assistente IA não encontrado ou inativo: ${assistantId}`);
+    }
+
+    const options = intents.map(intent => {
+      const details = [
+        intent.description,
+        intent.keywords?.length ? `palavras-chave: ${intent.keywords.join(', ')}` : undefined
+      ].filter(Boolean).join('; ');
+
+      return `- ${intent.name}${details ? `: ${details}` : ''}`;
+    });
+
+    const content = await aiService.complete(
+      [
+        {
+          role: 'system',
+          content: `Classifique a mensagem do cliente em uma das intenções abaixo.
+Responda apenas com JSON no formato {"intent": "<nome da intenção ou null>", "confidence": <número de 0 a 1>}.
+Use null quando nenhuma intenção se aplicar.
+
+Intenções:
+${options.join('\n')}`
+        },
+        { role: 'user', content: text }
+      ],
+      { target: assistant, temperature: 0, maxTokens: 100 }
+    );
+
+    return parseClassification(content, intents);
+  }
+}
+
+export default new NluService();
@@ -1,6 +1,7 @@
 import OpenAI from 'openai';
 import { OpenAIMessage, AIResponse } from '../types';
 import logger from '../utils/logger';
+import aiUsageService, { isQuotaExceededError, QUOTA_EXCEEDED_REPLY } from './aiUsage';
 
 // Criar instância OpenAI apenas se a chave estiver disponível
 let openai: OpenAI | null = null;
@@ -13,12 +14,22 @@ if (process.env.OPENAI_API_KEY) {
   logger.warn('OPENAI_API_KEY não configurada. Serviços de IA estarão limitados.');
 }
 
+// Modelo usado em generateEmbedding (registrado junto dos trechos indexados)
+export const EMBEDDING_MODEL = 'text-embedding-ada-002';
+
+// Modelo usado em generateResponse
+const RESPONSE_MODEL = 'gpt-4';
+
 export class OpenAIService {
+  // companyId atribui o uso à empresa e aplica o limite mensal do plano
   async generateResponse(
     messages: OpenAIMessage[],
     context?: string,
-    tone: string = 'friendly'
+    tone: string = 'friendly',
+    companyId?: string
   ): Promise<AIResponse> {
+    let startedAt: number | null = null;
+
     try {
       if (!openai) {
         logger.warn('OpenAI não configurado. Retornando resposta padrão.');
@@ -37,8 +48,11 @@ export class OpenAIService {
         Responda de forma clara, objetiva e útil. Mantenha as respostas concisas mas informativas.`
       };
 
+      await aiUsageService.assertWithinQuota(companyId);
+
+      startedAt = Date.now();
       const completion = await openai.chat.completions.create({
-        model: 'gpt-4',
+        model: RESPONSE_MODEL,
         messages: [systemMessage, ...messages],
         max_tokens: 500,
         temperature: 0.7,
@@ -46,13 +60,49 @@ export class OpenAIService {
 
       const response = completion.choices[0]?.message?.content || 'Desculpe, não consegui processar sua mensagem.';
 
+      void aiUsageService.record({
+        provider: 'OPENAI',
+        model: completion.model || RESPONSE_MODEL,
+        operation: 'completion',
+        promptTokens: completion.usage?.prompt_tokens || 0,
+        completionTokens: completion.usage?.completion_tokens || 0,
+        latencyMs: Date.now() - startedAt,
+        success: true,
+        companyId
+      });
+
       return {
         message: response,
         confidence: 0.9, // Placeholder - could implement confidence scoring
         intent: this.extractIntent(messages[messages.length - 1]?.content || ''),
       };
     } catch (error: any) {
+      // O bot avisa o cliente que o limite do plano foi atingido, em vez da mensagem de falha técnica
+      if (isQuotaExceededError(error)) {
+        return {
+          message: QUOTA_EXCEEDED_REPLY,
+          confidence: 0,
+          intent: 'quota_exceeded'
+        };
+      }
+
       logger.error('Erro no OpenAI Service', { error: error.message });
+
+      // Só registra falhas do provedor (chamadas barradas pelo limite do plano nem chegam a ele)
+      if (startedAt !== null) {
+        void aiUsageService.record({
+          provider: 'OPENAI',
+          model: RESPONSE_MODEL,
+          operation: 'completion',
+          promptTokens: 0,
+          completionTokens: 0,
+          latencyMs: Date.now() - startedAt,
+          success: false,
+          error: error.message,
+          companyId
+        });
+      }
+
       return {
         message: 'Desculpe, estou com dificuldades técnicas no momento. Tente novamente em alguns instantes.',
         confidence: 0.1,
@@ -61,7 +111,7 @@ export class OpenAIService {
     }
   }
 
-  private extractIntent(message: string): string {
+  extractIntent(message: string): string {
     const lowerMessage = message.toLowerCase();
     
     if (lowerMessage.includes('preço') || lowerMessage.includes('valor') || lowerMessage.includes('custo')) {
@@ -80,21 +130,53 @@ export class OpenAIService {
     return 'general';
   }
 
-  async generateEmbedding(text: string): Promise<number[]> {
+  // companyId atribui o uso à empresa; acima do limite do plano devolve o vetor zerado, como nas demais falhas
+  async generateEmbedding(text: string, companyId?: string): Promise<number[]> {
+    let startedAt: number | null = null;
+
     try {
       if (!openai) {
         logger.warn('OpenAI não configurado. Retornando embedding vazio.');
         return new Array(1536).fill(0); // Embedding padrão
       }
 
+      await aiUsageService.assertWithinQuota(companyId);
+
+      startedAt = Date.now();
       const response = await openai.embeddings.create({
-        model: 'text-embedding-ada-002',
+        model: EMBEDDING_MODEL,
         input: text,
       });
 
+      void aiUsageService.record({
+        provider: 'OPENAI',
+        model: response.model || EMBEDDING_MODEL,
+        operation: 'embedding',
+        promptTokens: response.usage?.prompt_tokens || 0,
+        completionTokens: 0,
+        latencyMs: Date.now() - startedAt,
+        success: true,
+        companyId
+      });
+
       return response.data[0].embedding;
     } catch (error: any) {
       logger.error('Erro ao gerar embedding', { error: error.message });
+
+      if (startedAt !== null) {
+        void aiUsageService.record({
+          provider: 'OPENAI',
+          model: EMBEDDING_MODEL,
+          operation: 'embedding',
+          promptTokens: 0,
+          completionTokens: 0,
+          latencyMs: Date.now() - startedAt,
+          success: false,
+          error: error.message,
+          companyId
+        });
+      }
+
       return new Array(1536).fill(0); // Embedding padrão em caso de erro
     }
   }
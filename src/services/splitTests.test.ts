@@ -0,0 +1,78 @@
+jest.mock('../index', () => ({ io: { to: () => ({ emit: jest.fn() }) } }));
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { workflowSplitAssignment: { findUnique: jest.fn(), create: jest.fn(), update: jest.fn() } }
+}));
+
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/database';
+import { WorkflowSplitBranch } from '../types';
+import splitTestService, { pickSplitBranch } from './splitTests';
+
+const branches: WorkflowSplitBranch[] = [{ id: 'A', weight: 70, next: 'a' }, { id: 'B', weight: 30, next: 'b' }];
+
+describe('pickSplitBranch', () => {
+  it('sorteia proporcionalmente ao peso de cada ramo', () => {
+    expect(pickSplitBranch(branches, () => 0).id).toBe('A');
+    expect(pickSplitBranch(branches, () => 0.699).id).toBe('A');
+    expect(pickSplitBranch(branches, () => 0.7).id).toBe('B');
+    expect(pickSplitBranch(branches, () => 0.999).id).toBe('B');
+  });
+
+  it('nunca escolhe ramos com peso zero', () => {
+    const withDisabled: WorkflowSplitBranch[] = [{ id: 'A', weight: 0, next: 'a' }, { id: 'B', weight: 1, next: 'b' }];
+
+    expect(pickSplitBranch(withDisabled, () => 0).id).toBe('B');
+  });
+});
+
+describe('SplitTestService.assign', () => {
+  const assignments = prisma.workflowSplitAssignment as unknown as { [method: string]: jest.Mock };
+  const request = { flowId: 'flow-1', stepId: 'split', customerId: 'customer-1', branches };
+  const where = { flowId_stepId_customerId: { flowId: 'flow-1', stepId: 'split', customerId: 'customer-1' } };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Math, 'random').mockReturnValue(0.9);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sorteia a cada execução quando não há cliente', async () => {
+    expect(await splitTestService.assign({ ...request, customerId: null })).toEqual({ branch: 'B', sticky: false });
+    expect(assignments.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('mantém o ramo já atribuído ao cliente', async () => {
+    assignments.findUnique.mockResolvedValue({ branch: 'A' });
+
+    expect(await splitTestService.assign(request)).toEqual({ branch: 'A', sticky: true });
+    expect(assignments.create).not.toHaveBeenCalled();
+  });
+
+  it('grava o ramo sorteado na primeira passagem do cliente', async () => {
+    assignments.findUnique.mockResolvedValue(null);
+
+    expect(await splitTestService.assign(request)).toEqual({ branch: 'B', sticky: true });
+    expect(assignments.create).toHaveBeenCalledWith({ data: { ...where.flowId_stepId_customerId, branch: 'B' } });
+  });
+
+  it('sorteia de novo quando o ramo atribuído não existe mais', async () => {
+    assignments.findUnique.mockResolvedValue({ branch: 'C' });
+
+    expect(await splitTestService.assign(request)).toEqual({ branch: 'B', sticky: true });
+    expect(assignments.update).toHaveBeenCalledWith({ where, data: { branch: 'B' } });
+  });
+
+  it('usa o ramo de uma execução simultânea do mesmo cliente', async () => {
+    assignments.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce({ branch: 'A' });
+    assignments.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: Prisma.prismaVersion.client })
+    );
+
+    expect(await splitTestService.assign(request)).toEqual({ branch: 'A', sticky: true });
+  });
+});
@@ -0,0 +1,208 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/database';
+import logger from '../utils/logger';
+import { WorkflowSplitBranch } from '../types';
+import { getSplitBranches } from './workflowGraph';
+import { toStepDefinition } from './flowSteps';
+
+export interface SplitAssignmentRequest {
+  flowId: string;
+  stepId: string;
+  // Sem cliente (ou com sticky: false) o ramo é sorteado a cada execução
+  customerId?: string | null;
+  branches: WorkflowSplitBranch[];
+}
+
+export interface SplitAssignment {
+  branch: string;
+  sticky: boolean;
+}
+
+export interface SplitBranchStats {
+  branch: string;
+  weight: number | null;
+  executions: number;
+  completed: number;
+  completionRate: number;
+  // Execuções que passaram por cada step de meta (config.goals)
+  conversions: { [goalStepId: string]: number };
+  converted: number;
+  conversionRate: number;
+}
+
+export interface SplitStepStats {
+  flowId: string;
+  flowName: string;
+  stepId: string;
+  stepName: string;
+  goals: string[];
+  branches: SplitBranchStats[];
+}
+
+/**
+ * Sorteia um ramo com probabilidade proporcional ao peso.
+ */
+export function pickSplitBranch(branches: WorkflowSplitBranch[], random: () => number = Math.random): WorkflowSplitBranch {
+  const total = branches.reduce((sum, branch) => sum + branch.weight, 0);
+  let threshold = random() * total;
+
+  for (const branch of branches) {
+    threshold -= branch.weight;
+    if (threshold < 0) {
+      return branch;
+    }
+  }
+
+  return branches[branches.length - 1];
+}
+
+function rate(part: number, total: number): number {
+  return total > 0 ? (part / total) * 100 : 0;
+}
+
+/**
+ * Testes A/B dos steps SPLIT: atribuição fixa de ramo por cliente e
+ * estatísticas de conclusão e conversão de cada ramo.
+ */
+export class SplitTestService {
+  async assign(request: SplitAssignmentRequest): Promise<SplitAssignment> {
+    const { flowId, stepId, customerId, branches } = request;
+
+    if (!customerId) {
+      return { branch: pickSplitBranch(branches).id, sticky: false };
+    }
+
+    const where = { flowId_stepId_customerId: { flowId, stepId, customerId } };
+    const existing = await prisma.workflowSplitAssignment.findUnique({ where });
+
+    if (existing && branches.some(branch => branch.id === existing.branch)) {
+      return { branch: existing.branch, sticky: true };
+    }
+
+    const branch = pickSplitBranch(branches).id;
+
+    // O ramo atribuído deixou de existir em uma nova versão: o cliente é sorteado de novo
+    if (existing) {
+      await prisma.workflowSplitAssignment.update({ where, data: { branch } });
+      return { branch, sticky: true };
+    }
+
+    try {
+      await prisma.workflowSplitAssignment.create({
+        data: { flowId, stepId, customerId, branch }
+      });
+    } catch (error: any) {
+      // Outra execução do mesmo cliente sorteou ao mesmo tempo: vale o ramo dela
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const winner = await prisma.workflowSplitAssignment.findUnique({ where });
+        if (winner) {
+          return { branch: winner.branch, sticky: true };
+        }
+      }
+      throw error;
+    }
+
+    logger.info('Cliente atribuído a ramo de split', { flowId, stepId, customerId, branch });
+
+    return { branch, sticky: true };
+  }
+
+  /**
+   * Estatísticas por ramo dos steps SPLIT das versões publicadas.
+   * A conclusão considera o status da execução; a conversão, os steps de meta
+   * (config.goals) executados depois da divisão.
+   */
+  async getStats(companyId: string, flowId?: string): Promise<SplitStepStats[]> {
+    const splitSteps = await prisma.workflowStep.findMany({
+      where: {
+        type: 'SPLIT',
+        isActive: true,
+        flow: { companyId, ...(flowId && { id: flowId }) },
+        flowVersion: { publishedFor: { isNot: null } }
+      },
+      include: { flow: { select: { name: true } } },
+      orderBy: [{ flowId: 'asc' }, { order: 'asc' }]
+    });
+
+    if (splitSteps.length === 0) {
+      return [];
+    }
+
+    const runs = await prisma.workflowStepRun.findMany({
+      where: {
+        stepType: 'SPLIT',
+        status: 'COMPLETED',
+        stepId: { in: splitSteps.map(step => step.key) },
+        execution: { companyId, flowId: { in: splitSteps.map(step => step.flowId) } }
+      },
+      select: {
+        stepId: true,
+        output: true,
+        executionId: true,
+        execution: { select: { flowId: true, status: true } }
+      }
+    });
+
+    const goalKeys = Array.from(new Set(splitSteps.flatMap(step => this.getGoals(step.config))));
+    const goalRuns = goalKeys.length > 0 && runs.length > 0
+      ? await prisma.workflowStepRun.findMany({
+        where: {
+          executionId: { in: runs.map(run => run.executionId) },
+          stepId: { in: goalKeys },
+          status: 'COMPLETED'
+        },
+        select: { executionId: true, stepId: true }
+      })
+      : [];
+
+    const reachedGoals = new Set(goalRuns.map(run => `${run.executionId}:${run.stepId}`));
+
+    return splitSteps.map(row => {
+      const step = toStepDefinition(row);
+      const goals = this.getGoals(row.config);
+      const stepRuns = runs.filter(run => run.execution.flowId === row.flowId && run.stepId === row.key);
+
+      const branchIds = [
+        ...getSplitBranches(step).map(branch => branch.id),
+        // Ramos de versões anteriores que ainda têm execuções
+        ...stepRuns.map(run => (run.output as any)?.split?.[row.key]).filter(Boolean)
+      ];
+
+      const branches = Array.from(new Set<string>(branchIds)).map(branchId => {
+        const branchRuns = stepRuns.filter(run => (run.output as any)?.split?.[row.key] === branchId);
+        const completed = branchRuns.filter(run => run.execution.status === 'COMPLETED').length;
+        const converted = branchRuns.filter(run => goals.some(goal => reachedGoals.has(`${run.executionId}:${goal}`))).length;
+
+        return {
+          branch: branchId,
+          weight: getSplitBranches(step).find(branch => branch.id === branchId)?.weight ?? null,
+          executions: branchRuns.length,
+          completed,
+          completionRate: rate(completed, branchRuns.length),
+          conversions: Object.fromEntries(goals.map(goal => [
+            goal,
+            branchRuns.filter(run => reachedGoals.has(`${run.executionId}:${goal}`)).length
+          ])),
+          converted,
+          conversionRate: rate(converted, branchRuns.length)
+        };
+      });
+
+      return {
+        flowId: row.flowId,
+        flowName: row.flow.name,
+        stepId: row.key,
+        stepName: row.name,
+        goals,
+        branches
+      };
+    });
+  }
+
+  private getGoals(config: Prisma.JsonValue): string[] {
+    const goals = (config as any)?.goals;
+    return Array.isArray(goals) ? goals.filter(goal => typeof goal === 'string') : [];
+  }
+}
+
+export default new SplitTestService();
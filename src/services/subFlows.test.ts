@@ -0,0 +1,84 @@
+jest.mock('../index', () => ({ io: { to: () => ({ emit: jest.fn() }) } }));
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: {
+    flow: { findMany: jest.fn() },
+    workflowStep: { findMany: jest.fn() }
+  }
+}));
+
+import prisma from '../utils/database';
+import { findCycleFrom, validateSubFlowReferences } from './subFlows';
+
+const db = prisma as any;
+const subFlow = (id: string, flowId: string) => ({ id, type: 'SUB_FLOW', config: { flowId } });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  db.flow.findMany.mockResolvedValue([
+    { id: 'flow-a', name: 'Boas-vindas' },
+    { id: 'flow-b', name: 'Cadastro' },
+    { id: 'flow-c', name: 'Pagamento' }
+  ]);
+  db.workflowStep.findMany.mockResolvedValue([]);
+});
+
+describe('findCycleFrom', () => {
+  it('retorna o caminho que volta ao fluxo inicial', () => {
+    const calls = new Map([['a', ['b']], ['b', ['c']], ['c', ['a']]]);
+
+    expect(findCycleFrom('a', calls)).toEqual(['a', 'b', 'c', 'a']);
+  });
+
+  it('ignora ciclos que não passam pelo fluxo inicial', () => {
+    const calls = new Map([['a', ['b']], ['b', ['c']], ['c', ['b']]]);
+
+    expect(findCycleFrom('a', calls)).toBeNull();
+  });
+
+  it('detecta um fluxo que chama a si mesmo', () => {
+    expect(findCycleFrom('a', new Map([['a', ['a']]]))).toEqual(['a', 'a']);
+  });
+});
+
+describe('validateSubFlowReferences', () => {
+  it('não consulta o banco quando o fluxo não tem SUB_FLOW', async () => {
+    expect(await validateSubFlowReferences('company-1', 'flow-a', [{ id: 'm', type: 'MESSAGE', config: { message: 'oi' } }])).toEqual([]);
+    expect(db.flow.findMany).not.toHaveBeenCalled();
+  });
+
+  it('recusa sub-fluxos que não existem na empresa', async () => {
+    const errors = await validateSubFlowReferences('company-1', 'flow-a', [subFlow('call', 'flow-x')]);
+
+    expect(errors).toEqual(['Step "call": sub-fluxo "flow-x" não encontrado']);
+    expect(db.flow.findMany).toHaveBeenCalledWith({ where: { companyId: 'company-1' }, select: { id: true, name: true } });
+  });
+
+  it('recusa chamadas que fecham um ciclo com os fluxos salvos', async () => {
+    db.workflowStep.findMany.mockResolvedValue([
+      { flowId: 'flow-b', config: { flowId: 'flow-c' } },
+      { flowId: 'flow-c', config: { flowId: 'flow-a' } }
+    ]);
+
+    const errors = await validateSubFlowReferences('company-1', 'flow-a', [subFlow('call', 'flow-b')]);
+
+    expect(errors).toEqual(['Sub-fluxos formam um ciclo: Boas-vindas → Cadastro → Pagamento → Boas-vindas']);
+  });
+
+  it('usa os steps sendo salvos no lugar das chamadas gravadas do próprio fluxo', async () => {
+    db.workflowStep.findMany.mockResolvedValue([
+      { flowId: 'flow-a', config: { flowId: 'flow-b' } },
+      { flowId: 'flow-b', config: { flowId: 'flow-a' } }
+    ]);
+
+    // flow-a deixa de chamar flow-b e passa a chamar flow-c, desfazendo o ciclo
+    expect(await validateSubFlowReferences('company-1', 'flow-a', [subFlow('call', 'flow-c')])).toEqual([]);
+  });
+
+  it('não procura ciclos em um fluxo novo', async () => {
+    db.workflowStep.findMany.mockResolvedValue([{ flowId: 'flow-b', config: { flowId: 'flow-a' } }]);
+
+    expect(await validateSubFlowReferences('company-1', null, [subFlow('call', 'flow-b')])).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+import prisma from '../utils/database';
+import { getSubFlowIds, normalizeSteps } from './workflowGraph';
+
+/**
+ * Valida os fluxos chamados pelos steps SUB_FLOW de um fluxo que está sendo salvo:
+ * eles devem existir na mesma empresa e não podem formar um ciclo (A → B → A).
+ * Para os outros fluxos são consideradas as chamadas do rascunho e da versão publicada.
+ * Retorna a lista de erros encontrados (vazia quando está tudo certo).
+ */
+export async function validateSubFlowReferences(
+  companyId: string,
+  flowId: string | null,
+  steps: any[]
+): Promise<string[]> {
+  const calledIds = getSubFlowIds(steps);
+
+  if (calledIds.length === 0) {
+    return [];
+  }
+
+  const [flows, subFlowSteps] = await Promise.all([
+    prisma.flow.findMany({
+      where: { companyId },
+      select: { id: true, name: true }
+    }),
+    // Steps SUB_FLOW dos rascunhos e das versões publicadas
+    prisma.workflowStep.findMany({
+      where: {
+        type: 'SUB_FLOW',
+        isActive: true,
+        flow: { companyId },
+        OR: [{ flowVersionId: null }, { flowVersion: { publishedFor: { isNot: null } } }]
+      },
+      select: { flowId: true, config: true }
+    })
+  ]);
+
+  const names = new Map(flows.map(flow => [flow.id, flow.name]));
+  const calls = new Map<string, string[]>();
+
+  for (const step of subFlowSteps) {
+    const calledId = (step.config as any)?.flowId;
+    if (typeof calledId === 'string') {
+      calls.set(step.flowId, Array.from(new Set([...(calls.get(step.flowId) ?? []), calledId])));
+    }
+  }
+
+  const errors: string[] = [];
+
+  for (const step of normalizeSteps(steps)) {
+    if (step.type === 'SUB_FLOW' && typeof step.config.flowId === 'string' && !names.has(step.config.flowId)) {
+      errors.push(`Step "${step.id}": sub-fluxo "${step.config.flowId}" não encontrado`);
+    }
+  }
+
+  // Um fluxo novo ainda não pode ser chamado por ninguém, então não fecha ciclos
+  if (!flowId || errors.length > 0) {
+    return errors;
+  }
+
+  calls.set(flowId, calledIds);
+
+  const cycle = findCycleFrom(flowId, calls);
+  if (cycle) {
+    errors.push(`Sub-fluxos formam um ciclo: ${cycle.map(id => names.get(id) ?? id).join(' → ')}`);
+  }
+
+  return errors;
+}
+
+// Busca em profundidade por um caminho que volte ao fluxo inicial
+export function findCycleFrom(startId: string, calls: Map<string, string[]>): string[] | null {
+  const visited = new Set<string>();
+
+  const visit = (id: string, path: string[]): string[] | null => {
+    for (const calledId of calls.get(id) ?? []) {
+      if (calledId === startId) {
+        return [...path, calledId];
+      }
+
+      if (!visited.has(calledId)) {
+        visited.add(calledId);
+        const cycle = visit(calledId, [...path, calledId]);
+        if (cycle) {
+          return cycle;
+        }
+      }
+    }
+
+    return null;
+  };
+
+  return visit(startId, [startId]);
+}
@@ -1,9 +1,11 @@
 import axios from 'axios';
 import { WhatsAppMessage } from '../types';
+import { renderTemplate, TemplateContext } from '../utils/template';
 import logger from '../utils/logger';
 import prisma from '../utils/database';
 import { io } from '../index';
 import QRCode from 'qrcode';
+import flowTriggerService from './flowTriggers';
 
 export class WhatsAppService {
   async sendMessage(whatsappNumberId: string, to: string, message: string): Promise<boolean> {
@@ -107,17 +109,21 @@ export class WhatsAppService {
     }
   }
 
-  async sendBulkMessage(whatsappNumberId: string, contacts: string[], message: any): Promise<any> {
+  // contexts (opcional) personaliza content/caption de cada contato, na mesma ordem de contacts
+  async sendBulkMessage(whatsappNumberId: string, contacts: string[], message: any, contexts?: TemplateContext[]): Promise<any> {
     const results = [];
     
-    for (const contact of contacts) {
+    for (const [index, contact] of contacts.entries()) {
       try {
         let success = false;
+        const context = contexts?.[index];
         
         if (message.type === 'text') {
-          success = await this.sendMessage(whatsappNumberId, contact, message.content);
+          const content = context ? renderTemplate(message.content, context) : message.content;
+          success = await this.sendMessage(whatsappNumberId, contact, content);
         } else if (message.type === 'media') {
-          success = await this.sendMediaMessage(whatsappNumberId, contact, message.mediaUrl, message.caption);
+          const caption = context && message.caption ? renderTemplate(message.caption, context) : message.caption;
+          success = await this.sendMediaMessage(whatsappNumberId, contact, message.mediaUrl, caption);
         }
         
         results.push({
@@ -324,7 +330,8 @@ export class WhatsAppService {
         timestamp: message.timestamp,
         text: message.text,
         type: message.type,
-        phoneNumberId: value?.metadata?.phone_number_id
+        phoneNumberId: value?.metadata?.phone_number_id,
+        referral: message.referral
       };
     } catch (error: any) {
       logger.error('Erro ao processar webhook WhatsApp', { error: error.message });
@@ -332,7 +339,7 @@ export class WhatsAppService {
     }
   }
 
-  async processIncomingMessage(message: WhatsAppMessage): Promise<void> {
+  async processIncomingMessage(message: WhatsAppMessage): Promise<boolean> {
     try {
       // Buscar o número de WhatsApp
       const whatsappNumber = await prisma.whatsAppNumber.findFirst({
@@ -341,7 +348,7 @@ export class WhatsAppService {
 
       if (!whatsappNumber) {
         logger.error('Número de WhatsApp não encontrado', { phoneNumberId: message.phoneNumberId });
-        return;
+        return false;
       }
 
       // Buscar ou criar customer
@@ -421,13 +428,29 @@ export class WhatsAppService {
         whatsappNumberId: whatsappNumber.id
       });
 
+      // Entregar a resposta a workflows aguardando o cliente ou disparar novos fluxos
+      const handledByWorkflow = await flowTriggerService.handleInboundMessage({
+        companyId: whatsappNumber.companyId,
+        conversationId: conversation.id,
+        message: savedMessage,
+        referral: message.referral && {
+          sourceId: message.referral.source_id,
+          sourceType: message.referral.source_type,
+          sourceUrl: message.referral.source_url,
+          headline: message.referral.headline
+        }
+      });
+
       logger.info('Mensagem WhatsApp processada', { 
         messageId: savedMessage.id, 
         conversationId: conversation.id,
         from: message.from 
       });
+
+      return handledByWorkflow;
     } catch (error: any) {
       logger.error('Erro ao processar mensagem WhatsApp', { error: error.message });
+      return false;
     }
   }
 
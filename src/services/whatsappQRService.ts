@@ -3,6 +3,7 @@ import QRCode from 'qrcode';
 import { io } from '../index';
 import prisma from '../utils/database';
 import logger from '../utils/logger';
+import flowTriggerService from './flowTriggers';
 import path from 'path';
 import fs from 'fs';
 
@@ -543,6 +544,13 @@ class WhatsAppQRService {
         sessionId: session.sessionId
       });
 
+      // Entregar a resposta a workflows aguardando o cliente ou disparar novos fluxos
+      await flowTriggerService.handleInboundMessage({
+        companyId: session.companyId,
+        conversationId: conversation.id,
+        message: savedMessage
+      });
+
       logger.info('Mensagem processada e salva', { 
         messageId: savedMessage.id, 
         conversationId: conversation.id,
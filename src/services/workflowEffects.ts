@@ -0,0 +1,251 @@
+import { ConversationStatus } from '@prisma/client';
+import prisma from '../utils/database';
+import httpRequestService, { HttpRequestOptions, HttpResponse } from './httpRequest';
+import mailService, { MailDeliveryResult, MailMessage } from './mail';
+import crmOperationService, { CrmOperationContext } from './crmOperations';
+import handoffService, { HandoffAssignment } from './handoff';
+import splitTestService, { pickSplitBranch, SplitAssignment, SplitAssignmentRequest } from './splitTests';
+import nluService, { classifyByKeywords, IntentClassification, IntentClassificationRequest } from './nlu';
+import whatsappService from './whatsapp';
+import whatsappQRService from './whatsappQRService';
+
+export interface OutgoingMessage {
+  conversationId: string;
+  channelId: string;
+  content: string;
+  metadata: { [key: string]: any };
+}
+
+export interface ConversationChanges {
+  status?: ConversationStatus;
+  assignedTo?: string | null;
+}
+
+/**
+ * Operações com efeito externo executadas pelos steps de workflow.
+ * Em execuções reais são aplicadas; no simulador são apenas registradas.
+ */
+export interface WorkflowSideEffects {
+  sendMessage(message: OutgoingMessage): Promise<void>;
+  updateConversation(conversationId: string, changes: ConversationChanges): Promise<void>;
+  httpRequest(options: HttpRequestOptions): Promise<HttpResponse>;
+  sendEmail(companyId: string, message: Omit<MailMessage, 'from' | 'replyTo'>): Promise<MailDeliveryResult>;
+  crmOperation(operation: string, params: { [key: string]: any }, context: CrmOperationContext): Promise<any>;
+  handoffConversation(assignment: HandoffAssignment): Promise<void>;
+  assignSplitBranch(request: SplitAssignmentRequest): Promise<SplitAssignment>;
+  classifyIntent(request: IntentClassificationRequest): Promise<IntentClassification>;
+  // Última mensagem do cliente na conversa (steps INTENT/ENTITY sem mensagem nos dados)
+  findLastCustomerMessage(conversationId: string): Promise<string | null>;
+  // Espera entre novas tentativas de um step
+  sleep(ms: number): Promise<void>;
+}
+
+/**
+ * Envia a mensagem ao cliente pelo canal da conversa: WhatsApp Business API
+ * ou sessão QR Code. Conversas de webchat/API só recebem a mensagem salva.
+ * Lança quando o envio falha, para que o step possa ser repetido.
+ */
+async function deliverToChannel(message: OutgoingMessage): Promise<void> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: message.conversationId },
+    select: {
+      whatsappNumberId: true,
+      whatsappSession: { select: { sessionId: true } },
+      customer: { select: { phone: true } }
+    }
+  });
+
+  const phone = conversation?.customer?.phone;
+
+  if (!conversation || !phone) {
+    return;
+  }
+
+  let delivered = true;
+
+  if (conversation.whatsappNumberId) {
+    delivered = await whatsappService.sendMessage(conversation.whatsappNumberId, phone, message.content);
+  } else if (conversation.whatsappSession) {
+    delivered = await whatsappQRService.sendMessage(conversation.whatsappSession.sessionId, phone, message.content);
+  }
+
+  if (!delivered) {
+    throw new Error('Não foi possível enviar a mensagem pelo WhatsApp');
+  }
+}
+
+export const liveSideEffects: WorkflowSideEffects = {
+  async sendMessage(message) {
+    await deliverToChannel(message);
+
+    await prisma.message.create({
+      data: {
+        content: message.content,
+        type: 'TEXT',
+        sender: 'BOT',
+        conversationId: message.conversationId,
+        channelId: message.channelId,
+        metadata: message.metadata
+      }
+    });
+  },
+
+  async updateConversation(conversationId, changes) {
+    await prisma.conversation.update({
+      where: { id: conversationId },
+      data: changes
+    });
+  },
+
+  httpRequest(options) {
+    return httpRequestService.request(options);
+  },
+
+  sendEmail(companyId, message) {
+    return mailService.send(companyId, message);
+  },
+
+  crmOperation(operation, params, context) {
+    return crmOperationService.run(operation, params, context);
+  },
+
+  handoffConversation(assignment) {
+    return handoffService.assign(assignment);
+  },
+
+  assignSplitBranch(request) {
+    return splitTestService.assign(request);
+  },
+
+  classifyIntent(request) {
+    return nluService.classifyIntent(request);
+  },
+
+  async findLastCustomerMessage(conversationId) {
+    const message = await prisma.message.findFirst({
+      where: { conversationId, sender: { in: ['CUSTOMER', 'USER'] } },
+      orderBy: { createdAt: 'desc' },
+      select: { content: true }
+    });
+
+    return message?.content ?? null;
+  },
+
+  sleep(ms) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+};
+
+export interface CapturedSideEffect {
+  type: 'message' | 'conversation_update' | 'http_request' | 'email' | 'database' | 'handoff' | 'split';
+  stepId: string | null;
+  payload: any;
+}
+
+export interface SimulationMocks {
+  // Respostas simuladas de API_CALL, por id do step (padrão: 200 com corpo vazio)
+  apiResponses?: {
+    [stepId: string]: { status?: number; body?: any; headers?: { [key: string]: any } };
+  };
+  // Resultados simulados de DATABASE, por id do step (padrão: os próprios parâmetros)
+  databaseResults?: {
+    [stepId: string]: any;
+  };
+  // Ramo forçado de SPLIT, por id do step (padrão: sorteio pelos pesos)
+  splitBranches?: {
+    [stepId: string]: string;
+  };
+  // Classificação simulada de INTENT, por id do step (padrão: só palavras-chave, sem chamar a IA)
+  intents?: {
+    [stepId: string]: { intent: string | null; confidence?: number };
+  };
+}
+
+/**
+ * Implementação usada pelo simulador: nada é enviado ou gravado,
+ * cada efeito é registrado junto com o step que o produziu.
+ */
+export class CapturingSideEffects implements WorkflowSideEffects {
+  readonly captured: CapturedSideEffect[] = [];
+  currentStepId: string | null = null;
+
+  constructor(private mocks: SimulationMocks = {}) {}
+
+  async sendMessage(message: OutgoingMessage): Promise<void> {
+    this.capture('message', { content: message.content, metadata: message.metadata });
+  }
+
+  async updateConversation(conversationId: string, changes: ConversationChanges): Promise<void> {
+    this.capture('conversation_update', { conversationId, ...changes });
+  }
+
+  async httpRequest(options: HttpRequestOptions): Promise<HttpResponse> {
+    const { allowList, ...request } = options;
+    this.capture('http_request', request);
+
+    const mock = this.currentStepId ? this.mocks.apiResponses?.[this.currentStepId] : undefined;
+
+    return {
+      status: mock?.status ?? 200,
+      headers: mock?.headers ?? {},
+      body: mock?.body ?? {},
+      attempts: 1,
+      durationMs: 0
+    };
+  }
+
+  async sendEmail(companyId: string, message: Omit<MailMessage, 'from' | 'replyTo'>): Promise<MailDeliveryResult> {
+    this.capture('email', message);
+
+    return {
+      transport: 'simulation',
+      messageId: null,
+      accepted: [...message.to, ...(message.cc || [])],
+      rejected: []
+    };
+  }
+
+  async crmOperation(operation: string, params: { [key: string]: any }, context: CrmOperationContext): Promise<any> {
+    this.capture('database', { operation, params });
+
+    const mock = this.currentStepId ? this.mocks.databaseResults?.[this.currentStepId] : undefined;
+
+    return mock ?? { simulated: true, ...params };
+  }
+
+  async handoffConversation(assignment: HandoffAssignment): Promise<void> {
+    this.capture('handoff', { agent: assignment.agent, note: assignment.note });
+  }
+
+  // Simulações não gravam a atribuição do cliente ao ramo
+  async assignSplitBranch(request: SplitAssignmentRequest): Promise<SplitAssignment> {
+    const mock = this.currentStepId ? this.mocks.splitBranches?.[this.currentStepId] : undefined;
+    const branch = request.branches.some(b => b.id === mock) ? mock! : pickSplitBranch(request.branches).id;
+
+    this.capture('split', { branch, forced: branch === mock });
+
+    return { branch, sticky: false };
+  }
+
+  async classifyIntent(request: IntentClassificationRequest): Promise<IntentClassification> {
+    const mock = this.currentStepId ? this.mocks.intents?.[this.currentStepId] : undefined;
+
+    if (mock) {
+      return { intent: mock.intent, confidence: mock.confidence ?? 1, method: 'simulation' };
+    }
+
+    return { ...classifyByKeywords(request.text, request.intents), method: 'keywords' };
+  }
+
+  // Simulações usam a mensagem informada nos dados iniciais
+  async findLastCustomerMessage(conversationId: string): Promise<string | null> {
+    return null;
+  }
+
+  // Simulações não esperam entre tentativas
+  async sleep(ms: number): Promise<void> {}
+
+  private capture(type: CapturedSideEffect['type'], payload: any): void {
+    this.captured.push({ type, stepId: this.currentStepId, payload });
+  }
+}
@@ -0,0 +1,411 @@
+jest.mock('../index', () => ({ io: { to: () => ({ emit: jest.fn() }) } }));
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('./whatsapp', () => ({ __esModule: true, default: { sendMessage: jest.fn() } }));
+jest.mock('./whatsappQRService', () => ({ __esModule: true, default: { sendMessage: jest.fn() } }));
+jest.mock('./flowSteps', () => ({ __esModule: true, default: { getDraftSteps: jest.fn(), getVersionSteps: jest.fn() } }));
+
+// Emails ficam no transporte de captura, exposto como "captured"
+jest.mock('./mail', () => {
+  const actual = jest.requireActual('./mail');
+  const transport = new actual.CaptureMailTransport();
+  return { ...actual, __esModule: true, default: new actual.MailService(transport), captured: transport };
+});
+
+// Banco em memória com o subconjunto do Prisma usado pelo engine
+jest.mock('../utils/database', () => {
+  const { Prisma } = jest.requireActual('@prisma/client');
+  const executions = new Map<string, any>();
+  let sequence = 0;
+
+  const matches = (row: any, where: any = {}) => Object.entries(where).every(([field, condition]: [string, any]) => {
+    if (condition instanceof Date) return row[field]?.getTime() === condition.getTime();
+    if (condition && typeof condition === 'object') {
+      if ('in' in condition) return condition.in.includes(row[field]);
+      if ('not' in condition) return row[field] !== condition.not;
+      if ('lt' in condition) return row[field] < condition.lt;
+    }
+    return row[field] === condition;
+  });
+
+  // Prisma.DbNull vira null e todo update muda updatedAt, como no banco
+  const apply = (row: any, data: any) => {
+    Object.entries(data).forEach(([field, value]) => {
+      row[field] = value === Prisma.DbNull ? null : value;
+    });
+    row.updatedAt = new Date(Date.now() + ++sequence);
+    return row;
+  };
+
+  const output = (row: any, include?: any) => row && {
+    ...row,
+    ...(include?.conversation && { conversation: { id: row.conversationId, channelId: 'channel-1' } })
+  };
+
+  return {
+    __esModule: true,
+    default: {
+      workflowExecution: {
+        create: jest.fn(async ({ data }: any) => {
+          const row = apply({
+            id: `execution-${++sequence}`,
+            status: 'RUNNING',
+            currentStep: 0,
+            currentStepId: null,
+            resumeAt: null,
+            waitingFor: null,
+            data: {},
+            flowVersionId: null,
+            parentExecutionId: null,
+            createdAt: new Date()
+          }, data);
+          executions.set(row.id, row);
+          return output(row);
+        }),
+        findUnique: jest.fn(async ({ where, include }: any) => output(executions.get(where.id), include) ?? null),
+        findFirst: jest.fn(async ({ where }: any) => output(Array.from(executions.values()).find(row => matches(row, where))) ?? null),
+        findMany: jest.fn(async ({ where }: any) => Array.from(executions.values()).filter(row => matches(row, where)).map(row => output(row))),
+        update: jest.fn(async ({ where, data }: any) => output(apply(executions.get(where.id), data))),
+        updateMany: jest.fn(async ({ where, data }: any) => {
+          const rows = Array.from(executions.values()).filter(row => matches(row, where));
+          rows.forEach(row => apply(row, data));
+          return { count: rows.length };
+        })
+      },
+      workflowStepRun: { create: jest.fn(async ({ data }: any) => data) },
+      message: { create: jest.fn(async ({ data }: any) => data) },
+      conversation: { findUnique: jest.fn(async () => null) },
+      company: {
+        findUnique: jest.fn(async () => ({ name: 'Loja Exemplo', settings: { email: { fromEmail: 'contato@loja.com.br' } } }))
+      }
+    }
+  };
+});
+
+import prisma from '../utils/database';
+import flowStepService from './flowSteps';
+import workflowEngine from './workflowEngine';
+import workflowScheduler from './workflowScheduler';
+import { MAX_STEPS_PER_EXECUTION, normalizeSteps } from './workflowGraph';
+import type { CaptureMailTransport } from './mail';
+
+const capturedMail: CaptureMailTransport = jest.requireMock('./mail').captured;
+
+const message = (id: string, extra: any = {}) => ({ id, type: 'MESSAGE', config: { message: `Mensagem ${id}` }, ...extra });
+
+async function startExecution(steps: any[], data: any = {}, progress: any = {}) {
+  (flowStepService.getDraftSteps as jest.Mock).mockResolvedValue(normalizeSteps(steps));
+
+  const execution = await prisma.workflowExecution.create({
+    data: { flowId: 'flow-1', conversationId: 'conversation-1', companyId: 'company-1', data, ...progress }
+  });
+
+  return workflowEngine.execute(execution.id);
+}
+
+// Ids dos steps na ordem em que foram executados
+function executedSteps(): string[] {
+  return (prisma.workflowStepRun.create as jest.Mock).mock.calls.map(([{ data }]) => data.stepId);
+}
+
+function stepRuns(): any[] {
+  return (prisma.workflowStepRun.create as jest.Mock).mock.calls.map(([{ data }]) => data);
+}
+
+function sentMessages(): string[] {
+  return (prisma.message.create as jest.Mock).mock.calls.map(([{ data }]) => data.content);
+}
+
+// Aguarda o agendador em memória levar a execução ao status esperado
+async function waitForStatus(executionId: string, status: string) {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const execution = await prisma.workflowExecution.findUnique({ where: { id: executionId } });
+    if (execution?.status === status) {
+      return execution;
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error(`Execução ${executionId} não chegou a ${status}`);
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('WorkflowEngine.execute', () => {
+  it('percorre o grafo pelas arestas onTrue/onFalse e encerra em next null', async () => {
+    const steps = [
+      {
+        id: 'check',
+        type: 'CONDITION',
+        config: { conditions: [{ field: 'customer.vip', operator: 'equals', value: true }] },
+        onTrue: 'vip',
+        onFalse: 'regular'
+      },
+      message('regular', { config: { message: 'Olá, {{customer.name}}' }, next: null }),
+      message('vip', { config: { message: 'Olá, {{customer.name}}! Atendimento VIP' }, next: null })
+    ];
+
+    const vip = await startExecution(steps, { customer: { name: 'Ana', vip: true } });
+
+    expect(vip.status).toBe('COMPLETED');
+    expect(vip.currentStep).toBe(2);
+    expect(executedSteps()).toEqual(['check', 'vip']);
+    expect(sentMessages()).toEqual(['Olá, Ana! Atendimento VIP']);
+
+    jest.clearAllMocks();
+    const regular = await startExecution(steps, { customer: { name: 'Bruno', vip: false } });
+
+    expect(regular.status).toBe('COMPLETED');
+    expect(executedSteps()).toEqual(['check', 'regular']);
+    expect(sentMessages()).toEqual(['Olá, Bruno']);
+  });
+
+  it('pula steps cujas condições não são atendidas e segue pela ordem do array', async () => {
+    const execution = await startExecution([
+      message('a'),
+      message('b', { conditions: [{ field: 'plan', operator: 'equals', value: 'PRO' }] }),
+      message('c')
+    ], { plan: 'STARTER' });
+
+    expect(execution.status).toBe('COMPLETED');
+    expect(sentMessages()).toEqual(['Mensagem a', 'Mensagem c']);
+
+    const skipped = (prisma.workflowStepRun.create as jest.Mock).mock.calls[1][0].data;
+    expect(skipped).toMatchObject({ stepId: 'b', status: 'SKIPPED', nextStepId: 'c' });
+  });
+
+  it('falha ao atingir o limite de steps de uma execução em loop', async () => {
+    await expect(startExecution([message('loop', { next: 'loop' })]))
+      .rejects.toThrow(`Limite de ${MAX_STEPS_PER_EXECUTION} steps por execução atingido`);
+
+    expect(executedSteps()).toHaveLength(MAX_STEPS_PER_EXECUTION);
+  });
+
+  it('conta o limite de steps a cada retomada, não desde o início da execução', async () => {
+    const execution = await startExecution(
+      [message('a'), message('b'), message('c')],
+      {},
+      { currentStep: MAX_STEPS_PER_EXECUTION - 1, currentStepId: 'a' }
+    );
+
+    expect(execution.status).toBe('COMPLETED');
+    expect(execution.currentStep).toBe(MAX_STEPS_PER_EXECUTION + 2);
+  });
+
+  it('envia o step EMAIL pelo transporte com o remetente da empresa e o HTML escapado', async () => {
+    const execution = await startExecution([
+      {
+        id: 'email',
+        type: 'EMAIL',
+        config: {
+          to: '{{customer.email}}',
+          subject: 'Pedido {{order.id}} confirmado',
+          template: '<p>Olá, {{customer.name}}</p>'
+        }
+      }
+    ], { customer: { name: 'Ana <b>', email: 'ana@cliente.com' }, order: { id: 42 } });
+
+    expect(execution.status).toBe('COMPLETED');
+    expect(execution.data.emailSent).toBe(true);
+    expect(capturedMail.sent[capturedMail.sent.length - 1]).toMatchObject({
+      from: '"Loja Exemplo" <contato@loja.com.br>',
+      to: ['ana@cliente.com'],
+      subject: 'Pedido 42 confirmado',
+      html: '<p>Olá, Ana &lt;b&gt;</p>',
+      text: 'Olá, Ana <b>'
+    });
+  });
+});
+
+describe('Tratamento de erros nos steps', () => {
+  const failNextMessage = () => (prisma.message.create as jest.Mock).mockRejectedValueOnce(new Error('banco indisponível'));
+
+  it('tenta de novo conforme step.retry e segue quando uma tentativa dá certo', async () => {
+    failNextMessage();
+
+    const execution = await startExecution([message('a', { retry: { count: 1, delayMs: 0 } }), message('b')]);
+
+    expect(execution.status).toBe('COMPLETED');
+    expect(stepRuns()[0]).toMatchObject({ stepId: 'a', status: 'COMPLETED', attempts: 2 });
+    expect(executedSteps()).toEqual(['a', 'b']);
+  });
+
+  it('desvia para onError com o erro em lastError', async () => {
+    failNextMessage();
+
+    const execution = await startExecution([
+      message('a', { onError: 'handler' }),
+      message('b', { next: null }),
+      message('handler', { config: { message: 'Falhou: {{lastError.message}}' } })
+    ]);
+
+    expect(execution.status).toBe('COMPLETED');
+    expect(executedSteps()).toEqual(['a', 'handler']);
+    expect(stepRuns()[0]).toMatchObject({ status: 'FAILED', error: 'banco indisponível', nextStepId: 'handler' });
+    expect(sentMessages()[1]).toBe('Falhou: banco indisponível');
+  });
+
+  it('ignora o erro com continueOnError e segue para o próximo step', async () => {
+    failNextMessage();
+
+    const execution = await startExecution([message('a', { continueOnError: true }), message('b')]);
+
+    expect(execution.status).toBe('COMPLETED');
+    expect(executedSteps()).toEqual(['a', 'b']);
+    expect(execution.data.lastError).toMatchObject({ stepId: 'a', attempts: 1 });
+  });
+
+  it('desvia para o fallback do fluxo uma única vez', async () => {
+    failNextMessage();
+
+    const execution = await startExecution([
+      message('a'),
+      message('b', { next: null }),
+      message('erro', { fallback: true, next: null })
+    ]);
+
+    expect(execution.status).toBe('COMPLETED');
+    expect(executedSteps()).toEqual(['a', 'erro']);
+    expect(execution.data.fallbackFrom).toMatchObject({ stepId: 'a' });
+  });
+
+  it('falha a execução quando o erro não é tratado', async () => {
+    failNextMessage();
+
+    await expect(startExecution([message('a'), message('b')])).rejects.toThrow('banco indisponível');
+
+    expect(executedSteps()).toEqual(['a']);
+    expect(stepRuns()[0]).toMatchObject({ status: 'FAILED', attempts: 1 });
+  });
+});
+
+describe('Pausa e retomada pelo agendador', () => {
+  beforeAll(() => workflowScheduler.start(executionId => workflowEngine.resume(executionId).then(() => undefined)));
+
+  afterAll(() => workflowScheduler.close());
+
+  it('pausa no DELAY e continua do step seguinte quando o agendador dispara', async () => {
+    const paused = await startExecution([
+      message('a'),
+      { id: 'wait', type: 'DELAY', config: { duration: 0 } },
+      message('b')
+    ]);
+
+    expect(paused.status).toBe('PAUSED');
+    expect(paused.currentStepId).toBe('b');
+    expect(paused.resumeAt).toBeInstanceOf(Date);
+    expect(sentMessages()).toEqual(['Mensagem a']);
+
+    const completed = await waitForStatus(paused.id, 'COMPLETED');
+
+    expect(completed.resumeAt).toBeNull();
+    expect(executedSteps()).toEqual(['a', 'wait', 'b']);
+    expect(sentMessages()).toEqual(['Mensagem a', 'Mensagem b']);
+  });
+
+  it('não retoma antes do horário agendado', async () => {
+    const paused = await startExecution([
+      { id: 'wait', type: 'DELAY', config: { duration: 1, unit: 'hours' } },
+      message('b')
+    ]);
+
+    const resumed = await workflowEngine.resume(paused.id);
+
+    expect(resumed.status).toBe('PAUSED');
+    expect(sentMessages()).toEqual([]);
+  });
+
+  it('uma pausa manual guarda a espera do DELAY e a restaura ao retomar', async () => {
+    const paused = await startExecution([
+      { id: 'wait', type: 'DELAY', config: { duration: 1, unit: 'hours' } },
+      message('b')
+    ]);
+
+    expect(await workflowEngine.pauseExecution(paused.id)).toBe(true);
+
+    const manual = await prisma.workflowExecution.findUnique({ where: { id: paused.id } });
+    expect(manual).toMatchObject({ status: 'PAUSED', resumeAt: null, waitingFor: { type: 'MANUAL' } });
+
+    expect(await workflowEngine.resumeExecution(paused.id)).toBe(true);
+
+    const restored = await prisma.workflowExecution.findUnique({ where: { id: paused.id } });
+    expect(restored).toMatchObject({ status: 'PAUSED', waitingFor: null });
+    expect(restored?.resumeAt?.getTime()).toBe(paused.resumeAt.getTime());
+  });
+});
+
+describe('WorkflowEngine.simulate', () => {
+  it('captura mensagens e chamadas HTTP em vez de executá-las', async () => {
+    const result = await workflowEngine.simulate({
+      companyId: 'company-1',
+      data: { customer: { name: 'Ana' } },
+      steps: [
+        { id: 'hello', type: 'MESSAGE', config: { message: 'Olá {{customer.name}}' } },
+        {
+          id: 'order',
+          type: 'API_CALL',
+          config: { url: 'https://api.loja.com/pedidos', method: 'get', responseMapping: { 'pedido.status': '$.status' } }
+        }
+      ],
+      mocks: { apiResponses: { order: { status: 200, body: { status: 'enviado' } } } }
+    });
+
+    expect(result.status).toBe('COMPLETED');
+    expect(result.data.pedido).toEqual({ status: 'enviado' });
+    expect(result.trace.map(entry => entry.stepId)).toEqual(['hello', 'order']);
+    expect(result.sideEffects).toEqual([
+      { type: 'message', stepId: 'hello', payload: expect.objectContaining({ content: 'Olá Ana' }) },
+      { type: 'http_request', stepId: 'order', payload: expect.objectContaining({ url: 'https://api.loja.com/pedidos' }) }
+    ]);
+    expect(prisma.message.create).not.toHaveBeenCalled();
+  });
+
+  it('entrega as respostas simuladas aos WAIT_FOR_REPLY em ordem e segue onTimeout quando a resposta é null', async () => {
+    const steps = [
+      { id: 'ask', type: 'WAIT_FOR_REPLY', config: { variable: 'nome', timeout: 10, unit: 'minutes' } },
+      { id: 'confirm', type: 'WAIT_FOR_REPLY', config: { variable: 'ok', timeout: 10, unit: 'minutes' }, onTimeout: 'late' },
+      message('done', { next: null }),
+      message('late')
+    ];
+
+    const result = await workflowEngine.simulate({ companyId: 'company-1', steps, replies: ['Ana', null] });
+
+    expect(result.status).toBe('COMPLETED');
+    expect(result.data).toMatchObject({ nome: 'Ana', replyTimedOut: true });
+    expect(result.trace.map(entry => entry.stepId)).toEqual(['ask', 'confirm', 'late']);
+  });
+
+  it('para em WAITING_FOR_REPLY quando acabam as respostas simuladas', async () => {
+    const result = await workflowEngine.simulate({
+      companyId: 'company-1',
+      steps: [{ id: 'ask', type: 'WAIT_FOR_REPLY', config: { variable: 'nome', timeout: 10, unit: 'minutes' } }, message('b')]
+    });
+
+    expect(result.status).toBe('WAITING_FOR_REPLY');
+    expect(result.trace.map(entry => entry.stepId)).toEqual(['ask']);
+  });
+
+  it('usa o ramo forçado do SPLIT sem gravar a atribuição', async () => {
+    const result = await workflowEngine.simulate({
+      companyId: 'company-1',
+      steps: [
+        { id: 'split', type: 'SPLIT', config: { branches: [{ id: 'A', weight: 1, next: 'a' }, { id: 'B', weight: 1, next: 'b' }] } },
+        message('a', { next: null }),
+        message('b', { next: null })
+      ],
+      mocks: { splitBranches: { split: 'B' } }
+    });
+
+    expect(result.trace.map(entry => entry.stepId)).toEqual(['split', 'b']);
+    expect(result.sideEffects[0]).toEqual({ type: 'split', stepId: 'split', payload: { branch: 'B', forced: true } });
+  });
+
+  it('falha quando o fluxo aponta para um step inexistente', async () => {
+    const result = await workflowEngine.simulate({
+      companyId: 'company-1',
+      steps: [message('a', { next: 'missing' })]
+    });
+
+    expect(result).toMatchObject({ status: 'FAILED', error: 'Step não encontrado no fluxo: missing' });
+  });
+});
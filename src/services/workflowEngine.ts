@@ -1,271 +1,1293 @@
+import { Prisma } from '@prisma/client';
 import prisma from '../utils/database';
 import logger from '../utils/logger';
+import { WorkflowStepDefinition, WorkflowStepEdge } from '../types';
+import {
+  normalizeSteps,
+  resolveNextStepId,
+  MAX_STEPS_PER_EXECUTION,
+  MAX_SUB_FLOW_DEPTH,
+  MAX_STEP_RETRIES,
+  MAX_STEP_RETRY_DELAY_MS,
+  DELAY_UNITS_IN_SECONDS,
+  getSplitBranches,
+  getStepIntents
+} from './workflowGraph';
+import workflowScheduler from './workflowScheduler';
+import { selectJsonPath } from './httpRequest';
+import {
+  liveSideEffects,
+  CapturingSideEffects,
+  CapturedSideEffect,
+  SimulationMocks,
+  WorkflowSideEffects
+} from './workflowEffects';
+import { renderTemplate, escapeHtml } from '../utils/template';
+import { CRM_OPERATIONS } from './crmOperations';
+import handoffService, { HANDOFF_STRATEGIES, HandoffRule, normalizeSkills } from './handoff';
+import flowStepService from './flowSteps';
+import { extractEntities } from './nlu';
 
-interface WorkflowStep {
-  id: string;
-  name: string;
-  type: string;
-  config: any;
-  conditions: any[];
-  actions: any[];
-  order: number;
-}
+type WorkflowStep = WorkflowStepDefinition;
 
 interface WorkflowData {
   [key: string]: any;
 }
 
+// Estado persistido em WorkflowExecution.waitingFor enquanto a execução está pausada
+interface ReplyWaitState {
+  type: 'REPLY';
+  stepId: string;
+  variable: string;
+  // Step a seguir se o tempo de espera acabar
+  timeoutStepId: string | null;
+}
+
+// Aguardando o término da execução filha iniciada por um step SUB_FLOW
+interface SubFlowWaitState {
+  type: 'SUB_FLOW';
+  stepId: string;
+  flowId: string;
+  childExecutionId: string | null;
+  // Variáveis da execução pai preenchidas com os dados finais do sub-fluxo: { destino: caminho }
+  output: { [target: string]: string };
+  // Caminho a seguir se o sub-fluxo falhar ou for cancelado (null = a pai também falha)
+  errorRoute: ErrorRoute | null;
+}
+
+type WaitState = ReplyWaitState | SubFlowWaitState;
+
+// Tratamento de um erro de step, em ordem de prioridade
+interface ErrorRoute {
+  via: 'onError' | 'continueOnError' | 'fallback';
+  nextStepId: string | null;
+}
+
+type PendingWait = Pick<ReplyWaitState, 'type' | 'variable'> | Pick<SubFlowWaitState, 'type' | 'flowId' | 'output'>;
+
+// Fluxo a ser iniciado como sub-fluxo
+interface SubFlowCall {
+  flowId: string;
+  flowVersionId: string;
+  steps: any[];
+  input: WorkflowData;
+}
+
+// Pausa manual feita por um operador; guarda a espera anterior para restaurá-la ao retomar
+interface ManualPauseState {
+  type: 'MANUAL';
+  pausedAt: string;
+  previous: {
+    waitingFor: WaitState | null;
+    resumeAt: string | null;
+  } | null;
+}
+
+type ExecutionWaitState = WaitState | ManualPauseState;
+
+interface ExecutionProgress {
+  currentStep: number;
+  currentStepId: string | null;
+  data: WorkflowData;
+}
+
+interface StepOutcome {
+  output: WorkflowData;
+  // Aresta a seguir após o step (padrão: next)
+  edge?: WorkflowStepEdge;
+  // Step escolhido pelo próprio step (ramos de SPLIT); tem prioridade sobre edge
+  nextStepId?: string | null;
+  // Pausa a execução até resumeAt e/ou até o evento aguardado
+  suspend?: {
+    resumeAt?: Date;
+    waitingFor?: PendingWait;
+  };
+  subFlow?: SubFlowCall;
+}
+
+// Registro de um step para o histórico da execução (WorkflowStepRun)
+interface StepRunRecord {
+  step: WorkflowStep;
+  position: number;
+  status: 'COMPLETED' | 'SKIPPED' | 'FAILED' | 'SUSPENDED';
+  input: WorkflowData;
+  output?: WorkflowData;
+  error?: string;
+  skippedReason?: string;
+  // Tentativas feitas (0 quando o step foi pulado)
+  attempts: number;
+  startedAt: Date;
+}
+
+export interface SimulationInput {
+  steps: any[];
+  // Fluxo simulado, se salvo (usado na detecção de sub-fluxos recursivos)
+  flowId?: string;
+  companyId: string;
+  data?: WorkflowData;
+  // Respostas do cliente entregues, em ordem, aos steps WAIT_FOR_REPLY
+  replies?: (string | null)[];
+  mocks?: SimulationMocks;
+}
+
+export interface SimulationResult {
+  status: 'COMPLETED' | 'FAILED' | 'WAITING_FOR_REPLY';
+  error?: string;
+  data: WorkflowData;
+  trace: {
+    position: number;
+    stepId: string;
+    stepName: string;
+    stepType: string;
+    status: StepRunRecord['status'];
+    input: WorkflowData;
+    output?: WorkflowData;
+    error?: string;
+    skippedReason?: string;
+    attempts: number;
+    nextStepId: string | null;
+    durationMs: number;
+    // Steps executados pelo sub-fluxo chamado neste step
+    subFlowTrace?: SimulationResult['trace'];
+  }[];
+  sideEffects: CapturedSideEffect[];
+}
+
+// Resultado de um step dentro do loop de execução
+interface StepResult {
+  data: WorkflowData;
+  nextStepId: string | null;
+  suspend?: StepOutcome['suspend'];
+  waitState?: WaitState;
+  subFlow?: SubFlowCall;
+  stepRun: StepRunRecord;
+  // Erro não tratado (sem onError, continueOnError ou fallback): encerra a execução
+  fatalError?: Error;
+}
+
+const ERROR_ROUTE_MESSAGES: { [via in ErrorRoute['via']]: string } = {
+  onError: 'Erro no step, desviando para onError',
+  continueOnError: 'Erro no step ignorado (continueOnError)',
+  fallback: 'Erro no step, desviando para o fallback do fluxo'
+};
+
 export class WorkflowEngine {
+  /**
+   * Chamado pelo agendador: inicia execuções enfileiradas e
+   * retoma execuções pausadas cujo resumeAt já venceu.
+   * Para esperas por resposta, o vencimento significa timeout.
+   */
+  async resume(executionId: string): Promise<any> {
+    const execution = await prisma.workflowExecution.findUnique({
+      where: { id: executionId }
+    });
+
+    if (!execution) {
+      return null;
+    }
+
+    if (execution.status === 'PAUSED') {
+      if (!execution.resumeAt || execution.resumeAt > new Date()) {
+        return execution;
+      }
+
+      // Pausas manuais e sub-fluxos não têm resumeAt, então aqui só há esperas de DELAY ou resposta
+      const waitState = execution.waitingFor as unknown as ReplyWaitState | null;
+      const timedOut = waitState?.type === 'REPLY';
+
+      const claimed = await prisma.workflowExecution.updateMany({
+        where: {
+          id: executionId,
+          status: 'PAUSED',
+          resumeAt: execution.resumeAt
+        },
+        data: {
+          status: 'RUNNING',
+          resumeAt: null,
+          waitingFor: Prisma.DbNull,
+          ...(timedOut && {
+            currentStepId: waitState!.timeoutStepId,
+            data: this.applyReplyTimeout(execution.data as WorkflowData)
+          })
+        }
+      });
+
+      if (claimed.count === 0) {
+        return execution;
+      }
+
+      logger.info(timedOut ? 'Tempo de espera por resposta esgotado' : 'Retomando execução pausada', {
+        executionId,
+        stepId: waitState?.stepId
+      });
+    }
+
+    return this.execute(executionId);
+  }
+
+  /**
+   * Entrega uma mensagem do cliente a uma execução que aguarda resposta
+   * nessa conversa. Retorna true se alguma execução consumiu a mensagem.
+   */
+  async deliverReply(conversationId: string, message: { id: string; content: string }): Promise<boolean> {
+    try {
+      const execution = await prisma.workflowExecution.findFirst({
+        where: {
+          conversationId,
+          status: 'PAUSED',
+          waitingFor: { path: ['type'], equals: 'REPLY' }
+        },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      if (!execution) {
+        return false;
+      }
+
+      const waitState = execution.waitingFor as unknown as ReplyWaitState;
+
+      const claimed = await prisma.workflowExecution.updateMany({
+        where: { id: execution.id, status: 'PAUSED' },
+        data: {
+          status: 'RUNNING',
+          resumeAt: null,
+          waitingFor: Prisma.DbNull,
+          data: this.applyReply(execution.data as WorkflowData, waitState.variable, message)
+        }
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      await workflowScheduler.schedule(execution.id);
+
+      logger.info('Resposta do cliente entregue ao workflow', {
+        executionId: execution.id,
+        conversationId,
+        stepId: waitState.stepId,
+        variable: waitState.variable
+      });
+
+      return true;
+    } catch (error: any) {
+      logger.error('Erro ao entregar resposta ao workflow', { conversationId, error: error.message });
+      return false;
+    }
+  }
+
+  /**
+   * Executa um fluxo em memória, sem conversa real: mensagens, alterações
+   * em conversas, chamadas HTTP e emails são capturados em vez de executados.
+   * DELAYs são pulados e WAIT_FOR_REPLY consome as respostas simuladas em ordem
+   * (null simula o tempo de espera esgotado). Sub-fluxos são simulados em sequência,
+   * com a versão publicada do fluxo chamado.
+   */
+  async simulate(input: SimulationInput): Promise<SimulationResult> {
+    const effects = new CapturingSideEffects(input.mocks);
+    const replies = [...(input.replies || [])];
+
+    const result = await this.simulateSteps(
+      normalizeSteps(input.steps),
+      input.companyId,
+      { ...(input.data || {}) },
+      effects,
+      replies,
+      input.flowId ? [input.flowId] : []
+    );
+
+    return { ...result, sideEffects: effects.captured };
+  }
+
+  private async simulateSteps(
+    steps: WorkflowStep[],
+    companyId: string,
+    initialData: WorkflowData,
+    effects: CapturingSideEffects,
+    replies: (string | null)[],
+    flowChain: string[]
+  ): Promise<Omit<SimulationResult, 'sideEffects'>> {
+    const stepsById = new Map(steps.map(step => [step.id, step]));
+    const trace: SimulationResult['trace'] = [];
+    const execution = {
+      id: 'simulation',
+      companyId,
+      flowId: flowChain[flowChain.length - 1] ?? null,
+      conversationId: 'simulation',
+      conversation: { channelId: 'simulation' },
+      flowChain
+    };
+
+    let data: WorkflowData = initialData;
+    let stepId: string | null = steps[0]?.id ?? null;
+    let position = 0;
+
+    const finish = (status: SimulationResult['status'], error?: string): Omit<SimulationResult, 'sideEffects'> => ({
+      status,
+      ...(error && { error }),
+      data,
+      trace
+    });
+
+    while (stepId) {
+      const step = stepsById.get(stepId);
+
+      if (!step) {
+        return finish('FAILED', `Step não encontrado no fluxo: ${stepId}`);
+      }
+
+      if (position >= MAX_STEPS_PER_EXECUTION) {
+        return finish('FAILED', `Limite de ${MAX_STEPS_PER_EXECUTION} steps por execução atingido (possível loop no fluxo)`);
+      }
+
+      position++;
+      effects.currentStepId = step.id;
+      const result = await this.runStep(steps, step, data, execution, effects, position);
+      const { stepRun } = result;
+
+      const entry: SimulationResult['trace'][number] = {
+        position,
+        stepId: step.id,
+        stepName: step.name,
+        stepType: step.type,
+        status: stepRun.status,
+        input: stepRun.input,
+        output: stepRun.output,
+        error: stepRun.error,
+        skippedReason: stepRun.skippedReason,
+        attempts: stepRun.attempts,
+        nextStepId: result.nextStepId,
+        durationMs: Date.now() - stepRun.startedAt.getTime()
+      };
+      trace.push(entry);
+
+      if (result.fatalError) {
+        return finish('FAILED', result.fatalError.message);
+      }
+
+      data = result.data;
+      stepId = result.nextStepId;
+
+      const { waitState } = result;
+
+      if (waitState?.type === 'SUB_FLOW' && result.subFlow) {
+        const child = await this.simulateSteps(
+          normalizeSteps(result.subFlow.steps),
+          companyId,
+          result.subFlow.input,
+          effects,
+          replies,
+          [...flowChain, result.subFlow.flowId]
+        );
+        entry.subFlowTrace = child.trace;
+
+        if (child.status === 'WAITING_FOR_REPLY') {
+          return finish('WAITING_FOR_REPLY');
+        }
+
+        if (child.status === 'FAILED') {
+          const message = `Sub-fluxo falhou: ${child.error}`;
+
+          if (!waitState.errorRoute) {
+            return finish('FAILED', message);
+          }
+
+          data = this.applyStepError(data, waitState.errorRoute, { stepId: waitState.stepId, message, attempts: 1 });
+          stepId = waitState.errorRoute.nextStepId;
+        } else {
+          data = this.applySubFlowOutput(data, waitState, child.data);
+        }
+      }
+
+      if (waitState?.type === 'REPLY') {
+        if (replies.length === 0) {
+          return finish('WAITING_FOR_REPLY');
+        }
+
+        const reply = replies.shift();
+
+        if (reply === null || reply === undefined) {
+          data = this.applyReplyTimeout(data);
+          stepId = waitState.timeoutStepId;
+        } else {
+          data = this.applyReply(data, waitState.variable, { id: `simulated-${position}`, content: reply });
+        }
+      }
+    }
+
+    return finish('COMPLETED');
+  }
+
+  /**
+   * Pausa manualmente uma execução em andamento ou aguardando (delay/resposta).
+   * Retorna false se a execução não existir ou não puder ser pausada.
+   */
+  async pauseExecution(executionId: string): Promise<boolean> {
+    const execution = await prisma.workflowExecution.findUnique({
+      where: { id: executionId }
+    });
+
+    const waitState = execution?.waitingFor as unknown as ExecutionWaitState | null;
+
+    if (!execution || !['RUNNING', 'PAUSED'].includes(execution.status) || waitState?.type === 'MANUAL') {
+      return false;
+    }
+
+    const pauseState: ManualPauseState = {
+      type: 'MANUAL',
+      pausedAt: new Date().toISOString(),
+      previous: execution.status === 'PAUSED'
+        ? { waitingFor: waitState as WaitState | null, resumeAt: execution.resumeAt?.toISOString() ?? null }
+        : null
+    };
+
+    const claimed = await prisma.workflowExecution.updateMany({
+      where: { id: executionId, status: execution.status, updatedAt: execution.updatedAt },
+      data: {
+        status: 'PAUSED',
+        resumeAt: null,
+        waitingFor: pauseState as any
+      }
+    });
+
+    if (claimed.count > 0) {
+      logger.info('Execução pausada manualmente', { executionId, previousStatus: execution.status });
+    }
+
+    return claimed.count > 0;
+  }
+
+  /**
+   * Retoma uma execução pausada manualmente a partir do step em que parou.
+   * Se ela estava aguardando um delay ou uma resposta, a espera é restaurada.
+   */
+  async resumeExecution(executionId: string): Promise<boolean> {
+    const execution = await prisma.workflowExecution.findUnique({
+      where: { id: executionId }
+    });
+
+    const pauseState = execution?.waitingFor as unknown as ExecutionWaitState | null;
+
+    if (!execution || execution.status !== 'PAUSED' || pauseState?.type !== 'MANUAL') {
+      return false;
+    }
+
+    const previous = pauseState.previous;
+    const resumeAt = previous?.resumeAt ? new Date(previous.resumeAt) : null;
+
+    const claimed = await prisma.workflowExecution.updateMany({
+      where: { id: executionId, status: 'PAUSED', updatedAt: execution.updatedAt },
+      data: previous
+        ? { resumeAt, waitingFor: previous.waitingFor ? (previous.waitingFor as any) : Prisma.DbNull }
+        : { status: 'RUNNING', resumeAt: null, waitingFor: Prisma.DbNull }
+    });
+
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    if (!previous) {
+      await workflowScheduler.schedule(executionId);
+    } else if (resumeAt) {
+      await workflowScheduler.schedule(executionId, resumeAt);
+    }
+
+    logger.info('Execução retomada manualmente', { executionId, restoredWait: previous?.waitingFor?.type });
+
+    return true;
+  }
+
+  async cancelExecution(executionId: string): Promise<boolean> {
+    const cancelled = await prisma.workflowExecution.updateMany({
+      where: { id: executionId, status: { in: ['RUNNING', 'PAUSED'] } },
+      data: {
+        status: 'CANCELLED',
+        resumeAt: null,
+        waitingFor: Prisma.DbNull,
+        endedAt: new Date()
+      }
+    });
+
+    if (cancelled.count === 0) {
+      return false;
+    }
+
+    logger.info('Execução cancelada', { executionId });
+
+    // Sub-fluxos em andamento são cancelados junto; se esta execução é um sub-fluxo, a pai é avisada
+    const children = await prisma.workflowExecution.findMany({
+      where: { parentExecutionId: executionId, status: { in: ['RUNNING', 'PAUSED'] } },
+      select: { id: true }
+    });
+
+    for (const child of children) {
+      await this.cancelExecution(child.id);
+    }
+
+    await this.resumeParentExecution(executionId);
+
+    return true;
+  }
+
+  /**
+   * Reexecuta uma execução FAILED a partir do step que falhou.
+   * Os dados informados são mesclados aos dados atuais da execução.
+   */
+  async retryExecution(executionId: string, data: WorkflowData = {}): Promise<boolean> {
+    const execution = await prisma.workflowExecution.findUnique({
+      where: { id: executionId }
+    });
+
+    if (!execution || execution.status !== 'FAILED') {
+      return false;
+    }
+
+    const claimed = await prisma.workflowExecution.updateMany({
+      where: { id: executionId, status: 'FAILED', updatedAt: execution.updatedAt },
+      data: {
+        status: 'RUNNING',
+        data: { ...(execution.data as WorkflowData), ...data },
+        result: Prisma.DbNull,
+        endedAt: null
+      }
+    });
+
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    await workflowScheduler.schedule(executionId);
+
+    logger.info('Execução reenviada para nova tentativa', {
+      executionId,
+      currentStepId: execution.currentStepId,
+      editedKeys: Object.keys(data)
+    });
+
+    return true;
+  }
+
   async execute(executionId: string): Promise<any> {
+    let failedStepId: string | undefined;
+
     try {
       // Buscar a execução
       const execution = await prisma.workflowExecution.findUnique({
         where: { id: executionId },
         include: {
           flow: true,
+          flowVersion: true,
           conversation: true
         }
       });
 
-      if (!execution) {
-        throw new Error('Execução não encontrada');
-      }
+      if (!execution) {
+        throw new Error('Execução não encontrada');
+      }
+
+      if (execution.status !== 'RUNNING') {
+        return execution;
+      }
+
+      // Execuções anteriores ao versionamento não têm versão fixada e usam o rascunho do fluxo
+      const steps = execution.flowVersionId
+        ? await flowStepService.getVersionSteps(execution.flowVersionId)
+        : await flowStepService.getDraftSteps(execution.flowId);
+      const stepsById = new Map(steps.map(step => [step.id, step]));
+      let currentData = execution.data as WorkflowData;
+      let stepsExecuted = execution.currentStep;
+      // O limite vale para cada trecho executado: esperas e retomadas não acumulam steps
+      let stepsThisRun = 0;
+      let stepId: string | null = stepsExecuted === 0
+        ? steps[0]?.id ?? null
+        : execution.currentStepId;
+
+      logger.info('Iniciando execução do workflow', {
+        executionId,
+        flowId: execution.flowId,
+        totalSteps: steps.length,
+        currentStepId: stepId
+      });
+
+      // Percorrer o grafo a partir do step atual
+      while (stepId) {
+        const step = stepsById.get(stepId);
+
+        if (!step) {
+          throw new Error(`Step não encontrado no fluxo: ${stepId}`);
+        }
+
+        if (stepsThisRun >= MAX_STEPS_PER_EXECUTION) {
+          throw new Error(`Limite de ${MAX_STEPS_PER_EXECUTION} steps por execução atingido (possível loop no fluxo)`);
+        }
+
+        stepsThisRun++;
+        stepsExecuted++;
+        const result = await this.runStep(steps, step, currentData, execution, liveSideEffects, stepsExecuted);
+
+        if (result.fatalError) {
+          await this.recordStepRun(executionId, result.stepRun, null);
+          failedStepId = step.id;
+          throw result.fatalError;
+        }
+
+        await this.recordStepRun(executionId, result.stepRun, result.nextStepId);
+
+        currentData = result.data;
+        const { nextStepId, suspend } = result;
+        let { waitState } = result;
+
+        // A execução filha é criada antes de pausar a pai, para que o id fique salvo na espera
+        if (waitState?.type === 'SUB_FLOW' && result.subFlow) {
+          const child = await this.startSubFlow(execution, step, result.subFlow);
+          waitState = { ...waitState, childExecutionId: child.id };
+        }
+
+        // Atualizar progresso, desde que nenhum operador tenha pausado/cancelado a execução
+        const progress: ExecutionProgress = {
+          currentStep: stepsExecuted,
+          currentStepId: nextStepId,
+          data: currentData
+        };
+
+        const saved = await prisma.workflowExecution.updateMany({
+          where: { id: executionId, status: 'RUNNING' },
+          data: {
+            ...progress,
+            ...(suspend && {
+              status: 'PAUSED',
+              resumeAt: suspend.resumeAt ?? null,
+              waitingFor: waitState ? (waitState as any) : Prisma.DbNull
+            })
+          }
+        });
+
+        if (saved.count === 0) {
+          return this.saveInterruptedProgress(executionId, progress, suspend, waitState);
+        }
+
+        if (suspend) {
+          if (suspend.resumeAt) {
+            await workflowScheduler.schedule(executionId, suspend.resumeAt);
+          }
+
+          if (waitState?.type === 'SUB_FLOW' && waitState.childExecutionId) {
+            await workflowScheduler.schedule(waitState.childExecutionId);
+          }
+
+          logger.info('Workflow pausado', {
+            executionId,
+            stepId: step.id,
+            resumeAt: suspend.resumeAt,
+            waitingFor: waitState?.type,
+            nextStepId
+          });
+
+          return prisma.workflowExecution.findUnique({ where: { id: executionId } });
+        }
+
+        stepId = nextStepId;
+      }
+
+      // Marcar como concluída
+      await prisma.workflowExecution.updateMany({
+        where: { id: executionId, status: 'RUNNING' },
+        data: {
+          status: 'COMPLETED',
+          result: currentData,
+          endedAt: new Date()
+        }
+      });
+
+      logger.info('Workflow executado com sucesso', {
+        executionId,
+        stepsExecuted
+      });
+
+      if (execution.parentExecutionId) {
+        await this.resumeParentExecution(executionId);
+      }
+
+      return prisma.workflowExecution.findUnique({ where: { id: executionId } });
+
+    } catch (error: any) {
+      logger.error('Erro na execução do workflow', {
+        executionId,
+        error: error.message
+      });
+
+      // Marcar como falhada (execuções canceladas durante o step continuam canceladas)
+      await prisma.workflowExecution.updateMany({
+        where: { id: executionId, status: 'RUNNING' },
+        data: {
+          status: 'FAILED',
+          result: { error: error.message, stepId: failedStepId ?? null },
+          endedAt: new Date()
+        }
+      });
+
+      await this.resumeParentExecution(executionId);
+
+      throw error;
+    }
+  }
+
+  /**
+   * Executa um único step: avalia as condições, roda o handler e resolve a
+   * próxima aresta (incluindo onError). Não persiste nada; quem chama decide
+   * o que fazer com o resultado (execução real ou simulação).
+   */
+  private async runStep(
+    steps: WorkflowStep[],
+    step: WorkflowStep,
+    data: WorkflowData,
+    execution: any,
+    effects: WorkflowSideEffects,
+    position: number
+  ): Promise<StepResult> {
+    const stepRun: StepRunRecord = {
+      step,
+      position,
+      status: 'COMPLETED',
+      input: data,
+      attempts: 0,
+      startedAt: new Date()
+    };
+
+    try {
+      logger.info('Executando step', {
+        executionId: execution.id,
+        stepId: step.id,
+        stepName: step.name,
+        stepType: step.type
+      });
+
+      // Verificar condições
+      const unmetCondition = this.findUnmetCondition(step.conditions, data);
+
+      if (unmetCondition) {
+        logger.info('Step pulado devido às condições', {
+          executionId: execution.id,
+          stepId: step.id,
+          stepName: step.name
+        });
+
+        stepRun.status = 'SKIPPED';
+        stepRun.skippedReason = this.describeCondition(unmetCondition, data);
+
+        return { data, nextStepId: resolveNextStepId(steps, step, 'next'), stepRun };
+      }
+
+      // Executar step (com novas tentativas, se configuradas)
+      const outcome = await this.executeWithRetry(step, data, execution, effects, stepRun);
+      const nextStepId = outcome.nextStepId !== undefined
+        ? outcome.nextStepId
+        : resolveNextStepId(steps, step, outcome.edge);
+
+      stepRun.output = outcome.output;
+      stepRun.status = outcome.suspend ? 'SUSPENDED' : 'COMPLETED';
+
+      logger.info('Step executado com sucesso', {
+        executionId: execution.id,
+        stepId: step.id,
+        stepName: step.name,
+        result: outcome.output,
+        nextStepId
+      });
+
+      return {
+        // Atualizar dados
+        data: { ...data, ...outcome.output },
+        nextStepId,
+        suspend: outcome.suspend,
+        waitState: outcome.suspend?.waitingFor && this.buildWaitState(steps, step, data, outcome.suspend.waitingFor),
+        subFlow: outcome.subFlow,
+        stepRun
+      };
+    } catch (error: any) {
+      stepRun.status = 'FAILED';
+      stepRun.error = error.message;
+
+      const route = this.resolveErrorRoute(steps, step, data);
+
+      if (!route) {
+        return { data, nextStepId: null, stepRun, fatalError: error };
+      }
+
+      logger.warn(ERROR_ROUTE_MESSAGES[route.via], {
+        executionId: execution.id,
+        stepId: step.id,
+        nextStepId: route.nextStepId,
+        error: error.message
+      });
+
+      return {
+        data: this.applyStepError(data, route, { stepId: step.id, message: error.message, attempts: stepRun.attempts }),
+        nextStepId: route.nextStepId,
+        stepRun
+      };
+    }
+  }
+
+  /**
+   * Para onde vai a execução quando um step falha: onError, o próximo step
+   * (continueOnError) ou o fallback do fluxo. null quando o erro não é tratado.
+   * O fallback só é acionado uma vez por execução, para não entrar em loop.
+   */
+  private resolveErrorRoute(steps: WorkflowStep[], step: WorkflowStep, data: WorkflowData): ErrorRoute | null {
+    if (step.onError) {
+      return { via: 'onError', nextStepId: step.onError };
+    }
+
+    if (step.continueOnError) {
+      return { via: 'continueOnError', nextStepId: resolveNextStepId(steps, step, 'next') };
+    }
+
+    const fallbackStep = steps.find(s => s.fallback);
+
+    if (fallbackStep && !data.fallbackFrom) {
+      return { via: 'fallback', nextStepId: fallbackStep.id };
+    }
+
+    return null;
+  }
+
+  private applyStepError(
+    data: WorkflowData,
+    route: ErrorRoute,
+    lastError: { stepId: string; message: string; attempts: number }
+  ): WorkflowData {
+    return {
+      ...data,
+      lastError,
+      ...(route.via === 'fallback' && { fallbackFrom: lastError })
+    };
+  }
+
+  /**
+   * Executa o step aplicando a política step.retry: até retry.count novas tentativas,
+   * com espera fixa ou exponencial entre elas.
+   */
+  private async executeWithRetry(
+    step: WorkflowStep,
+    data: WorkflowData,
+    execution: any,
+    effects: WorkflowSideEffects,
+    stepRun: StepRunRecord
+  ): Promise<StepOutcome> {
+    const { count = 0, delayMs = 1000, backoff = 'exponential' } = step.retry || {};
+    const maxRetries = Math.min(Math.max(Number(count) || 0, 0), MAX_STEP_RETRIES);
+
+    for (let attempt = 1; ; attempt++) {
+      stepRun.attempts = attempt;
+
+      try {
+        return await this.executeStep(step, data, execution, effects);
+      } catch (error: any) {
+        if (attempt > maxRetries) {
+          throw error;
+        }
+
+        const baseDelay = Math.max(Number(delayMs) || 0, 0);
+        const wait = Math.min(backoff === 'fixed' ? baseDelay : baseDelay * 2 ** (attempt - 1), MAX_STEP_RETRY_DELAY_MS);
+
+        logger.warn('Erro no step, tentando novamente', {
+          executionId: execution.id,
+          stepId: step.id,
+          attempt,
+          maxRetries,
+          retryInMs: wait,
+          error: error.message
+        });
+
+        await effects.sleep(wait);
+      }
+    }
+  }
+
+  /**
+   * Chamado quando um operador pausou ou cancelou a execução enquanto um step rodava.
+   * Em pausas manuais o progresso é salvo, e uma espera iniciada pelo step fica
+   * guardada para quando a execução for retomada. Execuções canceladas são descartadas.
+   */
+  private async saveInterruptedProgress(
+    executionId: string,
+    progress: ExecutionProgress,
+    suspend: StepOutcome['suspend'],
+    waitState: WaitState | undefined
+  ): Promise<any> {
+    const execution = await prisma.workflowExecution.findUnique({
+      where: { id: executionId }
+    });
+
+    const pauseState = execution?.waitingFor as unknown as ExecutionWaitState | null;
+
+    if (execution?.status === 'PAUSED' && pauseState?.type === 'MANUAL') {
+      const updatedPauseState: ManualPauseState = suspend
+        ? { ...pauseState, previous: { waitingFor: waitState ?? null, resumeAt: suspend.resumeAt?.toISOString() ?? null } }
+        : pauseState;
+
+      await prisma.workflowExecution.update({
+        where: { id: executionId },
+        data: {
+          ...progress,
+          waitingFor: updatedPauseState as any
+        }
+      });
+    }
+
+    // O sub-fluxo iniciado pelo step só segue se a execução pai não foi cancelada
+    if (waitState?.type === 'SUB_FLOW' && waitState.childExecutionId) {
+      if (execution?.status === 'CANCELLED') {
+        await this.cancelExecution(waitState.childExecutionId);
+      } else {
+        await workflowScheduler.schedule(waitState.childExecutionId);
+      }
+    }
+
+    logger.info('Workflow interrompido por operador', {
+      executionId,
+      status: execution?.status,
+      nextStepId: progress.currentStepId
+    });
+
+    return prisma.workflowExecution.findUnique({ where: { id: executionId } });
+  }
+
+  private applyReply(data: WorkflowData, variable: string, message: { id: string; content: string }): WorkflowData {
+    return {
+      ...this.setNestedValue({ ...data }, variable, message.content),
+      waitingForReply: false,
+      replyTimedOut: false,
+      lastReply: { messageId: message.id, content: message.content, receivedAt: new Date().toISOString() }
+    };
+  }
+
+  private applyReplyTimeout(data: WorkflowData): WorkflowData {
+    return { ...data, waitingForReply: false, replyTimedOut: true };
+  }
+
+  private buildWaitState(steps: WorkflowStep[], step: WorkflowStep, data: WorkflowData, waitingFor: PendingWait): WaitState {
+    if (waitingFor.type === 'SUB_FLOW') {
+      return {
+        ...waitingFor,
+        stepId: step.id,
+        childExecutionId: null,
+        errorRoute: this.resolveErrorRoute(steps, step, data)
+      };
+    }
+
+    return { ...waitingFor, stepId: step.id, timeoutStepId: resolveNextStepId(steps, step, 'onTimeout') };
+  }
+
+  // Copia os dados finais do sub-fluxo para a execução pai, conforme o mapeamento de saída
+  private applySubFlowOutput(data: WorkflowData, waitState: SubFlowWaitState, childData: WorkflowData): WorkflowData {
+    let result: WorkflowData = { ...data, subFlow: { ...data.subFlow, status: 'COMPLETED' } };
 
-      if (execution.status !== 'RUNNING') {
-        return execution;
+    for (const [target, path] of Object.entries(waitState.output || {})) {
+      result = this.setNestedValue(result, target, this.getNestedValue(childData, String(path)));
+    }
+
+    return result;
+  }
+
+  private async startSubFlow(execution: any, step: WorkflowStep, call: SubFlowCall) {
+    const child = await prisma.workflowExecution.create({
+      data: {
+        flowId: call.flowId,
+        flowVersionId: call.flowVersionId,
+        conversationId: execution.conversationId,
+        companyId: execution.companyId,
+        parentExecutionId: execution.id,
+        parentStepId: step.id,
+        data: call.input,
+        status: 'RUNNING'
       }
+    });
 
-      const steps = execution.flow.steps as unknown as WorkflowStep[];
-      let currentData = execution.data as WorkflowData;
-      let currentStep = execution.currentStep;
+    logger.info('Sub-fluxo iniciado', {
+      executionId: execution.id,
+      childExecutionId: child.id,
+      flowId: call.flowId,
+      stepId: step.id
+    });
 
-      logger.info('Iniciando execução do workflow', {
-        executionId,
-        flowId: execution.flowId,
-        totalSteps: steps.length,
-        currentStep
+    return child;
+  }
+
+  /**
+   * Chamado quando uma execução termina (concluída, com falha ou cancelada). Se ela
+   * foi iniciada por um step SUB_FLOW, devolve o resultado à execução pai e a retoma:
+   * em caso de falha a pai segue o tratamento de erro do step (onError, continueOnError
+   * ou fallback do fluxo), ou falha também.
+   */
+  private async resumeParentExecution(childExecutionId: string): Promise<void> {
+    try {
+      const child = await prisma.workflowExecution.findUnique({
+        where: { id: childExecutionId },
+        select: { status: true, data: true, result: true, parentExecutionId: true }
       });
 
-      // Executar cada step
-      for (let i = currentStep; i < steps.length; i++) {
-        const step = steps[i];
-        
-        try {
-          logger.info('Executando step', {
-            executionId,
-            stepName: step.name,
-            stepType: step.type,
-            stepOrder: i
-          });
+      if (!child?.parentExecutionId || !['COMPLETED', 'FAILED', 'CANCELLED'].includes(child.status)) {
+        return;
+      }
 
-          // Verificar condições
-          if (step.conditions && step.conditions.length > 0) {
-            const shouldExecute = await this.evaluateConditions(step.conditions, currentData);
-            if (!shouldExecute) {
-              logger.info('Step pulado devido às condições', {
-                executionId,
-                stepName: step.name
-              });
-              continue;
-            }
-          }
+      const parent = await prisma.workflowExecution.findUnique({
+        where: { id: child.parentExecutionId }
+      });
 
-          // Executar step
-          const result = await this.executeStep(step, currentData, execution);
-          
-          // Atualizar dados
-          currentData = { ...currentData, ...result };
-
-          // Atualizar progresso
-          await prisma.workflowExecution.update({
-            where: { id: executionId },
-            data: {
-              currentStep: i + 1,
-              data: currentData
-            }
-          });
+      if (!parent || parent.status !== 'PAUSED') {
+        return;
+      }
 
-          logger.info('Step executado com sucesso', {
-            executionId,
-            stepName: step.name,
-            result
-          });
+      // Uma pai pausada manualmente guarda a espera pelo sub-fluxo em previous
+      const parentWait = parent.waitingFor as unknown as ExecutionWaitState | null;
+      const pauseState = parentWait?.type === 'MANUAL' ? parentWait : null;
+      const waitState = pauseState ? pauseState.previous?.waitingFor : parentWait as WaitState | null;
 
-        } catch (error: any) {
-          logger.error('Erro ao executar step', {
-            executionId,
-            stepName: step.name,
-            error: error.message
-          });
+      if (waitState?.type !== 'SUB_FLOW' || waitState.childExecutionId !== childExecutionId) {
+        return;
+      }
 
-          // Marcar execução como falhada
-          await prisma.workflowExecution.update({
-            where: { id: executionId },
-            data: {
-              status: 'FAILED',
-              result: { error: error.message }
-            }
-          });
+      const parentData = parent.data as WorkflowData;
+      const error = child.status === 'CANCELLED'
+        ? 'Sub-fluxo cancelado'
+        : `Sub-fluxo falhou: ${(child.result as any)?.error ?? 'erro desconhecido'}`;
 
-          throw error;
+      if (child.status !== 'COMPLETED' && !waitState.errorRoute) {
+        // Sem onError a pai falha no step SUB_FLOW, que é refeito se a execução for reenviada
+        const failed = await prisma.workflowExecution.updateMany({
+          where: { id: parent.id, status: 'PAUSED', updatedAt: parent.updatedAt },
+          data: {
+            status: 'FAILED',
+            currentStepId: waitState.stepId,
+            waitingFor: Prisma.DbNull,
+            result: { error, stepId: waitState.stepId },
+            endedAt: new Date()
+          }
+        });
+
+        if (failed.count > 0) {
+          logger.error('Execução pai falhou por causa do sub-fluxo', { executionId: parent.id, childExecutionId, error });
+          await this.resumeParentExecution(parent.id);
         }
+        return;
       }
 
-      // Marcar como concluída
-      const completedExecution = await prisma.workflowExecution.update({
-        where: { id: executionId },
-        data: {
-          status: 'COMPLETED',
-          result: currentData,
-          endedAt: new Date()
+      const progress = child.status === 'COMPLETED'
+        ? {
+          currentStepId: parent.currentStepId,
+          data: this.applySubFlowOutput(parentData, waitState, child.data as WorkflowData)
         }
-      });
+        : {
+          currentStepId: waitState.errorRoute!.nextStepId,
+          data: this.applyStepError(
+            { ...parentData, subFlow: { ...parentData.subFlow, status: child.status } },
+            waitState.errorRoute!,
+            { stepId: waitState.stepId, message: error, attempts: 1 }
+          )
+        };
 
-      logger.info('Workflow executado com sucesso', {
-        executionId,
-        totalSteps: steps.length
+      const claimed = await prisma.workflowExecution.updateMany({
+        where: { id: parent.id, status: 'PAUSED', updatedAt: parent.updatedAt },
+        data: pauseState
+          ? { ...progress, waitingFor: { ...pauseState, previous: null } as any }
+          : { ...progress, status: 'RUNNING', waitingFor: Prisma.DbNull }
       });
 
-      return completedExecution;
+      if (claimed.count === 0) {
+        return;
+      }
 
-    } catch (error: any) {
-      logger.error('Erro na execução do workflow', {
-        executionId,
-        error: error.message
+      // Se a pai estiver pausada manualmente, ela segue quando for retomada
+      if (!pauseState) {
+        await workflowScheduler.schedule(parent.id);
+      }
+
+      logger.info('Sub-fluxo finalizado, retomando execução pai', {
+        executionId: parent.id,
+        childExecutionId,
+        status: child.status,
+        nextStepId: progress.currentStepId
       });
+    } catch (error: any) {
+      logger.error('Erro ao retomar execução pai do sub-fluxo', { childExecutionId, error: error.message });
+    }
+  }
 
-      // Marcar como falhada
-      await prisma.workflowExecution.update({
-        where: { id: executionId },
+  private async recordStepRun(executionId: string, stepRun: StepRunRecord, nextStepId: string | null): Promise<void> {
+    const endedAt = new Date();
+
+    try {
+      await prisma.workflowStepRun.create({
         data: {
-          status: 'FAILED',
-          result: { error: error.message },
-          endedAt: new Date()
+          executionId,
+          position: stepRun.position,
+          stepId: stepRun.step.id,
+          stepName: stepRun.step.name,
+          stepType: stepRun.step.type,
+          status: stepRun.status,
+          input: stepRun.input,
+          output: stepRun.output ?? Prisma.DbNull,
+          error: stepRun.error,
+          skippedReason: stepRun.skippedReason,
+          attempts: stepRun.attempts,
+          nextStepId,
+          durationMs: endedAt.getTime() - stepRun.startedAt.getTime(),
+          startedAt: stepRun.startedAt,
+          endedAt
         }
       });
-
-      throw error;
+    } catch (error: any) {
+      // O histórico não deve interromper a execução do fluxo
+      logger.error('Erro ao registrar histórico do step', {
+        executionId,
+        stepId: stepRun.step.id,
+        error: error.message
+      });
     }
   }
 
   private async evaluateConditions(conditions: any[], data: WorkflowData): Promise<boolean> {
-    for (const condition of conditions) {
-      const { field, operator, value } = condition;
-      
-      const fieldValue = this.getNestedValue(data, field);
-      
-      switch (operator) {
-        case 'equals':
-          if (fieldValue !== value) return false;
-          break;
-        case 'not_equals':
-          if (fieldValue === value) return false;
-          break;
-        case 'contains':
-          if (!String(fieldValue).includes(String(value))) return false;
-          break;
-        case 'greater_than':
-          if (Number(fieldValue) <= Number(value)) return false;
-          break;
-        case 'less_than':
-          if (Number(fieldValue) >= Number(value)) return false;
-          break;
-        case 'exists':
-          if (fieldValue === undefined || fieldValue === null) return false;
-          break;
-        case 'not_exists':
-          if (fieldValue !== undefined && fieldValue !== null) return false;
-          break;
-        default:
-          return false;
-      }
+    return this.findUnmetCondition(conditions, data) === undefined;
+  }
+
+  private findUnmetCondition(conditions: any[], data: WorkflowData): any {
+    return conditions.find(condition => !this.evaluateCondition(condition, data));
+  }
+
+  private evaluateCondition(condition: any, data: WorkflowData): boolean {
+    const { field, operator, value } = condition;
+    const fieldValue = this.getNestedValue(data, field);
+
+    switch (operator) {
+      case 'equals':
+        return fieldValue === value;
+      case 'not_equals':
+        return fieldValue !== value;
+      case 'contains':
+        return String(fieldValue).includes(String(value));
+      case 'greater_than':
+        return Number(fieldValue) > Number(value);
+      case 'less_than':
+        return Number(fieldValue) < Number(value);
+      case 'exists':
+        return fieldValue !== undefined && fieldValue !== null;
+      case 'not_exists':
+        return fieldValue === undefined || fieldValue === null;
+      default:
+        return false;
     }
-    
-    return true;
   }
 
-  private async executeStep(step: WorkflowStep, data: WorkflowData, execution: any): Promise<any> {
+  private describeCondition(condition: any, data: WorkflowData): string {
+    const { field, operator, value } = condition;
+    const actual = JSON.stringify(this.getNestedValue(data, field)) ?? 'undefined';
+    const expected = value !== undefined ? ` ${JSON.stringify(value)}` : '';
+
+    return `Condição não atendida: ${field} ${operator}${expected} (valor atual: ${actual})`;
+  }
+
+  private async executeStep(
+    step: WorkflowStep,
+    data: WorkflowData,
+    execution: any,
+    effects: WorkflowSideEffects
+  ): Promise<StepOutcome> {
     switch (step.type) {
       case 'MESSAGE':
-        return await this.executeMessageStep(step, data, execution);
+        return { output: await this.executeMessageStep(step, data, execution, effects) };
       
       case 'CONDITION':
         return await this.executeConditionStep(step, data);
       
       case 'ACTION':
-        return await this.executeActionStep(step, data);
+        return { output: await this.executeActionStep(step, data, effects) };
       
       case 'DELAY':
-        return await this.executeDelayStep(step);
+        return this.executeDelayStep(step);
       
       case 'INTENT':
-        return await this.executeIntentStep(step, data);
+        return await this.executeIntentStep(step, data, execution, effects);
       
       case 'ENTITY':
-        return await this.executeEntityStep(step, data);
+        return await this.executeEntityStep(step, data, execution, effects);
       
       case 'API_CALL':
-        return await this.executeApiCallStep(step, data);
+        return { output: await this.executeApiCallStep(step, data, execution, effects) };
       
       case 'DATABASE':
-        return await this.executeDatabaseStep(step, data);
+        return { output: await this.executeDatabaseStep(step, data, execution, effects) };
       
       case 'EMAIL':
-        return await this.executeEmailStep(step, data);
+        return { output: await this.executeEmailStep(step, data, execution, effects) };
       
       case 'NOTIFICATION':
-        return await this.executeNotificationStep(step, data);
+        return { output: await this.executeNotificationStep(step, data) };
+      
+      case 'WAIT_FOR_REPLY':
+        return this.executeWaitForReplyStep(step);
+
+      case 'SUB_FLOW':
+        return await this.executeSubFlowStep(step, data, execution);
+
+      case 'HANDOFF':
+        return { output: await this.executeHandoffStep(step, data, execution, effects) };
+
+      case 'SPLIT':
+        return await this.executeSplitStep(step, data, execution, effects);
       
       default:
         throw new Error(`Tipo de step não suportado: ${step.type}`);
     }
   }
 
-  private async executeMessageStep(step: WorkflowStep, data: WorkflowData, execution: any): Promise<any> {
+  private async executeMessageStep(
+    step: WorkflowStep,
+    data: WorkflowData,
+    execution: any,
+    effects: WorkflowSideEffects
+  ): Promise<any> {
     const { message, channel } = step.config;
     
     // Substituir variáveis na mensagem
     const processedMessage = this.processTemplate(message, data);
     
     // Enviar mensagem
-    await prisma.message.create({
-      data: {
-        content: processedMessage,
-        type: 'TEXT',
-        sender: 'BOT',
-        conversationId: execution.conversationId,
-        channelId: execution.conversation.channelId,
-        metadata: {
-          workflowStep: step.name,
-          workflowExecution: execution.id
-        }
+    await effects.sendMessage({
+      content: processedMessage,
+      conversationId: execution.conversationId,
+      channelId: execution.conversation.channelId,
+      metadata: {
+        workflowStep: step.name,
+        workflowExecution: execution.id
       }
     });
 
     return { messageSent: true, content: processedMessage };
   }
 
-  private async executeConditionStep(step: WorkflowStep, data: WorkflowData): Promise<any> {
-    const { conditions, trueBranch, falseBranch } = step.config;
+  private async executeConditionStep(step: WorkflowStep, data: WorkflowData): Promise<StepOutcome> {
+    const { conditions = [] } = step.config;
     
     const result = await this.evaluateConditions(conditions, data);
     
     return {
-      conditionResult: result,
-      branch: result ? trueBranch : falseBranch
+      output: { conditionResult: result },
+      edge: result ? 'onTrue' : 'onFalse'
     };
   }
 
-  private async executeActionStep(step: WorkflowStep, data: WorkflowData): Promise<any> {
+  private async executeActionStep(step: WorkflowStep, data: WorkflowData, effects: WorkflowSideEffects): Promise<any> {
     const { action, parameters } = step.config;
     
     // Executar ação específica
     switch (action) {
       case 'assign_conversation':
-        return await this.assignConversation(parameters, data);
+        return await this.assignConversation(parameters, data, effects);
       
       case 'update_conversation_status':
-        return await this.updateConversationStatus(parameters, data);
+        return await this.updateConversationStatus(parameters, data, effects);
       
       case 'create_ticket':
         return await this.createTicket(parameters, data);
@@ -278,76 +1300,487 @@ export class WorkflowEngine {
     }
   }
 
-  private async executeDelayStep(step: WorkflowStep): Promise<any> {
-    const { duration } = step.config;
-    
-    await new Promise(resolve => setTimeout(resolve, duration * 1000));
-    
-    return { delayed: true, duration };
+  private executeDelayStep(step: WorkflowStep): StepOutcome {
+    const { duration, unit = 'seconds' } = step.config;
+    const multiplier = DELAY_UNITS_IN_SECONDS[unit];
+
+    if (!multiplier || !(Number(duration) >= 0)) {
+      throw new Error(`Configuração de delay inválida: ${duration} ${unit}`);
+    }
+
+    const resumeAt = new Date(Date.now() + Number(duration) * multiplier * 1000);
+
+    return {
+      output: { delayed: true, duration, unit, resumeAt: resumeAt.toISOString() },
+      suspend: { resumeAt }
+    };
   }
 
-  private async executeIntentStep(step: WorkflowStep, data: WorkflowData): Promise<any> {
-    const { intent, confidence } = step.config;
-    
-    // Aqui você pode integrar com serviços de NLP como Dialogflow, Luis, etc.
-    // Por enquanto, vamos simular
+  private executeWaitForReplyStep(step: WorkflowStep): StepOutcome {
+    const { variable, timeout, unit = 'seconds' } = step.config;
+
+    if (!variable) {
+      throw new Error('Variável para armazenar a resposta é obrigatória');
+    }
+
+    let timeoutAt: Date | undefined;
+
+    if (timeout !== undefined && timeout !== null) {
+      const multiplier = DELAY_UNITS_IN_SECONDS[unit];
+      if (!multiplier || !(Number(timeout) > 0)) {
+        throw new Error(`Configuração de timeout inválida: ${timeout} ${unit}`);
+      }
+      timeoutAt = new Date(Date.now() + Number(timeout) * multiplier * 1000);
+    }
+
     return {
-      detectedIntent: intent,
-      confidence: confidence || 0.8,
-      entities: []
+      output: { waitingForReply: true, variable, timeoutAt: timeoutAt?.toISOString() },
+      suspend: {
+        resumeAt: timeoutAt,
+        waitingFor: { type: 'REPLY', variable }
+      }
     };
   }
 
-  private async executeEntityStep(step: WorkflowStep, data: WorkflowData): Promise<any> {
-    const { entity, value } = step.config;
-    
+  private async executeSubFlowStep(step: WorkflowStep, data: WorkflowData, execution: any): Promise<StepOutcome> {
+    const { flowId, input = {}, output = {} } = step.config;
+
+    if (!flowId) {
+      throw new Error('SUB_FLOW requer config.flowId');
+    }
+
+    // A validação ao salvar já impede ciclos; aqui é a proteção para versões antigas
+    const flowChain = await this.getFlowChain(execution);
+
+    if (flowChain.includes(flowId)) {
+      throw new Error(`Sub-fluxo recursivo: o fluxo ${flowId} já está em execução nesta cadeia`);
+    }
+
+    if (flowChain.length >= MAX_SUB_FLOW_DEPTH) {
+      throw new Error(`Limite de ${MAX_SUB_FLOW_DEPTH} níveis de sub-fluxo atingido`);
+    }
+
+    const flow = await prisma.flow.findFirst({
+      where: { id: flowId, companyId: execution.companyId },
+      include: { publishedVersion: true }
+    });
+
+    if (!flow?.publishedVersion) {
+      throw new Error(`Sub-fluxo não encontrado ou sem versão publicada: ${flowId}`);
+    }
+
+    // Dados iniciais do sub-fluxo a partir das variáveis da execução: { destino: caminho }
+    let childInput: WorkflowData = {};
+    for (const [target, path] of Object.entries(input)) {
+      childInput = this.setNestedValue(childInput, target, this.getNestedValue(data, String(path)));
+    }
+
     return {
-      extractedEntity: entity,
-      value: value,
-      confidence: 0.9
+      output: {
+        subFlow: { flowId, name: flow.name, version: flow.publishedVersion.version, status: 'RUNNING' }
+      },
+      suspend: {
+        waitingFor: { type: 'SUB_FLOW', flowId, output }
+      },
+      subFlow: {
+        flowId,
+        flowVersionId: flow.publishedVersion.id,
+        steps: await flowStepService.getVersionSteps(flow.publishedVersion.id),
+        input: childInput
+      }
     };
   }
 
-  private async executeApiCallStep(step: WorkflowStep, data: WorkflowData): Promise<any> {
-    const { url, method, headers, body } = step.config;
-    
-    // Aqui você faria a chamada HTTP real
-    // Por enquanto, vamos simular
+  // Fluxos da cadeia de execuções pai → filha, terminando no fluxo da execução atual
+  private async getFlowChain(execution: any): Promise<string[]> {
+    // Simulações não são persistidas e informam a cadeia diretamente
+    if (execution.flowChain) {
+      return execution.flowChain;
+    }
+
+    const chain: string[] = [execution.flowId];
+    let parentId: string | null = execution.parentExecutionId;
+
+    while (parentId && chain.length <= MAX_SUB_FLOW_DEPTH) {
+      const parent = await prisma.workflowExecution.findUnique({
+        where: { id: parentId },
+        select: { flowId: true, parentExecutionId: true }
+      });
+
+      if (!parent) {
+        break;
+      }
+
+      chain.unshift(parent.flowId);
+      parentId = parent.parentExecutionId;
+    }
+
+    return chain;
+  }
+
+  /**
+   * Texto analisado pelos steps INTENT e ENTITY: a variável config.source ou,
+   * por padrão, a última mensagem do cliente (resposta aguardada, mensagem que
+   * disparou o fluxo ou a mais recente da conversa).
+   */
+  private async getNluText(step: WorkflowStep, data: WorkflowData, execution: any, effects: WorkflowSideEffects): Promise<string> {
+    const { source } = step.config;
+
+    if (source) {
+      const value = this.getNestedValue(data, source);
+      return value === undefined || value === null ? '' : String(value);
+    }
+
+    const content = data.lastReply?.content ?? data.message?.content;
+    if (typeof content === 'string') {
+      return content;
+    }
+
+    return (execution.conversationId && await effects.findLastCustomerMessage(execution.conversationId)) || '';
+  }
+
+  // Grava valores em caminhos de variável sem descartar os campos vizinhos já existentes
+  private assignVariables(data: WorkflowData, values: { [path: string]: any }): WorkflowData {
+    let output: WorkflowData = {};
+
+    for (const [path, value] of Object.entries(values)) {
+      const root = path.split('.')[0];
+      if (!(root in output) && data[root] !== undefined) {
+        output[root] = data[root];
+      }
+      output = this.setNestedValue(output, path, value);
+    }
+
+    return output;
+  }
+
+  /**
+   * Classifica a mensagem entre as intenções do step. Com confiança igual ou
+   * acima de config.threshold segue o "next" da intenção (ou onTrue); senão, onFalse.
+   */
+  private async executeIntentStep(
+    step: WorkflowStep,
+    data: WorkflowData,
+    execution: any,
+    effects: WorkflowSideEffects
+  ): Promise<StepOutcome> {
+    const { assistantId, threshold = 0.5, variable = 'intent' } = step.config;
+    const intents = getStepIntents(step);
+
+    if (intents.length === 0) {
+      throw new Error('INTENT requer ao menos uma intenção em config.intents');
+    }
+
+    const text = await this.getNluText(step, data, execution, effects);
+    const classification = await effects.classifyIntent({
+      companyId: execution.companyId,
+      text,
+      intents,
+      assistantId
+    });
+
+    const intent = intents.find(i => i.name === classification.intent);
+    const matched = !!intent && classification.confidence >= Number(threshold);
+
+    const output = this.assignVariables(data, {
+      [variable]: {
+        name: intent?.name ?? null,
+        confidence: classification.confidence,
+        method: classification.method,
+        matched
+      }
+    });
+
+    if (matched && intent!.next !== undefined) {
+      return { output, nextStepId: intent!.next };
+    }
+
+    return { output, edge: matched ? 'onTrue' : 'onFalse' };
+  }
+
+  /**
+   * Extrai as entidades configuradas para as variáveis da execução (a primeira
+   * ocorrência de cada tipo). Segue onTrue se todas as obrigatórias foram
+   * encontradas; senão, onFalse.
+   */
+  private async executeEntityStep(
+    step: WorkflowStep,
+    data: WorkflowData,
+    execution: any,
+    effects: WorkflowSideEffects
+  ): Promise<StepOutcome> {
+    const { entities = [] } = step.config;
+
+    if (!Array.isArray(entities) || entities.length === 0) {
+      throw new Error('ENTITY requer ao menos uma entidade em config.entities');
+    }
+
+    const text = await this.getNluText(step, data, execution, effects);
+    const extracted = extractEntities(text, Array.from(new Set(entities.map((entity: any) => entity.type))));
+
+    const values: { [path: string]: any } = {};
+    const missing: string[] = [];
+
+    for (const entity of entities) {
+      const variable = entity.variable ?? entity.type;
+      const found = extracted.find(e => e.type === entity.type);
+
+      if (found) {
+        values[variable] = found.value;
+      } else if (entity.required !== false) {
+        missing.push(variable);
+      }
+    }
+
     return {
+      output: {
+        ...this.assignVariables(data, values),
+        entities: { ...data.entities, [step.id]: { found: Object.keys(values), missing } }
+      },
+      edge: missing.length === 0 ? 'onTrue' : 'onFalse'
+    };
+  }
+
+  private async executeApiCallStep(
+    step: WorkflowStep,
+    data: WorkflowData,
+    execution: any,
+    effects: WorkflowSideEffects
+  ): Promise<any> {
+    const {
+      url,
+      method = 'GET',
+      headers = {},
+      body,
+      timeout,
+      retries,
+      retryDelayMs,
+      responseMapping = {},
+      ignoreHttpErrors = false
+    } = step.config;
+
+    if (!url) {
+      throw new Error('API_CALL requer config.url');
+    }
+
+    // Hosts internos só podem ser chamados se liberados em Company.settings.apiCallAllowList
+    const company = await prisma.company.findUnique({
+      where: { id: execution.companyId },
+      select: { settings: true }
+    });
+    const allowList = (company?.settings as any)?.apiCallAllowList;
+
+    const requestUrl = this.processTemplate(url, data, encodeURIComponent);
+    const response = await effects.httpRequest({
+      url: requestUrl,
+      method,
+      headers: this.renderTemplateValue(headers, data),
+      body: this.renderTemplateValue(body, data),
+      timeoutMs: timeout,
+      retries,
+      retryDelayMs,
+      allowList: Array.isArray(allowList) ? allowList : []
+    });
+
+    if (response.status >= 400 && !ignoreHttpErrors) {
+      throw new Error(`API_CALL retornou status ${response.status}`);
+    }
+
+    const output: WorkflowData = {
       apiCall: {
-        url,
-        method,
-        status: 200,
-        response: { success: true }
+        url: requestUrl,
+        method: String(method).toUpperCase(),
+        status: response.status,
+        response: response.body,
+        attempts: response.attempts,
+        durationMs: response.durationMs
       }
     };
+
+    // Mapeia a resposta para os dados da execução: { "cliente.nome": "$.data.name" }
+    for (const [target, path] of Object.entries(responseMapping)) {
+      const rootKey = target.split('.')[0];
+      if (!(rootKey in output)) {
+        output[rootKey] = data[rootKey];
+      }
+      this.setNestedValue(output, target, selectJsonPath(response.body, String(path)));
+    }
+
+    return output;
   }
 
-  private async executeDatabaseStep(step: WorkflowStep, data: WorkflowData): Promise<any> {
-    const { operation, table, query, data: dbData } = step.config;
-    
-    // Aqui você faria operações no banco de dados
-    // Por enquanto, vamos simular
+  private async executeDatabaseStep(
+    step: WorkflowStep,
+    data: WorkflowData,
+    execution: any,
+    effects: WorkflowSideEffects
+  ): Promise<any> {
+    const { operation, params = {}, resultVariable } = step.config;
+
+    if (!CRM_OPERATIONS.includes(operation)) {
+      throw new Error(`Operação de banco de dados não suportada: ${operation}`);
+    }
+
+    // Sempre limitada à empresa da execução; o cliente da conversa é o padrão
+    const result = await effects.crmOperation(operation, this.renderTemplateValue(params, data), {
+      companyId: execution.companyId,
+      customerId: execution.conversation?.customerId
+    });
+
+    const output: WorkflowData = {
+      databaseOperation: { operation, success: true, result }
+    };
+
+    if (resultVariable) {
+      const rootKey = resultVariable.split('.')[0];
+      output[rootKey] = data[rootKey];
+      this.setNestedValue(output, resultVariable, result);
+    }
+
+    return output;
+  }
+
+  private async executeEmailStep(
+    step: WorkflowStep,
+    data: WorkflowData,
+    execution: any,
+    effects: WorkflowSideEffects
+  ): Promise<any> {
+    const { to, cc, subject, template, text } = step.config;
+
+    const recipients = this.parseEmailList(this.renderTemplateValue(to, data));
+    const copies = this.parseEmailList(this.renderTemplateValue(cc, data));
+
+    if (recipients.length === 0) {
+      throw new Error('EMAIL requer ao menos um destinatário em config.to');
+    }
+
+    if (!subject) {
+      throw new Error('EMAIL requer config.subject');
+    }
+
+    const renderedSubject = this.processTemplate(subject, data);
+    // Valores inseridos no HTML são escapados para não quebrar (ou injetar) marcação
+    const html = template ? this.processTemplate(template, data, escapeHtml) : undefined;
+
+    const delivery = await effects.sendEmail(execution.companyId, {
+      to: recipients,
+      cc: copies.length > 0 ? copies : undefined,
+      subject: renderedSubject,
+      html,
+      text: text ? this.processTemplate(text, data) : html && this.htmlToText(html)
+    });
+
     return {
-      databaseOperation: {
-        operation,
-        table,
-        success: true,
-        result: dbData
+      emailSent: delivery.accepted.length > 0,
+      email: {
+        to: recipients,
+        subject: renderedSubject,
+        ...delivery
       }
     };
   }
 
-  private async executeEmailStep(step: WorkflowStep, data: WorkflowData): Promise<any> {
-    const { to, subject, template } = step.config;
-    
-    // Aqui você enviaria o email real
-    // Por enquanto, vamos simular
+  // Aceita array ou string separada por vírgula/ponto e vírgula
+  private parseEmailList(value: any): string[] {
+    if (!value) {
+      return [];
+    }
+
+    const emails = (Array.isArray(value) ? value : String(value).split(/[,;]/))
+      .map(email => String(email).trim())
+      .filter(Boolean);
+
+    const invalid = emails.filter(email => !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email));
+    if (invalid.length > 0) {
+      throw new Error(`Endereços de email inválidos: ${invalid.join(', ')}`);
+    }
+
+    return emails;
+  }
+
+  private htmlToText(html: string): string {
+    return html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|h[1-6]|li|tr)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private async executeSplitStep(
+    step: WorkflowStep,
+    data: WorkflowData,
+    execution: any,
+    effects: WorkflowSideEffects
+  ): Promise<StepOutcome> {
+    const { sticky = true } = step.config;
+    const branches = getSplitBranches(step);
+
+    if (branches.length < 2) {
+      throw new Error('SPLIT requer ao menos dois ramos em config.branches');
+    }
+
+    // Com sticky (padrão) o cliente da conversa sempre cai no mesmo ramo
+    const assignment = await effects.assignSplitBranch({
+      flowId: execution.flowId,
+      stepId: step.id,
+      customerId: sticky !== false ? execution.conversation?.customerId : null,
+      branches
+    });
+
+    const branch = branches.find(b => b.id === assignment.branch)!;
+
+    return {
+      output: { split: { ...data.split, [step.id]: branch.id } },
+      nextStepId: branch.next
+    };
+  }
+
+  private async executeHandoffStep(
+    step: WorkflowStep,
+    data: WorkflowData,
+    execution: any,
+    effects: WorkflowSideEffects
+  ): Promise<any> {
+    const { strategy = 'round_robin', skills = [], onlineOnly = true, roles, note } = step.config;
+
+    if (!HANDOFF_STRATEGIES.includes(strategy)) {
+      throw new Error(`Estratégia de handoff não suportada: ${strategy}`);
+    }
+
+    const rule: HandoffRule = {
+      strategy,
+      skills: this.renderTemplateValue(skills, data),
+      onlineOnly: onlineOnly !== false,
+      roles
+    };
+
+    const agent = await handoffService.selectAgent(execution.companyId, rule);
+
+    if (!agent) {
+      throw new Error('Nenhum atendente disponível para o handoff');
+    }
+
+    await effects.handoffConversation({
+      conversationId: execution.conversationId,
+      agent,
+      note: note ? this.processTemplate(note, data) : undefined,
+      executionId: execution.id
+    });
+
     return {
-      emailSent: true,
-      to,
-      subject,
-      template
+      handoff: {
+        agentId: agent.id,
+        agentName: agent.name,
+        strategy,
+        skills: normalizeSkills(rule.skills)
+      }
     };
   }
 
@@ -359,29 +1792,23 @@ export class WorkflowEngine {
     return {
       notificationSent: true,
       type,
-      message,
+      message: this.renderTemplateValue(message, data),
       recipients
     };
   }
 
-  private async assignConversation(parameters: any, data: WorkflowData): Promise<any> {
+  private async assignConversation(parameters: any, data: WorkflowData, effects: WorkflowSideEffects): Promise<any> {
     const { conversationId, userId } = parameters;
     
-    await prisma.conversation.update({
-      where: { id: conversationId },
-      data: { assignedTo: userId }
-    });
+    await effects.updateConversation(conversationId, { assignedTo: userId });
 
     return { assigned: true, userId };
   }
 
-  private async updateConversationStatus(parameters: any, data: WorkflowData): Promise<any> {
+  private async updateConversationStatus(parameters: any, data: WorkflowData, effects: WorkflowSideEffects): Promise<any> {
     const { conversationId, status } = parameters;
     
-    await prisma.conversation.update({
-      where: { id: conversationId },
-      data: { status }
-    });
+    await effects.updateConversation(conversationId, { status });
 
     return { statusUpdated: true, status };
   }
@@ -396,10 +1823,40 @@ export class WorkflowEngine {
     return { notificationSent: true };
   }
 
-  private processTemplate(template: string, data: WorkflowData): string {
-    return template.replace(/\{\{(\w+)\}\}/g, (match, key) => {
-      return data[key] || match;
+  private processTemplate(template: string, data: WorkflowData, escape?: (value: string) => string): string {
+    return renderTemplate(template, data, { escape });
+  }
+
+  // Aplica processTemplate em todas as strings de um objeto/array
+  private renderTemplateValue(value: any, data: WorkflowData): any {
+    if (typeof value === 'string') {
+      return this.processTemplate(value, data);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.renderTemplateValue(item, data));
+    }
+
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.renderTemplateValue(item, data)])
+      );
+    }
+
+    return value;
+  }
+
+  private setNestedValue(obj: WorkflowData, path: string, value: any): WorkflowData {
+    const keys = path.split('.');
+    let current = obj;
+
+    keys.slice(0, -1).forEach(key => {
+      current[key] = current[key] && typeof current[key] === 'object' ? { ...current[key] } : {};
+      current = current[key];
     });
+
+    current[keys[keys.length - 1]] = value;
+    return obj;
   }
 
   private getNestedValue(obj: any, path: string): any {
@@ -407,4 +1864,6 @@ export class WorkflowEngine {
       return current && current[key] !== undefined ? current[key] : undefined;
     }, obj);
   }
-} 
\ No newline at end of file
+} 
+
+export default new WorkflowEngine();
@@ -0,0 +1,149 @@
+jest.mock('../index', () => ({ io: { to: () => ({ emit: jest.fn() }) } }));
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+
+import { getStepTargets, normalizeSteps, resolveNextStepId, validateFlowGraph, validateStepConfig } from './workflowGraph';
+
+const message = (id: string, extra: any = {}) => ({ id, type: 'MESSAGE', config: { message: `Mensagem ${id}` }, ...extra });
+
+describe('validateFlowGraph', () => {
+  it('aceita um fluxo linear e um grafo com ramos', () => {
+    expect(validateFlowGraph([message('a'), message('b')])).toEqual([]);
+
+    expect(validateFlowGraph([
+      { id: 'check', type: 'CONDITION', config: { conditions: [] }, onTrue: 'yes', onFalse: 'no' },
+      message('yes', { next: null }),
+      message('no', { next: null })
+    ])).toEqual([]);
+  });
+
+  it('recusa fluxos vazios ou que não são array', () => {
+    expect(validateFlowGraph([])).toEqual(['O fluxo deve ter pelo menos um step']);
+    expect(validateFlowGraph('steps' as any)).toEqual(['Steps devem ser um array']);
+  });
+
+  it('aponta ids duplicados, tipos desconhecidos e config inválido', () => {
+    const errors = validateFlowGraph([
+      message('a'),
+      message('a'),
+      { id: 'b', type: 'TELEPORT', config: {} },
+      { id: 'c', type: 'MESSAGE', config: {} },
+      { id: 'd', type: 'DELAY', config: { duration: 5, unit: 'weeks' } }
+    ]);
+
+    expect(errors).toEqual(expect.arrayContaining([
+      'Id de step duplicado: "a"',
+      'Step "b": tipo não suportado "TELEPORT"',
+      'Step "c": MESSAGE requer config.message',
+      expect.stringContaining('Step "d": config.unit inválida "weeks"')
+    ]));
+  });
+
+  it('aponta arestas para steps inexistentes', () => {
+    expect(validateFlowGraph([message('a', { next: 'fim' })])).toEqual([
+      'Step "a": aresta "next" aponta para step inexistente "fim"'
+    ]);
+  });
+
+  it('aponta steps inalcançáveis, a menos que allowUnreachable seja usado', () => {
+    const steps = [message('a', { next: null }), message('solto')];
+
+    expect(validateFlowGraph(steps)).toEqual(['Step "solto" não é alcançável a partir do step inicial "a"']);
+    expect(validateFlowGraph(steps, { allowUnreachable: true })).toEqual([]);
+  });
+
+  it('considera o fallback alcançável e permite apenas um', () => {
+    expect(validateFlowGraph([message('a', { next: null }), message('erro', { fallback: true })])).toEqual([]);
+
+    expect(validateFlowGraph([
+      message('a', { next: null }),
+      message('erro1', { fallback: true }),
+      message('erro2', { fallback: true })
+    ])).toContain('Apenas um step pode ser o fallback do fluxo (encontrados: erro1, erro2)');
+  });
+
+  it('valida a política de retry', () => {
+    expect(validateFlowGraph([message('a', { retry: { count: -1, backoff: 'linear' } })])).toEqual([
+      expect.stringContaining('Step "a": retry.count deve ser um inteiro entre 0 e'),
+      'Step "a": retry.backoff deve ser "fixed" ou "exponential"'
+    ]);
+  });
+});
+
+describe('resolveNextStepId', () => {
+  const steps = normalizeSteps([
+    { id: 'check', type: 'CONDITION', config: {}, onTrue: 'yes' },
+    message('no'),
+    message('yes', { next: null })
+  ]);
+
+  it('segue a aresta pedida, caindo para next e depois para a ordem do array', () => {
+    expect(resolveNextStepId(steps, steps[0], 'onTrue')).toBe('yes');
+    expect(resolveNextStepId(steps, steps[0], 'onFalse')).toBe('no');
+    expect(resolveNextStepId(steps, steps[1])).toBe('yes');
+  });
+
+  it('encerra o fluxo quando a aresta é null', () => {
+    expect(resolveNextStepId(steps, steps[2])).toBeNull();
+    expect(getStepTargets(steps, steps[2])).toEqual([]);
+  });
+});
+
+describe('validateStepConfig', () => {
+  const check = (type: string, config: any) => validateStepConfig({ id: 's', name: 's', type, config, conditions: [], actions: [] });
+
+  it.each([
+    ['MESSAGE', { message: 'Olá' }],
+    ['CONDITION', { conditions: [] }],
+    ['ACTION', { action: 'create_ticket', parameters: { priority: 'HIGH' } }],
+    ['DELAY', { duration: 0, unit: 'minutes' }],
+    ['WAIT_FOR_REPLY', { variable: 'resposta', timeout: 10, unit: 'minutes' }],
+    ['INTENT', { intents: [{ name: 'pricing', keywords: ['preço'] }], threshold: 0.5 }],
+    ['ENTITY', { entities: [{ type: 'cpf' }, { type: 'email', variable: 'contato.email' }] }],
+    ['API_CALL', { url: 'https://api.loja.com/pedidos/{{order.id}}', method: 'post', headers: {} }],
+    ['DATABASE', { operation: 'update_customer', params: { name: 'Ana' } }],
+    ['EMAIL', { to: ['ana@cliente.com'], subject: 'Oi', text: 'Olá' }],
+    ['SUB_FLOW', { flowId: 'flow-2', input: {} }],
+    ['SPLIT', { branches: [{ id: 'A', weight: 1, next: 'a' }, { id: 'B', weight: 1, next: null }], sticky: true }],
+    ['HANDOFF', { strategy: 'least_busy', skills: ['vendas'] }],
+    ['NOTIFICATION', {}]
+  ])('aceita um config válido de %s', (type, config) => {
+    expect(check(type, config)).toEqual([]);
+  });
+
+  it.each([
+    ['MESSAGE', {}, ['MESSAGE requer config.message']],
+    ['CONDITION', { conditions: {} }, ['config.conditions deve ser um array']],
+    ['ACTION', { action: 'delete_everything', parameters: [] }, [
+      expect.stringContaining('ação não suportada "delete_everything"'),
+      'config.parameters deve ser um objeto'
+    ]],
+    ['DELAY', { duration: -1 }, ['config.duration deve ser um número maior ou igual a zero']],
+    ['WAIT_FOR_REPLY', { timeout: 0 }, ['WAIT_FOR_REPLY requer config.variable', 'config.timeout deve ser maior que zero']],
+    ['INTENT', { intents: [] }, ['INTENT requer ao menos uma intenção em config.intents']],
+    ['INTENT', { intents: [{ name: 'a' }, { name: 'a', keywords: ['x'] }] }, [
+      'intenção 1: informe keywords ou config.assistantId',
+      'intenção 2: name duplicado "a"'
+    ]],
+    ['ENTITY', { entities: [{ type: 'rg' }] }, [expect.stringContaining('entidade 1: tipo não suportado "rg"')]],
+    ['API_CALL', { method: 'TRACE' }, ['API_CALL requer config.url', 'método HTTP não suportado "TRACE"']],
+    ['DATABASE', { operation: 'drop_table' }, [expect.stringContaining('operação não suportada "drop_table"')]],
+    ['EMAIL', { to: 42 }, ['EMAIL requer config.to', 'EMAIL requer config.subject', 'EMAIL requer config.template ou config.text']],
+    ['SUB_FLOW', { output: 'x' }, ['SUB_FLOW requer config.flowId', 'config.output deve ser um objeto']],
+    ['SPLIT', { branches: [{ id: 'A', weight: 1, next: 'a' }] }, ['SPLIT requer ao menos dois ramos em config.branches']],
+    ['SPLIT', { branches: [{ id: 'A', weight: 0, next: 'a' }, { id: 'A', weight: 1, next: 'b' }] }, [
+      'ramo 1: weight deve ser um número maior que zero',
+      'ramo 2: id duplicado "A"'
+    ]],
+    ['HANDOFF', { strategy: 'random', skills: 'vendas' }, [
+      expect.stringContaining('estratégia de handoff não suportada "random"'),
+      'config.skills deve ser um array'
+    ]]
+  ])('aponta os erros de config de %s', (type, config, errors) => {
+    expect(check(type, config)).toEqual(errors);
+  });
+
+  it('exige que o config seja um objeto', () => {
+    expect(check('MESSAGE', null)).toEqual(['config deve ser um objeto']);
+    expect(check('MESSAGE', ['Olá'])).toEqual(['config deve ser um objeto']);
+  });
+});
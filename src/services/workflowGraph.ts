@@ -0,0 +1,528 @@
+import { StepType } from '@prisma/client';
+import { WorkflowIntent, WorkflowSplitBranch, WorkflowStepDefinition, WorkflowStepEdge } from '../types';
+import { CRM_OPERATIONS } from './crmOperations';
+import { HANDOFF_STRATEGIES } from './handoff';
+import { ENTITY_TYPES } from './nlu';
+
+// Os tipos de step são os do enum StepType, usado pelas linhas de WorkflowStep
+export const WORKFLOW_STEP_TYPES: string[] = Object.values(StepType);
+
+export const WORKFLOW_ACTIONS = [
+  'assign_conversation',
+  'update_conversation_status',
+  'create_ticket',
+  'send_notification'
+];
+
+export const DELAY_UNITS_IN_SECONDS: { [unit: string]: number } = {
+  seconds: 1,
+  minutes: 60,
+  hours: 60 * 60,
+  days: 24 * 60 * 60
+};
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+export const WORKFLOW_STEP_EDGES: WorkflowStepEdge[] = ['next', 'onTrue', 'onFalse', 'onError', 'onTimeout'];
+
+// Limite de steps executados seguidos, sem pausa, por execução (proteção contra loops infinitos)
+export const MAX_STEPS_PER_EXECUTION = 100;
+
+// Limites da política de novas tentativas de um step
+export const MAX_STEP_RETRIES = 5;
+export const MAX_STEP_RETRY_DELAY_MS = 30000;
+
+// Limite de execuções aninhadas por steps SUB_FLOW (fluxo principal incluído)
+export const MAX_SUB_FLOW_DEPTH = 5;
+
+/**
+ * Garante que todos os steps tenham id e campos padrão.
+ * Steps antigos (sem id) recebem um id derivado da posição no array,
+ * e os campos legados trueBranch/falseBranch viram arestas onTrue/onFalse.
+ */
+export function normalizeSteps(steps: any[]): WorkflowStepDefinition[] {
+  if (!Array.isArray(steps)) {
+    return [];
+  }
+
+  return steps.map((step, index) => {
+    const config = step?.config || {};
+
+    return {
+      ...step,
+      id: step?.id ? String(step.id) : `step_${index + 1}`,
+      name: step?.name || `Step ${index + 1}`,
+      type: String(step?.type || '').toUpperCase(),
+      config,
+      conditions: Array.isArray(step?.conditions) ? step.conditions : [],
+      actions: Array.isArray(step?.actions) ? step.actions : [],
+      onTrue: step?.onTrue !== undefined
+        ? step.onTrue
+        : typeof config.trueBranch === 'string' ? config.trueBranch : undefined,
+      onFalse: step?.onFalse !== undefined
+        ? step.onFalse
+        : typeof config.falseBranch === 'string' ? config.falseBranch : undefined
+    };
+  });
+}
+
+/**
+ * Resolve o próximo step a partir de uma aresta.
+ * Arestas ausentes caem no "next"; um "next" ausente segue para o próximo
+ * step do array (compatibilidade com fluxos lineares). null encerra o fluxo.
+ */
+export function resolveNextStepId(
+  steps: WorkflowStepDefinition[],
+  step: WorkflowStepDefinition,
+  edge: WorkflowStepEdge = 'next'
+): string | null {
+  const target = step[edge];
+
+  if (target !== undefined) {
+    return target;
+  }
+
+  if (edge !== 'next') {
+    return resolveNextStepId(steps, step, 'next');
+  }
+
+  const index = steps.findIndex(s => s.id === step.id);
+  return steps[index + 1]?.id ?? null;
+}
+
+// Ids dos fluxos chamados pelos steps SUB_FLOW
+export function getSubFlowIds(steps: any[]): string[] {
+  const ids = normalizeSteps(steps)
+    .filter(step => step.type === 'SUB_FLOW' && typeof step.config.flowId === 'string')
+    .map(step => step.config.flowId as string);
+
+  return Array.from(new Set(ids));
+}
+
+// Ramos de um step SPLIT (lista vazia para os demais tipos ou config inválido)
+export function getSplitBranches(step: WorkflowStepDefinition): WorkflowSplitBranch[] {
+  const branches = step.type === 'SPLIT' ? step.config?.branches : undefined;
+  return Array.isArray(branches) ? branches : [];
+}
+
+// Intenções de um step INTENT (lista vazia para os demais tipos ou config inválido)
+export function getStepIntents(step: WorkflowStepDefinition): WorkflowIntent[] {
+  const intents = step.type === 'INTENT' ? step.config?.intents : undefined;
+  return Array.isArray(intents) ? intents : [];
+}
+
+export function getStepTargets(steps: WorkflowStepDefinition[], step: WorkflowStepDefinition): string[] {
+  const targets = new Set<string>();
+
+  for (const route of [...getSplitBranches(step), ...getStepIntents(step)]) {
+    if (typeof route?.next === 'string') {
+      targets.add(route.next);
+    }
+  }
+
+  for (const edge of WORKFLOW_STEP_EDGES) {
+    const target = resolveNextStepId(steps, step, edge);
+    if (target) {
+      targets.add(target);
+    }
+  }
+
+  return Array.from(targets);
+}
+
+/**
+ * Valida a estrutura do grafo de um fluxo e o config de cada step.
+ * Retorna a lista de erros encontrados (vazia quando o fluxo é válido).
+ * allowUnreachable permite steps ainda não ligados ao grafo, como no rascunho
+ * editado step a step; a publicação sempre exige o grafo completo.
+ */
+export function validateFlowGraph(rawSteps: any[], options: { allowUnreachable?: boolean } = {}): string[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(rawSteps)) {
+    return ['Steps devem ser um array'];
+  }
+
+  if (rawSteps.length === 0) {
+    return ['O fluxo deve ter pelo menos um step'];
+  }
+
+  const steps = normalizeSteps(rawSteps);
+  const ids = new Set<string>();
+  const fallbackSteps = steps.filter(step => step.fallback);
+
+  if (fallbackSteps.length > 1) {
+    errors.push(`Apenas um step pode ser o fallback do fluxo (encontrados: ${fallbackSteps.map(step => step.id).join(', ')})`);
+  }
+
+  for (const step of steps) {
+    if (ids.has(step.id)) {
+      errors.push(`Id de step duplicado: "${step.id}"`);
+    }
+    ids.add(step.id);
+
+    if (!WORKFLOW_STEP_TYPES.includes(step.type)) {
+      errors.push(`Step "${step.id}": tipo não suportado "${step.type}"`);
+    } else {
+      errors.push(...validateStepConfig(step).map(error => `Step "${step.id}": ${error}`));
+    }
+
+    if (step.retry !== undefined) {
+      errors.push(...validateRetryPolicy(step));
+    }
+
+    if (step.continueOnError !== undefined && typeof step.continueOnError !== 'boolean') {
+      errors.push(`Step "${step.id}": continueOnError deve ser booleano`);
+    }
+
+    for (const edge of WORKFLOW_STEP_EDGES) {
+      const target = step[edge];
+      if (target !== undefined && target !== null && typeof target !== 'string') {
+        errors.push(`Step "${step.id}": aresta "${edge}" deve ser o id de um step ou null`);
+      }
+    }
+  }
+
+  for (const step of steps) {
+    for (const edge of WORKFLOW_STEP_EDGES) {
+      const target = step[edge];
+      if (typeof target === 'string' && !ids.has(target)) {
+        errors.push(`Step "${step.id}": aresta "${edge}" aponta para step inexistente "${target}"`);
+      }
+    }
+
+    for (const branch of getSplitBranches(step)) {
+      if (typeof branch?.next === 'string' && !ids.has(branch.next)) {
+        errors.push(`Step "${step.id}": ramo "${branch.id}" aponta para step inexistente "${branch.next}"`);
+      }
+    }
+
+    for (const intent of getStepIntents(step)) {
+      if (typeof intent?.next === 'string' && !ids.has(intent.next)) {
+        errors.push(`Step "${step.id}": intenção "${intent.name}" aponta para step inexistente "${intent.next}"`);
+      }
+    }
+
+    if (step.type === 'SPLIT' && Array.isArray(step.config?.goals)) {
+      for (const goal of step.config.goals) {
+        if (!ids.has(goal)) {
+          errors.push(`Step "${step.id}": meta aponta para step inexistente "${goal}"`);
+        }
+      }
+    }
+  }
+
+  // Só faz sentido procurar steps inalcançáveis com as arestas válidas
+  if (errors.length > 0 || options.allowUnreachable) {
+    return errors;
+  }
+
+  // O fallback é alcançado por erros, não por arestas
+  const reachable = new Set<string>();
+  const queue = [steps[0].id, ...fallbackSteps.map(step => step.id)];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (reachable.has(id)) continue;
+    reachable.add(id);
+
+    const step = steps.find(s => s.id === id)!;
+    queue.push(...getStepTargets(steps, step));
+  }
+
+  for (const step of steps) {
+    if (!reachable.has(step.id)) {
+      errors.push(`Step "${step.id}" não é alcançável a partir do step inicial "${steps[0].id}"`);
+    }
+  }
+
+  return errors;
+}
+
+function validateRetryPolicy(step: WorkflowStepDefinition): string[] {
+  const { retry } = step;
+
+  if (!retry || typeof retry !== 'object') {
+    return [`Step "${step.id}": retry deve ser um objeto`];
+  }
+
+  const errors: string[] = [];
+
+  if (!Number.isInteger(retry.count) || retry.count < 0 || retry.count > MAX_STEP_RETRIES) {
+    errors.push(`Step "${step.id}": retry.count deve ser um inteiro entre 0 e ${MAX_STEP_RETRIES}`);
+  }
+
+  if (retry.delayMs !== undefined && !(Number(retry.delayMs) >= 0 && Number(retry.delayMs) <= MAX_STEP_RETRY_DELAY_MS)) {
+    errors.push(`Step "${step.id}": retry.delayMs deve estar entre 0 e ${MAX_STEP_RETRY_DELAY_MS}`);
+  }
+
+  if (retry.backoff !== undefined && !['fixed', 'exponential'].includes(retry.backoff)) {
+    errors.push(`Step "${step.id}": retry.backoff deve ser "fixed" ou "exponential"`);
+  }
+
+  return errors;
+}
+
+/**
+ * Valida os campos de config exigidos por cada tipo de step.
+ * Valores com template ({{...}}) só são conhecidos na execução e não são checados.
+ */
+export function validateStepConfig(step: WorkflowStepDefinition): string[] {
+  const config = step.config;
+  const errors: string[] = [];
+
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return ['config deve ser um objeto'];
+  }
+
+  const requireString = (field: string) => {
+    if (typeof config[field] !== 'string' || !config[field].trim()) {
+      errors.push(`${step.type} requer config.${field}`);
+    }
+  };
+
+  const optionalObject = (field: string) => {
+    const value = config[field];
+    if (value !== undefined && (!value || typeof value !== 'object' || Array.isArray(value))) {
+      errors.push(`config.${field} deve ser um objeto`);
+    }
+  };
+
+  const validUnit = (unit: any = 'seconds') => {
+    if (!DELAY_UNITS_IN_SECONDS[unit]) {
+      errors.push(`config.unit inválida "${unit}" (use: ${Object.keys(DELAY_UNITS_IN_SECONDS).join(', ')})`);
+    }
+  };
+
+  switch (step.type) {
+    case 'MESSAGE':
+      requireString('message');
+      break;
+
+    case 'CONDITION':
+      if (config.conditions !== undefined && !Array.isArray(config.conditions)) {
+        errors.push('config.conditions deve ser um array');
+      }
+      break;
+
+    case 'ACTION':
+      if (!WORKFLOW_ACTIONS.includes(config.action)) {
+        errors.push(`ação não suportada "${config.action}" (use: ${WORKFLOW_ACTIONS.join(', ')})`);
+      }
+      optionalObject('parameters');
+      break;
+
+    case 'DELAY':
+      if (!(Number(config.duration) >= 0)) {
+        errors.push('config.duration deve ser um número maior ou igual a zero');
+      }
+      validUnit(config.unit);
+      break;
+
+    case 'WAIT_FOR_REPLY':
+      requireString('variable');
+      if (config.timeout !== undefined && config.timeout !== null) {
+        if (!(Number(config.timeout) > 0)) {
+          errors.push('config.timeout deve ser maior que zero');
+        }
+        validUnit(config.unit);
+      }
+      break;
+
+    case 'INTENT':
+      errors.push(...validateIntentConfig(config));
+      break;
+
+    case 'ENTITY':
+      errors.push(...validateEntityConfig(config));
+      break;
+
+    case 'API_CALL':
+      requireString('url');
+      if (config.method !== undefined && !HTTP_METHODS.includes(String(config.method).toUpperCase())) {
+        errors.push(`método HTTP não suportado "${config.method}"`);
+      }
+      optionalObject('headers');
+      optionalObject('responseMapping');
+      break;
+
+    case 'DATABASE':
+      if (!CRM_OPERATIONS.includes(config.operation)) {
+        errors.push(`operação não suportada "${config.operation}" (use: ${CRM_OPERATIONS.join(', ')})`);
+      }
+      optionalObject('params');
+      break;
+
+    case 'EMAIL':
+      if (!config.to || (typeof config.to !== 'string' && !Array.isArray(config.to))) {
+        errors.push('EMAIL requer config.to');
+      }
+      requireString('subject');
+      if (!config.template && !config.text) {
+        errors.push('EMAIL requer config.template ou config.text');
+      }
+      break;
+
+    case 'SUB_FLOW':
+      requireString('flowId');
+      optionalObject('input');
+      optionalObject('output');
+      break;
+
+    case 'SPLIT':
+      errors.push(...validateSplitConfig(config));
+      break;
+
+    case 'HANDOFF':
+      if (config.strategy !== undefined && !HANDOFF_STRATEGIES.includes(config.strategy)) {
+        errors.push(`estratégia de handoff não suportada "${config.strategy}" (use: ${HANDOFF_STRATEGIES.join(', ')})`);
+      }
+      if (config.skills !== undefined && !Array.isArray(config.skills)) {
+        errors.push('config.skills deve ser um array');
+      }
+      break;
+  }
+
+  return errors;
+}
+
+// Campos dos steps de NLU com caminhos de variável (texto analisado, variável de saída)
+function validateVariablePaths(config: any, fields: string[]): string[] {
+  const errors: string[] = [];
+
+  for (const field of fields) {
+    if (config[field] !== undefined && (typeof config[field] !== 'string' || !config[field].trim())) {
+      errors.push(`config.${field} deve ser um caminho de variável`);
+    }
+  }
+
+  return errors;
+}
+
+function validateIntentConfig(config: any): string[] {
+  const { intents, threshold, assistantId } = config;
+
+  if (!Array.isArray(intents) || intents.length === 0) {
+    return ['INTENT requer ao menos uma intenção em config.intents'];
+  }
+
+  const errors = validateVariablePaths(config, ['source', 'variable']);
+  const names = new Set<string>();
+
+  if (assistantId !== undefined && assistantId !== null && typeof assistantId !== 'string') {
+    errors.push('config.assistantId deve ser o id de um assistente IA');
+  }
+
+  if (threshold !== undefined && !(typeof threshold === 'number' && threshold >= 0 && threshold <= 1)) {
+    errors.push('config.threshold deve ser um número entre 0 e 1');
+  }
+
+  intents.forEach((intent: any, index: number) => {
+    const label = `intenção ${index + 1}`;
+
+    if (!intent || typeof intent.name !== 'string' || !intent.name.trim()) {
+      errors.push(`${label}: name é obrigatório`);
+      return;
+    }
+
+    if (names.has(intent.name)) {
+      errors.push(`${label}: name duplicado "${intent.name}"`);
+    }
+    names.add(intent.name);
+
+    const { keywords } = intent;
+    if (keywords !== undefined && (!Array.isArray(keywords) || !keywords.every((keyword: any) => typeof keyword === 'string'))) {
+      errors.push(`${label}: keywords deve ser um array de textos`);
+    } else if (!assistantId && !keywords?.some((keyword: string) => keyword.trim())) {
+      // Sem assistente IA a intenção só é reconhecida pelas palavras-chave
+      errors.push(`${label}: informe keywords ou config.assistantId`);
+    }
+
+    if (intent.description !== undefined && typeof intent.description !== 'string') {
+      errors.push(`${label}: description deve ser um texto`);
+    }
+
+    if (intent.next !== undefined && intent.next !== null && typeof intent.next !== 'string') {
+      errors.push(`${label}: next deve ser o id de um step ou null`);
+    }
+  });
+
+  return errors;
+}
+
+function validateEntityConfig(config: any): string[] {
+  const { entities } = config;
+
+  if (!Array.isArray(entities) || entities.length === 0) {
+    return ['ENTITY requer ao menos uma entidade em config.entities'];
+  }
+
+  const errors = validateVariablePaths(config, ['source']);
+  const variables = new Set<string>();
+
+  entities.forEach((entity: any, index: number) => {
+    const label = `entidade ${index + 1}`;
+
+    if (!entity || !ENTITY_TYPES.includes(entity.type)) {
+      errors.push(`${label}: tipo não suportado "${entity?.type}" (use: ${ENTITY_TYPES.join(', ')})`);
+      return;
+    }
+
+    const variable = entity.variable ?? entity.type;
+    if (typeof variable !== 'string' || !variable.trim()) {
+      errors.push(`${label}: variable deve ser um caminho de variável`);
+    } else if (variables.has(variable)) {
+      errors.push(`${label}: variável duplicada "${variable}"`);
+    }
+    variables.add(variable);
+
+    if (entity.required !== undefined && typeof entity.required !== 'boolean') {
+      errors.push(`${label}: required deve ser booleano`);
+    }
+  });
+
+  return errors;
+}
+
+function validateSplitConfig(config: any): string[] {
+  const { branches, goals, sticky } = config;
+
+  if (!Array.isArray(branches) || branches.length < 2) {
+    return ['SPLIT requer ao menos dois ramos em config.branches'];
+  }
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  branches.forEach((branch: any, index: number) => {
+    const label = `ramo ${index + 1}`;
+
+    if (!branch || typeof branch.id !== 'string' || !branch.id) {
+      errors.push(`${label}: id é obrigatório`);
+      return;
+    }
+
+    if (ids.has(branch.id)) {
+      errors.push(`${label}: id duplicado "${branch.id}"`);
+    }
+    ids.add(branch.id);
+
+    if (typeof branch.weight !== 'number' || !(branch.weight > 0)) {
+      errors.push(`${label}: weight deve ser um número maior que zero`);
+    }
+
+    if (branch.next !== null && typeof branch.next !== 'string') {
+      errors.push(`${label}: next deve ser o id de um step ou null`);
+    }
+  });
+
+  if (goals !== undefined && (!Array.isArray(goals) || !goals.every(goal => typeof goal === 'string'))) {
+    errors.push('config.goals deve ser um array de ids de steps');
+  }
+
+  if (sticky !== undefined && typeof sticky !== 'boolean') {
+    errors.push('config.sticky deve ser booleano');
+  }
+
+  return errors;
+}
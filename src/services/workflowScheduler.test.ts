@@ -0,0 +1,117 @@
+jest.mock('../utils/logger', () => ({ __esModule: true, default: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() } }));
+jest.mock('../utils/database', () => ({
+  __esModule: true,
+  default: { workflowExecution: { findMany: jest.fn(), updateMany: jest.fn() } }
+}));
+
+import prisma from '../utils/database';
+import { MemorySchedulerDriver, SchedulerDriver, WorkflowScheduler } from './workflowScheduler';
+
+const STALE_AFTER_MS = 60 * 1000;
+
+function createDriver(): jest.Mocked<SchedulerDriver> {
+  return {
+    schedule: jest.fn(async (_executionId: string, _runAt: Date) => undefined),
+    onDue: jest.fn(),
+    close: jest.fn(async () => undefined)
+  };
+}
+
+describe('MemorySchedulerDriver', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('chama o handler no horário agendado, uma vez por execução e horário', async () => {
+    jest.useFakeTimers();
+    const driver = new MemorySchedulerDriver();
+    const handler = jest.fn(async () => undefined);
+    driver.onDue(handler);
+
+    const runAt = new Date(Date.now() + 5000);
+    await driver.schedule('execution-1', runAt);
+    await driver.schedule('execution-1', runAt);
+
+    expect(driver.size).toBe(1);
+
+    jest.advanceTimersByTime(4999);
+    expect(handler).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(handler).toHaveBeenCalledWith('execution-1');
+    expect(driver.size).toBe(0);
+  });
+
+  it('descarta os jobs pendentes ao fechar', async () => {
+    const driver = new MemorySchedulerDriver();
+    driver.onDue(jest.fn());
+
+    await driver.schedule('execution-1', new Date(Date.now() + 60000));
+    await driver.close();
+
+    expect(driver.size).toBe(0);
+  });
+});
+
+describe('WorkflowScheduler.recoverPendingExecutions', () => {
+  const findMany = prisma.workflowExecution.findMany as jest.Mock;
+  const updateMany = prisma.workflowExecution.updateMany as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('reagenda pausas com resumeAt e execuções RUNNING paradas há mais que o limite', async () => {
+    const resumeAt = new Date(Date.now() + 60000);
+    const updatedAt = new Date(Date.now() - 2 * STALE_AFTER_MS);
+
+    findMany
+      .mockResolvedValueOnce([{ id: 'paused', resumeAt }])
+      .mockResolvedValueOnce([{ id: 'stale', updatedAt }]);
+    updateMany.mockResolvedValue({ count: 1 });
+
+    const driver = createDriver();
+    const recovered = await new WorkflowScheduler(driver, STALE_AFTER_MS).recoverPendingExecutions();
+
+    expect(recovered).toBe(2);
+    expect(driver.schedule).toHaveBeenCalledWith('paused', resumeAt);
+    expect(driver.schedule).toHaveBeenCalledWith('stale', expect.any(Date));
+
+    const staleQuery = findMany.mock.calls[1][0].where;
+    expect(staleQuery.status).toBe('RUNNING');
+    expect(Date.now() - staleQuery.updatedAt.lt.getTime()).toBeGreaterThanOrEqual(STALE_AFTER_MS);
+
+    // A reivindicação só vale se ninguém mexeu na execução desde a consulta
+    expect(updateMany).toHaveBeenCalledWith({
+      where: { id: 'stale', status: 'RUNNING', updatedAt },
+      data: { updatedAt: expect.any(Date) }
+    });
+  });
+
+  it('não reagenda execuções paradas já reivindicadas por outra instância', async () => {
+    findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ id: 'stale', updatedAt: new Date(0) }]);
+    updateMany.mockResolvedValue({ count: 0 });
+
+    const driver = createDriver();
+    const recovered = await new WorkflowScheduler(driver, STALE_AFTER_MS).recoverPendingExecutions();
+
+    expect(recovered).toBe(0);
+    expect(driver.schedule).not.toHaveBeenCalled();
+  });
+
+  it('registra o handler no driver e para a recuperação periódica ao fechar', async () => {
+    findMany.mockResolvedValue([]);
+
+    const driver = createDriver();
+    const scheduler = new WorkflowScheduler(driver, STALE_AFTER_MS);
+    const handler = jest.fn(async () => undefined);
+
+    await scheduler.start(handler);
+    await scheduler.close();
+
+    expect(driver.onDue).toHaveBeenCalledWith(handler);
+    expect(driver.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,207 @@
+import Queue from 'bull';
+import prisma from '../utils/database';
+import logger from '../utils/logger';
+
+type DueHandler = (executionId: string) => Promise<void>;
+
+// Maior atraso aceito por setTimeout (~24,8 dias)
+const MAX_TIMEOUT_MS = 2147483647;
+
+// Execuções RUNNING sem progresso há mais que isso são consideradas abandonadas (processo reiniciado ou job perdido)
+const STALE_EXECUTION_MS = parseInt(process.env.WORKFLOW_STALE_EXECUTION_MS || '', 10) || 5 * 60 * 1000;
+
+export interface SchedulerDriver {
+  schedule(executionId: string, runAt: Date): Promise<void>;
+  onDue(handler: DueHandler): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Driver persistente baseado em Bull/Redis.
+ * O jobId inclui o horário para que reagendamentos da mesma execução não sejam descartados.
+ */
+class BullSchedulerDriver implements SchedulerDriver {
+  private queue: Queue.Queue<{ executionId: string }>;
+
+  constructor(redisUrl: string) {
+    this.queue = new Queue('workflow-executions', redisUrl);
+  }
+
+  async schedule(executionId: string, runAt: Date): Promise<void> {
+    await this.queue.add(
+      { executionId },
+      {
+        jobId: `${executionId}:${runAt.getTime()}`,
+        delay: Math.max(0, runAt.getTime() - Date.now()),
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 5000 },
+        removeOnComplete: true
+      }
+    );
+  }
+
+  onDue(handler: DueHandler): void {
+    this.queue.process(async (job) => {
+      await handler(job.data.executionId);
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.queue.close();
+  }
+}
+
+/**
+ * Driver em memória, usado em testes e em ambientes sem Redis.
+ * Jobs se perdem ao reiniciar, mas são recuperados do banco por recoverPendingExecutions
+ * (execuções RUNNING só depois de WORKFLOW_STALE_EXECUTION_MS sem progresso).
+ */
+export class MemorySchedulerDriver implements SchedulerDriver {
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private handler?: DueHandler;
+
+  async schedule(executionId: string, runAt: Date): Promise<void> {
+    const key = `${executionId}:${runAt.getTime()}`;
+    if (this.timers.has(key)) return;
+
+    const delay = runAt.getTime() - Date.now();
+
+    const timer = setTimeout(() => {
+      this.timers.delete(key);
+
+      // Atrasos maiores que o limite do setTimeout são reagendados em etapas
+      if (delay > MAX_TIMEOUT_MS) {
+        this.schedule(executionId, runAt);
+        return;
+      }
+
+      this.handler?.(executionId).catch(error => {
+        logger.error('Erro ao processar execução agendada', { executionId, error: error.message });
+      });
+    }, Math.min(Math.max(0, delay), MAX_TIMEOUT_MS));
+
+    this.timers.set(key, timer);
+  }
+
+  onDue(handler: DueHandler): void {
+    this.handler = handler;
+  }
+
+  async close(): Promise<void> {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  // Quantidade de jobs pendentes (útil em testes)
+  get size(): number {
+    return this.timers.size;
+  }
+}
+
+function createDriver(): SchedulerDriver {
+  const driver = process.env.WORKFLOW_SCHEDULER_DRIVER || (process.env.REDIS_URL ? 'bull' : 'memory');
+
+  if (driver === 'bull') {
+    if (!process.env.REDIS_URL) {
+      throw new Error('REDIS_URL é obrigatório para o driver bull do agendador de workflows');
+    }
+    return new BullSchedulerDriver(process.env.REDIS_URL);
+  }
+
+  logger.warn('Agendador de workflows usando driver em memória. Configure REDIS_URL em produção.');
+  return new MemorySchedulerDriver();
+}
+
+export class WorkflowScheduler {
+  private driver: SchedulerDriver;
+  private staleAfterMs: number;
+  private recoveryTimer?: NodeJS.Timeout;
+
+  constructor(driver?: SchedulerDriver, staleAfterMs: number = STALE_EXECUTION_MS) {
+    this.driver = driver || createDriver();
+    this.staleAfterMs = staleAfterMs;
+  }
+
+  /**
+   * Registra o handler que executa as execuções vencidas e reagenda as
+   * execuções pendentes no banco. A recuperação se repete periodicamente
+   * para pegar execuções RUNNING que ficarem paradas depois do início.
+   */
+  async start(handler: DueHandler): Promise<void> {
+    this.driver.onDue(handler);
+    await this.recoverPendingExecutions();
+
+    this.recoveryTimer = setInterval(() => {
+      this.recoverPendingExecutions().catch(error => {
+        logger.error('Erro ao recuperar execuções de workflow pendentes', { error: error.message });
+      });
+    }, this.staleAfterMs);
+    this.recoveryTimer.unref();
+  }
+
+  async schedule(executionId: string, runAt: Date = new Date()): Promise<void> {
+    await this.driver.schedule(executionId, runAt);
+    logger.info('Execução de workflow agendada', { executionId, runAt });
+  }
+
+  /**
+   * Reagenda as execuções PAUSED com resumeAt e as RUNNING sem progresso há
+   * mais de staleAfterMs, que foram enfileiradas ou estavam no meio de um
+   * step quando o processo caiu. Cada execução parada é reivindicada
+   * (atualizando updatedAt) antes de ser reagendada, para que só uma
+   * instância a retome.
+   */
+  async recoverPendingExecutions(): Promise<number> {
+    const [paused, stale] = await Promise.all([
+      prisma.workflowExecution.findMany({
+        where: {
+          status: 'PAUSED',
+          resumeAt: { not: null }
+        },
+        select: { id: true, resumeAt: true }
+      }),
+      prisma.workflowExecution.findMany({
+        where: {
+          status: 'RUNNING',
+          updatedAt: { lt: new Date(Date.now() - this.staleAfterMs) }
+        },
+        select: { id: true, updatedAt: true }
+      })
+    ]);
+
+    for (const execution of paused) {
+      await this.driver.schedule(execution.id, execution.resumeAt!);
+    }
+
+    let recovered = 0;
+
+    for (const execution of stale) {
+      const claimed = await prisma.workflowExecution.updateMany({
+        where: { id: execution.id, status: 'RUNNING', updatedAt: execution.updatedAt },
+        data: { updatedAt: new Date() }
+      });
+
+      if (claimed.count > 0) {
+        await this.driver.schedule(execution.id, new Date());
+        recovered++;
+      }
+    }
+
+    if (paused.length + recovered > 0) {
+      logger.info('Execuções de workflow pendentes reagendadas', { paused: paused.length, running: recovered });
+    }
+
+    return paused.length + recovered;
+  }
+
+  async close(): Promise<void> {
+    if (this.recoveryTimer) {
+      clearInterval(this.recoveryTimer);
+      this.recoveryTimer = undefined;
+    }
+
+    await this.driver.close();
+  }
+}
+
+export default new WorkflowScheduler();
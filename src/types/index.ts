@@ -31,6 +31,13 @@ export interface WhatsAppMessage {
   };
   type: string;
   phoneNumberId?: string;
+  // Presente quando a conversa começa a partir de um anúncio (Click-to-WhatsApp)
+  referral?: {
+    source_id?: string;
+    source_type?: string;
+    source_url?: string;
+    headline?: string;
+  };
 }
 
 export interface ChannelConfig {
@@ -95,13 +102,64 @@ export interface Message {
   createdAt: string;
 }
 
+// Arestas possíveis entre steps de um fluxo
+export type WorkflowStepEdge = 'next' | 'onTrue' | 'onFalse' | 'onError' | 'onTimeout';
+
+// Novas tentativas de um step que lançou erro
+export interface WorkflowStepRetryPolicy {
+  count: number;
+  delayMs?: number;
+  backoff?: 'fixed' | 'exponential';
+}
+
+// Ramo de um step SPLIT: recebe weight / (soma dos pesos) das execuções
+export interface WorkflowSplitBranch {
+  id: string;
+  weight: number;
+  // Step seguido pelas execuções do ramo (null encerra o fluxo)
+  next: string | null;
+}
+
+// Intenção de um step INTENT, reconhecida pelo assistente IA ou pelas palavras-chave
+export interface WorkflowIntent {
+  name: string;
+  description?: string;
+  keywords?: string[];
+  // Step seguido quando a intenção é reconhecida (padrão: onTrue)
+  next?: string | null;
+}
+
+// Tipos de entidade extraídos por um step ENTITY
+export type WorkflowEntityType = 'cpf' | 'cnpj' | 'email' | 'phone' | 'date' | 'money' | 'cep';
+
+export interface WorkflowStepDefinition {
+  id: string;
+  name: string;
+  type: string;
+  config: any;
+  conditions: any[];
+  actions: any[];
+  order?: number;
+  // undefined = segue para o próximo step do array; null = encerra o fluxo
+  next?: string | null;
+  onTrue?: string | null;
+  onFalse?: string | null;
+  onError?: string | null;
+  onTimeout?: string | null;
+  retry?: WorkflowStepRetryPolicy;
+  // Em caso de erro (sem onError), segue pelo "next" em vez de falhar
+  continueOnError?: boolean;
+  // Step inicial do fallback do fluxo, usado quando um erro não é tratado pelo step
+  fallback?: boolean;
+}
+
 export interface Workflow {
   id: string;
   name: string;
   description?: string;
   category: string;
   triggers: string[];
-  steps: any[];
+  steps: WorkflowStepDefinition[];
   isActive: boolean;
   priority: number;
   createdAt: string;
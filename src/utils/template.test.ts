@@ -0,0 +1,54 @@
+import { escapeHtml, renderTemplate, validateTemplate } from './template';
+
+describe('renderTemplate', () => {
+  const context = {
+    customer: { name: 'ana souza', email: '' },
+    order: {
+      total: 1234.5,
+      createdAt: '2026-10-19T15:30:00Z',
+      items: [{ name: 'Camiseta', qty: 2 }, { name: 'Boné', qty: 1 }]
+    }
+  };
+
+  it('resolve caminhos aninhados e deixa vazios os valores ausentes', () => {
+    expect(renderTemplate('Olá, {{ customer.name }}!', context)).toBe('Olá, ana souza!');
+    expect(renderTemplate('{{ order.items.1.name }}', context)).toBe('Boné');
+    expect(renderTemplate('[{{ customer.phone }}]', context)).toBe('[]');
+  });
+
+  it('aplica filtros encadeados com argumentos', () => {
+    expect(renderTemplate('{{ customer.name | capitalize }}', context)).toBe('Ana Souza');
+    expect(renderTemplate('{{ customer.email | default: "sem email" | upper }}', context)).toBe('SEM EMAIL');
+    expect(renderTemplate('{{ order.total | currency }}', context)).toMatch(/^R\$\s1\.234,50$/);
+    expect(renderTemplate('{{ order.createdAt | date: "dd/MM/yyyy HH:mm" }}', context)).toBe('19/10/2026 12:30');
+    expect(renderTemplate('{{ order.items | size }}', context)).toBe('2');
+  });
+
+  it('renderiza blocos if/unless/else e each com @index', () => {
+    expect(renderTemplate('{{#if order.total > 1000}}frete grátis{{else}}frete pago{{/if}}', context)).toBe('frete grátis');
+    expect(renderTemplate('{{#unless customer.email}}sem email{{/unless}}', context)).toBe('sem email');
+    expect(renderTemplate('{{#each order.items}}{{ @index }}-{{ name }}x{{ qty }}{{#unless @last}}, {{/unless}}{{/each}}', context))
+      .toBe('0-Camisetax2, 1-Bonéx1');
+    expect(renderTemplate('{{#each order.coupons}}{{ this }}{{else}}nenhum cupom{{/each}}', context)).toBe('nenhum cupom');
+  });
+
+  it('não acessa o protótipo dos objetos', () => {
+    expect(renderTemplate('{{ customer.constructor.name }}{{ customer.__proto__ }}', context)).toBe('');
+  });
+
+  it('aplica o escape apenas aos valores interpolados', () => {
+    const html = renderTemplate('<p>{{ note }}</p>', { note: '<script>"x" & \'y\'</script>' }, { escape: escapeHtml });
+
+    expect(html).toBe('<p>&lt;script&gt;&quot;x&quot; &amp; &#39;y&#39;&lt;/script&gt;</p>');
+  });
+});
+
+describe('validateTemplate', () => {
+  it('retorna null para templates válidos e a mensagem de erro para os inválidos', () => {
+    expect(validateTemplate('{{#if a}}{{ b | default: "c" }}{{/if}}')).toBeNull();
+    expect(validateTemplate('{{#if a}}sem fim')).toBe('Template inválido: bloco #if não foi fechado');
+    expect(validateTemplate('{{#each a}}{{/if}}')).toBe('Template inválido: {{/if}} sem bloco correspondente');
+    expect(validateTemplate('{{ a | reverse }}')).toBe('Template inválido: filtro desconhecido "reverse"');
+    expect(validateTemplate('{{ a + b }}')).toBe('Template inválido: expressão não suportada "a + b"');
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * Linguagem de templates segura usada em workflows e campanhas.
+ * Nenhum código é avaliado: apenas caminhos, literais, filtros e blocos.
+ *
+ *   {{ customer.name }}                    caminho aninhado (itens de array: items.0.name)
+ *   {{ customer.name | default: "cliente" }}
+ *   {{ customer.name | upper }}            filtros encadeáveis com |
+ *   {{ order.createdAt | date: "dd/MM/yyyy HH:mm" }}
+ *   {{ order.total | currency }}           R$ 1.234,56
+ *   {{#if order.total > 100}}...{{else}}...{{/if}}
+ *   {{#unless customer.email}}...{{/unless}}
+ *   {{#each order.items}}{{ @index }} - {{ name }}{{/each}}
+ *
+ * Dentro de #each, "this" é o item atual e seus campos podem ser usados diretamente;
+ * @index, @first e @last também estão disponíveis.
+ */
+
+export interface TemplateContext {
+  [key: string]: any;
+}
+
+export interface RenderOptions {
+  // Aplicado ao resultado de cada {{ }} (ex.: encodeURIComponent em URLs)
+  escape?: (value: string) => string;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expression: string }
+  | { type: 'if'; condition: string; negate: boolean; body: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type Filter = (value: any, ...args: any[]) => any;
+
+const MAX_LOOP_ITEMS = 1000;
+const FORBIDDEN_KEYS = ['__proto__', 'prototype', 'constructor'];
+const DEFAULT_TIMEZONE = 'America/Sao_Paulo';
+
+const FILTERS: { [name: string]: Filter } = {
+  default: (value, fallback = '') => isEmpty(value) ? fallback : value,
+  upper: value => toText(value).toUpperCase(),
+  lower: value => toText(value).toLowerCase(),
+  capitalize: value => toText(value).replace(/(^|\s)\S/g, letter => letter.toUpperCase()),
+  trim: value => toText(value).trim(),
+  truncate: (value, length = 100) => {
+    const text = toText(value);
+    return text.length > Number(length) ? `${text.slice(0, Number(length))}...` : text;
+  },
+  date: (value, format = 'dd/MM/yyyy', timeZone = DEFAULT_TIMEZONE) => formatDate(value, String(format), String(timeZone)),
+  currency: (value, currency = 'BRL') => {
+    const number = Number(value);
+    return Number.isFinite(number) && !isEmpty(value)
+      ? new Intl.NumberFormat('pt-BR', { style: 'currency', currency: String(currency) }).format(number)
+      : '';
+  },
+  number: (value, decimals = 0) => {
+    const number = Number(value);
+    return Number.isFinite(number) && !isEmpty(value)
+      ? new Intl.NumberFormat('pt-BR', {
+          minimumFractionDigits: Number(decimals),
+          maximumFractionDigits: Number(decimals)
+        }).format(number)
+      : '';
+  },
+  join: (value, separator = ', ') => Array.isArray(value) ? value.map(toText).join(String(separator)) : toText(value),
+  first: value => Array.isArray(value) ? value[0] : value,
+  last: value => Array.isArray(value) ? value[value.length - 1] : value,
+  size: value => Array.isArray(value) || typeof value === 'string' ? value.length : 0,
+  json: value => JSON.stringify(value ?? null),
+  url: value => encodeURIComponent(toText(value))
+};
+
+const HTML_ENTITIES: { [char: string]: string } = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+// Use como escape ao renderizar templates HTML (ex.: corpo de emails)
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => HTML_ENTITIES[char]);
+}
+
+function isEmpty(value: any): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function toText(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function formatDate(value: any, format: string, timeZone: string): string {
+  if (isEmpty(value)) return '';
+
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) return toText(value);
+
+  const parts: { [type: string]: string } = {};
+  new Intl.DateTimeFormat('pt-BR', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date).forEach(part => { parts[part.type] = part.value; });
+
+  const tokens: { [token: string]: string } = {
+    yyyy: parts.year,
+    yy: parts.year.slice(-2),
+    MM: parts.month,
+    dd: parts.day,
+    HH: parts.hour,
+    mm: parts.minute,
+    ss: parts.second
+  };
+
+  return format.replace(/yyyy|yy|MM|dd|HH|mm|ss/g, token => tokens[token]);
+}
+
+/**
+ * Divide uma string pelo separador, ignorando ocorrências dentro de aspas.
+ */
+function splitOutsideQuotes(input: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of input) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  if (quote) {
+    throw new Error(`Template inválido: aspas não fechadas em "${input}"`);
+  }
+
+  parts.push(current);
+  return parts.map(part => part.trim());
+}
+
+function parse(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Pilha de blocos abertos; "target" é a lista que recebe os próximos nós
+  const stack: { node: Extract<TemplateNode, { type: 'if' | 'each' }>; target: TemplateNode[]; parent: TemplateNode[] }[] = [];
+  let target = root;
+  let lastIndex = 0;
+  const tagPattern = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(template)) !== null) {
+    if (match.index > lastIndex) {
+      target.push({ type: 'text', value: template.slice(lastIndex, match.index) });
+    }
+    lastIndex = tagPattern.lastIndex;
+
+    const tag = match[1];
+    const block = tag.match(/^#(if|unless|each)\s+([\s\S]+)$/);
+
+    if (block) {
+      const node: Extract<TemplateNode, { type: 'if' | 'each' }> = block[1] === 'each'
+        ? { type: 'each', path: block[2].trim(), body: [], otherwise: [] }
+        : { type: 'if', condition: block[2].trim(), negate: block[1] === 'unless', body: [], otherwise: [] };
+
+      target.push(node);
+      stack.push({ node, target: node.body, parent: target });
+      target = node.body;
+    } else if (tag === 'else') {
+      const current = stack[stack.length - 1];
+      if (!current || target === current.node.otherwise) {
+        throw new Error('Template inválido: {{else}} fora de bloco');
+      }
+      target = current.node.otherwise;
+    } else if (/^\/(if|unless|each)$/.test(tag)) {
+      const current = stack.pop();
+      const expected = current?.node.type === 'each' ? 'each' : current?.node.type === 'if' && current.node.negate ? 'unless' : 'if';
+
+      if (!current || tag.slice(1) !== expected) {
+        throw new Error(`Template inválido: {{${tag}}} sem bloco correspondente`);
+      }
+      target = current.parent;
+    } else if (tag.startsWith('#') || tag.startsWith('/')) {
+      throw new Error(`Template inválido: bloco desconhecido {{${tag}}}`);
+    } else {
+      target.push({ type: 'output', expression: tag });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Template inválido: bloco #${stack[stack.length - 1].node.type} não foi fechado`);
+  }
+
+  if (lastIndex < template.length) {
+    root.push({ type: 'text', value: template.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+class Scope {
+  constructor(private values: TemplateContext, private parent?: Scope) {}
+
+  child(values: TemplateContext): Scope {
+    return new Scope(values, this);
+  }
+
+  lookup(path: string): any {
+    const keys = path.split('.');
+
+    if (keys.some(key => FORBIDDEN_KEYS.includes(key))) {
+      return undefined;
+    }
+
+    if (keys[0] === 'this') {
+      return getPath(this.values.this, keys.slice(1));
+    }
+
+    let scope: Scope | undefined = this;
+    while (scope) {
+      if (hasOwn(scope.values, keys[0])) {
+        return getPath(scope.values[keys[0]], keys.slice(1));
+      }
+      // Campos do item atual de um #each
+      if (scope.values.this && typeof scope.values.this === 'object' && hasOwn(scope.values.this, keys[0])) {
+        return getPath(scope.values.this[keys[0]], keys.slice(1));
+      }
+      scope = scope.parent;
+    }
+
+    return undefined;
+  }
+}
+
+function hasOwn(value: any, key: string): boolean {
+  return value !== null && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, key);
+}
+
+function getPath(value: any, keys: string[]): any {
+  let current = value;
+
+  for (const key of keys) {
+    if (typeof current === 'string' && key === 'length') {
+      current = current.length;
+    } else if (hasOwn(current, key)) {
+      current = current[key];
+    } else {
+      return undefined;
+    }
+  }
+
+  return current;
+}
+
+function evaluateOperand(operand: string, scope: Scope): any {
+  const token = operand.trim();
+
+  if (/^(["']).*\1$/s.test(token)) return token.slice(1, -1);
+  if (/^-?\d+(\.\d+)?$/.test(token)) return Number(token);
+  if (token === 'true') return true;
+  if (token === 'false') return false;
+  if (token === 'null') return null;
+
+  if (!/^@?[\w-]+(\.[\w-]+)*$/.test(token)) {
+    throw new Error(`Template inválido: expressão não suportada "${token}"`);
+  }
+
+  return scope.lookup(token);
+}
+
+function evaluateExpression(expression: string, scope: Scope): any {
+  const [operand, ...filters] = splitOutsideQuotes(expression, '|');
+  let value = evaluateOperand(operand, scope);
+
+  for (const filter of filters) {
+    const separator = filter.indexOf(':');
+    const name = (separator === -1 ? filter : filter.slice(0, separator)).trim();
+    const args = separator === -1
+      ? []
+      : splitOutsideQuotes(filter.slice(separator + 1), ',').map(arg => evaluateOperand(arg, scope));
+
+    if (!hasOwn(FILTERS, name)) {
+      throw new Error(`Template inválido: filtro desconhecido "${name}"`);
+    }
+
+    value = FILTERS[name](value, ...args);
+  }
+
+  return value;
+}
+
+function isTruthy(value: any): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return !isEmpty(value) && value !== false && value !== 0;
+}
+
+function evaluateCondition(condition: string, scope: Scope): boolean {
+  const comparison = condition.match(/^(.+?)\s*(==|!=|>=|<=|>|<)\s*(.+)$/);
+
+  if (!comparison) {
+    return isTruthy(evaluateExpression(condition, scope));
+  }
+
+  const left = evaluateExpression(comparison[1], scope);
+  const right = evaluateExpression(comparison[3], scope);
+
+  switch (comparison[2]) {
+    case '==': return left == right;
+    case '!=': return left != right;
+    case '>': return Number(left) > Number(right);
+    case '<': return Number(left) < Number(right);
+    case '>=': return Number(left) >= Number(right);
+    case '<=': return Number(left) <= Number(right);
+    default: return false;
+  }
+}
+
+function renderNodes(nodes: TemplateNode[], scope: Scope, options: RenderOptions): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+
+      case 'output': {
+        const text = toText(evaluateExpression(node.expression, scope));
+        output += options.escape ? options.escape(text) : text;
+        break;
+      }
+
+      case 'if': {
+        const result = evaluateCondition(node.condition, scope);
+        output += renderNodes(result !== node.negate ? node.body : node.otherwise, scope, options);
+        break;
+      }
+
+      case 'each': {
+        const items = evaluateExpression(node.path, scope);
+
+        if (!Array.isArray(items) || items.length === 0) {
+          output += renderNodes(node.otherwise, scope, options);
+          break;
+        }
+
+        items.slice(0, MAX_LOOP_ITEMS).forEach((item, index) => {
+          output += renderNodes(node.body, scope.child({
+            this: item,
+            '@index': index,
+            '@first': index === 0,
+            '@last': index === items.length - 1
+          }), options);
+        });
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Renderiza um template com o contexto informado.
+ * Valores ausentes viram string vazia (use o filtro default para um valor padrão).
+ * Lança erro para templates com sintaxe inválida.
+ */
+export function renderTemplate(template: string, context: TemplateContext, options: RenderOptions = {}): string {
+  if (typeof template !== 'string' || !template.includes('{{')) {
+    return template;
+  }
+
+  return renderNodes(parse(template), new Scope(context || {}), options);
+}
+
+/**
+ * Verifica a sintaxe de um template sem renderizá-lo.
+ * Retorna a mensagem de erro ou null quando o template é válido.
+ */
+export function validateTemplate(template: string): string | null {
+  try {
+    renderTemplate(template, {});
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+}